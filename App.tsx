@@ -1,114 +1,330 @@
 
 import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
-import { generateSpeechStream } from './services/geminiService';
-import { decode, decodeAudioData, exportToWav } from './utils/audio';
-import { VOICES, TONES } from './constants';
-import { LoadingSpinner, PlayIcon, PauseIcon, SpeakerIcon, DownloadIcon } from './components/Icons';
+import { BudgetExceededError, describeSpeechError, generateSegmentedSpeech, getActiveProvider, listProviders, setActiveProvider, synthesisCache, synthesizeSegment, isPauseRequest, SegmentRequest, usageLog } from './services/geminiService';
+import { alignSpeech } from './services/alignmentService';
+import { createLibraryId, LibraryItem } from './services/libraryService';
+import { PlaybackEngine } from './services/playbackEngine';
+import { concatenateChunks, decode, decodeAudioData } from './utils/audio';
+import { chapterSource } from './utils/audiobook';
+import { DOCUMENT_ACCEPT, ImportedDocument } from './utils/documentImport';
+import { SentenceRegion } from './utils/sentenceEditor';
+import { mapTimingsThroughCuts } from './utils/mastering';
+import { NEUTRAL_TIME_STRETCH, TimeStretchSettings } from './utils/timeStretch';
+import { formatMarkupPosition, parseMarkup, planMarkupRequests } from './utils/markup';
+import { canVoiceNatively, listSpeakers, parseScript, parseScriptMarkup, planScriptRequests, requestWords, resolveSpeakerVoices, SpeakerSetting } from './utils/script';
+import { VOICES, TONES, CHAPTER_PAUSE_SECONDS, GEMINI_LANGUAGES } from './constants';
+import { LoadingSpinner, PlayIcon, PauseIcon, SpeakerIcon } from './components/Icons';
+import { BatchPanel } from './components/BatchPanel';
+import { CacheControls } from './components/CacheControls';
+import { ChapterList } from './components/ChapterList';
+import { DubPanel } from './components/DubPanel';
+import { ExportMenu } from './components/ExportMenu';
+import { LexiconPanel } from './components/LexiconPanel';
+import { LibraryPanel } from './components/LibraryPanel';
+import { MasteringPanel } from './components/MasteringPanel';
+import { MusicBedPanel } from './components/MusicBedPanel';
+import { PlaybackControls } from './components/PlaybackControls';
+import { SegmentProgress, SegmentProgressItem } from './components/SegmentProgress';
+import { ScriptView } from './components/ScriptView';
+import { SpeakerSettings } from './components/SpeakerSettings';
+import { UsagePanel } from './components/UsagePanel';
+import { VideoExportPanel } from './components/VideoExportPanel';
+import { VoiceBrowser } from './components/VoiceBrowser';
+import { WaveformEditor } from './components/WaveformEditor';
+import { useAudioExport } from './components/useAudioExport';
+import { useAudiobook, useAudiobookChapters } from './components/useAudiobook';
+import { useBatch } from './components/useBatch';
+import { useDubbing } from './components/useDubbing';
+import { useLexicon } from './components/useLexicon';
+import { useLibrary } from './components/useLibrary';
+import { useMastering } from './components/useMastering';
+import { useMusicBed } from './components/useMusicBed';
+import { useUsage } from './components/useUsage';
+import { useVideoExport } from './components/useVideoExport';
+import { useVoiceBrowser } from './components/useVoiceBrowser';
+import { EditSnapshot, useWaveformEditor } from './components/useWaveformEditor';
+import type { WordTiming } from './types';
 
-interface WordTiming {
-  word: string;
-  start: number;
-  end: number;
-}
+// Tone select entry that switches to a free-text style.
+const CUSTOM_STYLE = '__custom__';
 
 const App: React.FC = () => {
   const [text, setText] = useState<string>('Hello! I am a powerful text-to-speech model from Google. I can now stream audio and highlight words as I speak.');
   const [selectedVoice, setSelectedVoice] = useState<string>(VOICES[0].value);
   const [selectedTone, setSelectedTone] = useState<string>(TONES[0].value);
+  const [selectedProvider, setSelectedProvider] = useState<string>(() => getActiveProvider().id);
+  const [isScriptMode, setIsScriptMode] = useState<boolean>(false);
+  const [speakerSettings, setSpeakerSettings] = useState<Record<string, SpeakerSetting>>({});
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  
+
   const [audioChunks, setAudioChunks] = useState<AudioBuffer[]>([]);
   const [isGenerated, setIsGenerated] = useState<boolean>(false);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
-  
+
   const [totalDuration, setTotalDuration] = useState<number>(0);
   const [currentTime, setCurrentTime] = useState<number>(0);
   const [currentWordIndex, setCurrentWordIndex] = useState<number>(-1);
   const [wordTimings, setWordTimings] = useState<WordTiming[]>([]);
-  
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const audioSourcesRef = useRef<AudioBufferSourceNode[]>([]);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  
-  const playbackStartTimeRef = useRef<number>(0);
-  const pauseOffsetRef = useRef<number>(0);
-  const animationFrameIdRef = useRef<number | null>(null);
-  const visualizerFrameIdRef = useRef<number | null>(null);
-
-  const words = useMemo(() => text.split(/\s+/).filter(word => word.length > 0), [text]);
+  const [segments, setSegments] = useState<SegmentProgressItem[]>([]);
+  const [retryingSegment, setRetryingSegment] = useState<number | null>(null);
+  const [bypassCache, setBypassCache] = useState<boolean>(false);
+  const [cacheStats, setCacheStats] = useState(() => synthesisCache.stats());
+  const [timeStretch, setTimeStretch] = useState<TimeStretchSettings>(NEUTRAL_TIME_STRETCH);
+
+  // Owns the audio context and everything playing on it. Only coarse changes
+  // (play state, the spoken word, a throttled position) reach React state.
+  const [engine] = useState(() => new PlaybackEngine());
+
+  const generationIdRef = useRef<number>(0);
+  const segmentChunksRef = useRef<AudioBuffer[][]>([]);
+  const segmentRequestsRef = useRef<SegmentRequest[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // The settings a generation was started with, saved alongside its audio. A
+  // chunk list that is already in the library is not aligned or saved again.
+  const generationSettingsRef = useRef<Omit<LibraryItem, 'sampleRate' | 'duration' | 'wordTimings' | 'sizeBytes'> | null>(null);
+  const persistedChunksRef = useRef<AudioBuffer[] | null>(null);
+  const documentInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Each panel's state and handlers live in a hook next to it. Imported books
+  // and opened library items go through arrows, since `showDocument` and
+  // `restoreLibraryItem` are declared further down and only run after render.
+  const usage = useUsage();
+  const lexicon = useLexicon({ onError: setError });
+  const voiceBrowser = useVoiceBrowser({ engine, providerId: selectedProvider, tone: selectedTone, onError: setError });
+  const musicBed = useMusicBed({ onError: setError });
+  const mastering = useMastering({
+    engine,
+    audioChunks,
+    isFinished: isGenerated && !isLoading,
+    musicBed: musicBed.bed,
+    musicBedSettings: musicBed.settings,
+  });
+  const { processed } = mastering;
+  const book = useAudiobook({
+    voice: selectedVoice,
+    tone: selectedTone,
+    onImported: document => showDocument(document),
+    onError: setError,
+  });
+  const library = useLibrary({
+    onOpen: (item, samples) => restoreLibraryItem(item, samples),
+    onError: setError,
+  });
+  const batch = useBatch({ voice: selectedVoice, tone: selectedTone, bypassCache, onError: setError });
+  const dub = useDubbing({ text, voice: selectedVoice, tone: selectedTone, baseName: book.baseName, onError: setError });
+
+  const scriptLines = useMemo(() => isScriptMode ? parseScript(text) : [], [isScriptMode, text]);
+  const speakerNames = useMemo(() => listSpeakers(scriptLines), [scriptLines]);
+  const speakerVoices = useMemo(
+    () => resolveSpeakerVoices(speakerNames, speakerSettings, selectedTone),
+    [speakerNames, speakerSettings, selectedTone]
+  );
+  const parsedScriptLines = useMemo(() => parseScriptMarkup(scriptLines, speakerVoices), [scriptLines, speakerVoices]);
+  const markup = useMemo(
+    () => isScriptMode ? null : parseMarkup(text, { voice: selectedVoice, tone: selectedTone }),
+    [isScriptMode, text, selectedVoice, selectedTone]
+  );
+  const markupErrors = useMemo(() => isScriptMode
+    ? parsedScriptLines.flatMap((line, index) => line.markup.errors.map(e => `Turn ${index + 1} (${line.speaker}) at ${formatMarkupPosition(line.text, e.offset)}: ${e.message}`))
+    : (markup?.errors ?? []).map(e => `Line ${formatMarkupPosition(text, e.offset)}: ${e.message}`),
+    [isScriptMode, parsedScriptLines, markup, text]
+  );
+  // Only spoken words are read along: speaker labels, tags and emphasis
+  // markers are stripped.
+  const scriptLineWords = useMemo(
+    () => parsedScriptLines.map(line => line.markup.plainText.split(/\s+/).filter(word => word.length > 0)),
+    [parsedScriptLines]
+  );
+  // Words grouped by script line or chapter; plain text is a single line.
+  const sourceLineWords = useMemo(() => {
+    const split = (plainText: string) => plainText.split(/\s+/).filter(word => word.length > 0);
+    if (book.markups) return book.markups.map(chapter => split(chapter.plainText));
+    return isScriptMode ? scriptLineWords : [split(markup?.plainText ?? '')];
+  }, [book.markups, isScriptMode, scriptLineWords, markup]);
+
+  // The editor works on the unprocessed audio, whose timings are `wordTimings`.
+  const editorSamples = useMemo(
+    () => isGenerated && !isLoading && audioChunks.length > 0 ? concatenateChunks(audioChunks) : null,
+    [isGenerated, isLoading, audioChunks]
+  );
+  const canEdit = !isLoading && retryingSegment === null && !segments.some(segment => segment.status === 'failed');
+
+  // Makes a snapshot the current audio. It is saved to the library here rather
+  // than by the alignment effect, which would replace the spliced timings.
+  const applyEditSnapshot = useCallback((snapshot: EditSnapshot) => {
+    engine.load(snapshot.chunks);
+    persistedChunksRef.current = snapshot.chunks;
+    setAudioChunks(snapshot.chunks);
+    setWordTimings(snapshot.timings);
+    book.setStarts(null);
+
+    const settings = generationSettingsRef.current;
+    if (!settings) return;
+    library.save({ ...settings, sampleRate: snapshot.chunks[0].sampleRate, wordTimings: snapshot.timings }, concatenateChunks(snapshot.chunks));
+  }, [engine, book.setStarts, library.save]);
+
+  const editor = useWaveformEditor({
+    engine,
+    audioChunks,
+    wordTimings,
+    sourceLineWords,
+    samples: editorSamples,
+    canEdit,
+    bypassCache,
+    onApply: applyEditSnapshot,
+    onError: setError,
+  });
+  const { lineWords, words } = editor;
 
   useEffect(() => {
+    const unsubscribes = [
+      engine.on('playingchange', setIsPlaying),
+      engine.on('timeupdate', setCurrentTime),
+      engine.on('wordchange', setCurrentWordIndex),
+      engine.on('durationchange', setTotalDuration),
+      engine.on('error', e => setError(`Playback failed: ${e.message}`)),
+    ];
     return () => {
-      audioContextRef.current?.close();
-      if (animationFrameIdRef.current) {
-        cancelAnimationFrame(animationFrameIdRef.current);
-      }
-      if (visualizerFrameIdRef.current) {
-        cancelAnimationFrame(visualizerFrameIdRef.current);
-      }
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+      engine.dispose();
     };
-  }, []);
+  }, [engine]);
+
+  useEffect(() => synthesisCache.subscribe(() => setCacheStats(synthesisCache.stats())), []);
 
+  const chapterSegmentCounts = book.segmentCounts;
+
+  // Timings are only computed once the stream has finished, since aligning the
+  // words against a partial recording would squeeze them into too little audio.
+  // Each segment is aligned against its own audio, off the main thread, and a
+  // book is sent one chapter at a time. The finished audio is then saved to
+  // the library together with the timings.
   useEffect(() => {
-    if (isGenerated && totalDuration > 0) {
-      const newWordTimings: WordTiming[] = [];
-      const totalChars = text.replace(/\s+/g, '').length;
-      if (totalDuration === 0) return;
-      const charsPerSecond = totalChars / totalDuration;
-      let accumulatedTime = 0;
-      
-      words.forEach(word => {
-        const wordDuration = word.length / charsPerSecond;
-        const startTime = accumulatedTime;
-        const endTime = accumulatedTime + wordDuration;
-        newWordTimings.push({ word, start: startTime, end: endTime });
-        accumulatedTime = endTime;
+    if (!isGenerated || isLoading || audioChunks.length === 0 || persistedChunksRef.current === audioChunks) return;
+    const sampleRate = audioChunks[0].sampleRate;
+    const requests = segmentRequestsRef.current;
+    const segmentChunks = segmentChunksRef.current;
+    const segmentWords = requests.map(requestWords);
+    const timeline = segmentChunks.flat();
+    // Anything that no longer matches the planned segments is aligned whole.
+    const bySegment = segmentChunks.length === requests.length
+      && segmentWords.reduce((sum, list) => sum + list.length, 0) === words.length
+      && timeline.length === audioChunks.length && timeline.every((chunk, index) => chunk === audioChunks[index]);
+    const byChapter = bySegment && chapterSegmentCounts !== null
+      && chapterSegmentCounts.reduce((sum, count) => sum + count, 0) === requests.length;
+    const groups = byChapter
+      ? chapterSegmentCounts.map((count, chapter) => {
+          const first = chapterSegmentCounts.slice(0, chapter).reduce((sum, previous) => sum + previous, 0);
+          return segmentChunks.slice(first, first + count).map((chunks, index) => ({ samples: concatenateChunks(chunks), words: segmentWords[first + index] }));
+        })
+      : bySegment
+        ? [segmentChunks.map((chunks, index) => ({ samples: concatenateChunks(chunks), words: segmentWords[index] }))]
+        : [[{ samples: concatenateChunks(audioChunks), words }]];
+
+    let cancelled = false;
+    const align = async () => {
+      const timings: WordTiming[] = [];
+      const starts: number[] = [];
+      let offset = 0;
+      for (const group of groups) {
+        starts.push(offset);
+        const groupTimings = await alignSpeech(group, sampleRate);
+        if (cancelled) return null;
+        for (const timing of groupTimings) {
+          timings.push({ word: timing.word, start: timing.start + offset, end: timing.end + offset });
+        }
+        offset += group.reduce((sum, segment) => sum + segment.samples.length, 0) / sampleRate;
+      }
+      return { timings, starts };
+    };
+    align()
+      .then(result => {
+        if (!result) return;
+        const { timings, starts } = result;
+        setWordTimings(timings);
+        book.setStarts(byChapter ? starts : null);
+
+        const settings = generationSettingsRef.current;
+        if (!settings) return;
+        persistedChunksRef.current = audioChunks;
+        library.save({ ...settings, sampleRate, wordTimings: timings }, concatenateChunks(audioChunks));
+      })
+      .catch(e => {
+        if (!cancelled) console.warn("Could not align words:", e);
       });
-      setWordTimings(newWordTimings);
-    }
-  }, [isGenerated, totalDuration, text, words]);
-
-  const stopPlayback = useCallback((resetPlaying = true) => {
-    audioSourcesRef.current.forEach(source => {
-      try { source.stop(); } catch (e) {}
-      source.disconnect();
-    });
-    audioSourcesRef.current = [];
-    
-    if (animationFrameIdRef.current) {
-      cancelAnimationFrame(animationFrameIdRef.current);
-      animationFrameIdRef.current = null;
-    }
-    if (visualizerFrameIdRef.current) {
-      cancelAnimationFrame(visualizerFrameIdRef.current);
-      visualizerFrameIdRef.current = null;
-    }
-    
-    if (resetPlaying) {
-      setIsPlaying(false);
-    }
-    setCurrentTime(0);
-    setCurrentWordIndex(-1);
-    pauseOffsetRef.current = 0;
-    playbackStartTimeRef.current = 0;
-    
-    // Clear canvas
-    if (canvasRef.current) {
-        const ctx = canvasRef.current.getContext('2d');
-        if (ctx) ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-    }
-  }, []);
+    return () => { cancelled = true; };
+  }, [isGenerated, isLoading, audioChunks, words, chapterSegmentCounts, book.setStarts, library.save]);
+
+  // Trimming silence and the music bed intro move words, so highlighting
+  // follows the processed timeline.
+  const playbackTimings = useMemo(() => {
+    if (!processed) return wordTimings;
+    const { cuts, speechOffset } = processed;
+    return mapTimingsThroughCuts(wordTimings, cuts)
+      .map(timing => ({ ...timing, start: timing.start + speechOffset, end: timing.end + speechOffset }));
+  }, [processed, wordTimings]);
+
+  useEffect(() => {
+    engine.setWordTimings(playbackTimings);
+  }, [engine, playbackTimings]);
+
+  const chapters = useAudiobookChapters({
+    book,
+    lineWords,
+    words,
+    wordTimings,
+    playbackTimings,
+    processed,
+    sourceDuration: editorSamples ? editorSamples.length / audioChunks[0].sampleRate : null,
+    totalDuration,
+    currentTime,
+    segments,
+  });
+  const audioExport = useAudioExport({
+    audioChunks,
+    wordTimings,
+    playbackTimings,
+    timeStretch,
+    mastering: mastering.settings,
+    musicBed: musicBed.bed,
+    musicBedSettings: musicBed.settings,
+    chapters: book.audiobook?.chapters ?? null,
+    sourceChapters: chapters.sourceChapters,
+    playbackChapters: chapters.playbackChapters,
+    baseName: book.baseName,
+    onError: setError,
+  });
+  const video = useVideoExport({
+    samples: editorSamples,
+    sampleRate: audioChunks[0]?.sampleRate ?? 0,
+    processed,
+    timeStretch,
+    timings: playbackTimings,
+    baseName: book.baseName,
+    onError: setError,
+  });
+
+  const attachVisualizer = useCallback((canvas: HTMLCanvasElement | null) => engine.setVisualizer(canvas), [engine]);
 
   const resetGeneration = useCallback(() => {
-    stopPlayback();
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    generationIdRef.current++;
+    engine.setStreaming(false);
+    engine.load([]);
+    segmentChunksRef.current = [];
     setIsGenerated(false);
+    setIsLoading(false);
     setAudioChunks([]);
-    setTotalDuration(0);
     setWordTimings([]);
+    setSegments([]);
+    setRetryingSegment(null);
     setError(null);
-  }, [stopPlayback]);
+    library.setActiveId(null);
+    editor.reset();
+    book.resetTimeline();
+  }, [engine, library.setActiveId, editor.reset, book.resetTimeline]);
 
   const onTextChanged = (newText: string) => {
     setText(newText);
@@ -117,228 +333,263 @@ const App: React.FC = () => {
     }
   }
 
+  const onScriptModeChanged = (enabled: boolean) => {
+    setIsScriptMode(enabled);
+    if(isGenerated) {
+        resetGeneration();
+    }
+  }
+
+  const onSpeakerSettingChanged = (speaker: string, setting: SpeakerSetting) => {
+    setSpeakerSettings(prev => ({ ...prev, [speaker]: setting }));
+  }
+
+  const onProviderChanged = (providerId: string) => {
+    setActiveProvider(providerId);
+    setSelectedProvider(providerId);
+  }
+
+  // Playback continues from the same spot in the text at the new settings.
+  const onTimeStretchChanged = useCallback((settings: TimeStretchSettings) => {
+    engine.setTimeStretch(settings);
+    setTimeStretch(settings);
+  }, [engine]);
+
+  const updateSegment = useCallback((index: number, update: Partial<SegmentProgressItem>) => {
+    setSegments(prev => prev.map((segment, i) => i === index ? { ...segment, ...update } : segment));
+  }, []);
+
   const handleGenerateAudio = useCallback(async () => {
     if (!text.trim()) {
       setError('Please enter some text.');
       return;
     }
+    if (markupErrors.length > 0) {
+      setError('Fix the markup errors before generating.');
+      return;
+    }
+    if (!selectedTone.trim()) {
+      setError('Describe the custom style or pick a tone.');
+      return;
+    }
+    if (usageLog.budgetLevel() === 'hard') {
+      setError(describeSpeechError(new BudgetExceededError()));
+      return;
+    }
     resetGeneration();
     setIsLoading(true);
+    const generationId = generationIdRef.current;
+    const libraryId = createLibraryId();
+    generationSettingsRef.current = {
+      id: libraryId,
+      name: book.audiobook?.title ?? text.trim().split(/\s+/).slice(0, 8).join(' '),
+      text,
+      voice: selectedVoice,
+      tone: selectedTone,
+      providerId: getActiveProvider().id,
+      scriptMode: isScriptMode,
+      speakerSettings,
+      createdAt: Date.now(),
+    };
+    library.setActiveId(libraryId);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { capabilities } = getActiveProvider();
+    const sampleRate = capabilities.outputSampleRate;
+    // Chapters are planned one by one so no request spans two of them.
+    const chapterMarkups = book.markups;
+    const chapterRequests = chapterMarkups?.map((chapter, index): SegmentRequest[] => [
+      ...planMarkupRequests(chapter.segments),
+      ...(index < chapterMarkups.length - 1 ? [{ pauseSeconds: CHAPTER_PAUSE_SECONDS }] : []),
+    ]);
+    const requests: SegmentRequest[] = chapterRequests
+      ? chapterRequests.flat()
+      : isScriptMode
+        ? planScriptRequests(parsedScriptLines, speakerVoices, capabilities)
+        : planMarkupRequests(markup?.segments ?? []);
+    book.setSegmentCounts(chapterRequests?.map(chapter => chapter.length) ?? null);
 
-    if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    }
-    if(audioContextRef.current.state === 'suspended') {
-      await audioContextRef.current.resume();
-    }
+    const ctx = await engine.ensureContext();
+
+    engine.setStreaming(true);
+    segmentRequestsRef.current = requests;
+    segmentChunksRef.current = requests.map(() => []);
+    setSegments(requests.map(request => ({
+      text: isPauseRequest(request) ? `[pause ${request.pauseSeconds}s]` : request.text,
+      status: 'pending',
+    })));
 
-    const tempChunks: AudioBuffer[] = [];
-    let tempDuration = 0;
+    let failedCount = 0;
+    let lastError: Error | undefined;
+    // Bumped whenever a segment's audio is dropped, so chunks of it that were
+    // still decoding are not appended afterwards.
+    const segmentEpochs = requests.map(() => 0);
 
-    const onAudioChunk = async (base64Audio: string) => {
-      if (!audioContextRef.current) return;
+    // Audio a segment streamed before it failed or started over leaves the
+    // timeline too, so a partial segment is never played, exported or aligned.
+    const dropSegmentAudio = (segmentIndex: number) => {
+      segmentEpochs[segmentIndex]++;
+      if (segmentChunksRef.current[segmentIndex].length === 0) return;
+      segmentChunksRef.current[segmentIndex] = [];
+      const resumeAt = engine.isPlaying ? engine.position : null;
+      engine.load(segmentChunksRef.current.flat());
+      setAudioChunks(engine.chunks);
+      if (resumeAt !== null) engine.play(Math.min(resumeAt, engine.duration));
+    };
+
+    // Chunks are exposed as soon as they decode: the first one starts playback,
+    // later ones are appended to the running timeline.
+    const onAudioChunk = async (segmentIndex: number, base64Audio: string) => {
+      if (generationId !== generationIdRef.current) return;
+      const epoch = segmentEpochs[segmentIndex];
       try {
         const audioData = decode(base64Audio);
-        const buffer = await decodeAudioData(audioData, audioContextRef.current, 24000, 1);
-        tempChunks.push(buffer);
-        tempDuration += buffer.duration;
+        const buffer = await decodeAudioData(audioData, ctx, sampleRate, 1);
+        if (generationId !== generationIdRef.current || epoch !== segmentEpochs[segmentIndex]) return;
+        segmentChunksRef.current[segmentIndex].push(buffer);
+        const isFirstChunk = engine.chunks.length === 0;
+        engine.append(buffer);
+        setAudioChunks(engine.chunks);
+
+        if (isFirstChunk) {
+          setIsGenerated(true);
+          engine.play(0);
+        }
       } catch (e) {
         console.error("Error decoding audio chunk", e);
         setError("Failed to process an audio chunk.");
       }
     };
-    
-    const onStreamEnd = () => {
-      setAudioChunks(tempChunks);
-      setTotalDuration(tempDuration);
-      setIsLoading(false);
-      setIsGenerated(true);
-    };
-    
-    const onError = (error: Error) => {
-      setError(`Failed to generate audio: ${error.message}`);
-      setIsLoading(false);
+
+    const onSegmentStatus = (segmentIndex: number, status: SegmentProgressItem['status'], segmentError?: Error) => {
+      if (generationId !== generationIdRef.current) return;
+      if (status === 'failed') {
+        failedCount++;
+        lastError = segmentError;
+        dropSegmentAudio(segmentIndex);
+      }
+      updateSegment(segmentIndex, { status, error: segmentError?.message });
     };
 
-    generateSpeechStream(text, selectedVoice, selectedTone, onAudioChunk, onStreamEnd, onError);
-  }, [text, selectedVoice, selectedTone, resetGeneration]);
-
-  const drawVisualizer = useCallback(() => {
-    if (!analyserRef.current || !canvasRef.current) return;
-    
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const bufferLength = analyserRef.current.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    
-    const draw = () => {
-        if (!isPlaying) return;
-        visualizerFrameIdRef.current = requestAnimationFrame(draw);
-        
-        if (!analyserRef.current) return;
-        analyserRef.current.getByteFrequencyData(dataArray);
-        
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        
-        const barWidth = (canvas.width / bufferLength) * 2.5;
-        let barHeight;
-        let x = 0;
-        
-        for(let i = 0; i < bufferLength; i++) {
-            barHeight = dataArray[i] / 2;
-            
-            const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
-            gradient.addColorStop(0, '#22d3ee'); // Cyan 400
-            gradient.addColorStop(1, '#0891b2'); // Cyan 600
-            
-            ctx.fillStyle = gradient;
-            ctx.fillRect(x, canvas.height - barHeight, barWidth, barHeight);
-            
-            x += barWidth + 1;
-        }
+    const onSegmentRetry = (segmentIndex: number, segmentError: Error, attempt: number, delayMs: number) => {
+      if (generationId !== generationIdRef.current) return;
+      dropSegmentAudio(segmentIndex);
+      updateSegment(segmentIndex, { error: `Retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt + 1}): ${segmentError.message}` });
     };
-    
-    draw();
-  }, [isPlaying]);
 
-  useEffect(() => {
-    if (isPlaying) {
-        drawVisualizer();
-    }
-  }, [isPlaying, drawVisualizer]);
+    const onStreamEnd = () => {
+      if (generationId !== generationIdRef.current) return;
+      engine.setStreaming(false);
+      abortControllerRef.current = null;
+      setIsLoading(false);
+      if (controller.signal.aborted) {
+        setError(failedCount < requests.length
+          ? `Generation cancelled. ${failedCount} of ${requests.length} segments were not generated; retry them from the segment bar.`
+          : 'Generation cancelled.');
+      } else if (failedCount === requests.length) {
+        setError(describeSpeechError(lastError));
+      } else if (failedCount > 0) {
+        setError(`${failedCount} of ${requests.length} segments failed. ${describeSpeechError(lastError)}`);
+      }
+      if (engine.chunks.length > 0) {
+        setIsGenerated(true);
+      }
+    };
 
-  const updateProgress = useCallback(() => {
-    if (!audioContextRef.current) return;
-    
-    const elapsedTime = pauseOffsetRef.current + (audioContextRef.current.currentTime - playbackStartTimeRef.current);
-    setCurrentTime(Math.min(elapsedTime, totalDuration));
+    generateSegmentedSpeech(requests, { onAudioChunk, onSegmentStatus, onSegmentRetry, onStreamEnd }, { bypassCache, signal: controller.signal });
+  }, [text, selectedVoice, selectedTone, selectedProvider, bypassCache, isScriptMode, speakerSettings, parsedScriptLines, speakerVoices, markup, markupErrors, book.audiobook, book.markups, book.setSegmentCounts, library.setActiveId, resetGeneration, engine, updateSegment]);
 
-    const newWordIndex = wordTimings.findIndex(timing => elapsedTime >= timing.start && elapsedTime < timing.end);
-    if(newWordIndex !== -1) {
-        setCurrentWordIndex(newWordIndex);
-    }
+  // Segments that already finished stay in the timeline; the rest are marked
+  // failed so they can be retried individually.
+  const cancelGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
-    if (elapsedTime < totalDuration) {
-        animationFrameIdRef.current = requestAnimationFrame(updateProgress);
-    } else {
-        setIsPlaying(false);
-        setCurrentTime(totalDuration);
-        if (visualizerFrameIdRef.current) cancelAnimationFrame(visualizerFrameIdRef.current);
-        // Clear canvas on end
-        if (canvasRef.current) {
-            const ctx = canvasRef.current.getContext('2d');
-            if (ctx) ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-        }
-    }
-  }, [totalDuration, wordTimings]);
+  // Re-synthesizes one segment and splices it back into the timeline in place
+  // of whatever it held before, leaving every other segment untouched.
+  const retrySegment = useCallback(async (index: number) => {
+    const request = segmentRequestsRef.current[index];
+    if (!request || isLoading || retryingSegment !== null) return;
 
-  const play = useCallback(async (resumeTime = 0) => {
-    if (!audioContextRef.current || audioChunks.length === 0) return;
+    const generationId = generationIdRef.current;
+    const sampleRate = getActiveProvider().capabilities.outputSampleRate;
+    const ctx = await engine.ensureContext();
+    const decoded: Promise<AudioBuffer>[] = [];
 
-    if (audioContextRef.current.state === 'suspended') {
-      await audioContextRef.current.resume();
-    } else {
-      audioSourcesRef.current.forEach(source => {
-          try { source.stop(); } catch(e) {}
-          source.disconnect();
+    setRetryingSegment(index);
+    updateSegment(index, { status: 'synthesizing', error: undefined });
+    try {
+      await synthesizeSegment(request, chunk => {
+        decoded.push(decodeAudioData(decode(chunk), ctx, sampleRate, 1));
+      }, {
+        bypassCache,
+        onRetry: (retryError, attempt, delayMs) => {
+          decoded.length = 0;
+          updateSegment(index, {
+            error: `Retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt + 1}): ${retryError.message}`,
+          });
+        },
       });
-      audioSourcesRef.current = [];
-    }
+      const buffers = await Promise.all(decoded);
+      if (generationId !== generationIdRef.current) return;
 
-    // Create Master Gain and Analyser
-    const masterGain = audioContextRef.current.createGain();
-    const analyser = audioContextRef.current.createAnalyser();
-    analyser.fftSize = 64; // Lower FFT size for chunkier bars
-    masterGain.connect(analyser);
-    analyser.connect(audioContextRef.current.destination);
-    analyserRef.current = analyser;
-
-    let accumulatedDuration = 0;
-    let startChunkIndex = 0;
-    let startChunkOffset = 0;
-
-    for(let i=0; i < audioChunks.length; i++) {
-      const chunkDuration = audioChunks[i].duration;
-      if (accumulatedDuration + chunkDuration > resumeTime) {
-          startChunkIndex = i;
-          startChunkOffset = resumeTime - accumulatedDuration;
-          break;
-      }
-      accumulatedDuration += chunkDuration;
-    }
+      segmentChunksRef.current[index] = buffers;
+      engine.load(segmentChunksRef.current.flat());
+      setAudioChunks(engine.chunks);
+      setIsGenerated(engine.chunks.length > 0);
+      updateSegment(index, { status: 'done' });
 
-    const now = audioContextRef.current.currentTime;
-    let nextStartTime = now;
-
-    for (let i = startChunkIndex; i < audioChunks.length; i++) {
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = audioChunks[i];
-      // Connect to master gain instead of destination
-      source.connect(masterGain);
-      
-      const offset = (i === startChunkIndex) ? startChunkOffset : 0;
-      const duration = audioChunks[i].duration - offset;
-      
-      source.start(nextStartTime, offset);
-      nextStartTime += duration;
-      
-      audioSourcesRef.current.push(source);
-    }
-      
-    if(audioSourcesRef.current.length > 0) {
-      const lastSource = audioSourcesRef.current[audioSourcesRef.current.length - 1];
-      lastSource.onended = () => {
-          const estEndTime = playbackStartTimeRef.current + (totalDuration - pauseOffsetRef.current);
-          if (audioContextRef.current && audioContextRef.current.currentTime >= estEndTime - 0.1) {
-               setIsPlaying(false);
-               setCurrentTime(totalDuration);
-          }
-      };
-    }
-    
-    playbackStartTimeRef.current = audioContextRef.current.currentTime;
-    pauseOffsetRef.current = resumeTime;
-    setIsPlaying(true);
-    animationFrameIdRef.current = requestAnimationFrame(updateProgress);
-
-  }, [audioChunks, totalDuration, updateProgress]);
-
-  const pause = useCallback(async () => {
-    if (!audioContextRef.current) return;
-    
-    pauseOffsetRef.current += (audioContextRef.current.currentTime - playbackStartTimeRef.current);
-    
-    audioSourcesRef.current.forEach(source => {
-        try { source.stop(); } catch (e) {}
-    });
-    
-    if (animationFrameIdRef.current) {
-      cancelAnimationFrame(animationFrameIdRef.current);
-      animationFrameIdRef.current = null;
+      const remainingFailures = segments.filter((s, i) => i !== index && s.status === 'failed').length;
+      setError(remainingFailures > 0 ? `${remainingFailures} of ${segments.length} segments failed. Retry them from the segment bar.` : null);
+    } catch (e) {
+      if (generationId !== generationIdRef.current) return;
+      const message = e instanceof Error ? e.message : String(e);
+      updateSegment(index, { status: 'failed', error: message });
+      setError(`Segment ${index + 1} failed again. ${describeSpeechError(e)}`);
+    } finally {
+      setRetryingSegment(null);
     }
-    if (visualizerFrameIdRef.current) {
-      cancelAnimationFrame(visualizerFrameIdRef.current);
-      visualizerFrameIdRef.current = null;
-    }
-    setIsPlaying(false);
-  }, []);
+  }, [segments, isLoading, retryingSegment, bypassCache, engine, updateSegment]);
+
+  const regionVoice = useCallback((region: SentenceRegion) => {
+    const speaker = isScriptMode ? speakerVoices.find(v => v.speaker === scriptLines[region.line]?.speaker) : undefined;
+    return speaker ? { voice: speaker.voice, tone: speaker.tone } : { voice: selectedVoice, tone: selectedTone };
+  }, [isScriptMode, speakerVoices, scriptLines, selectedVoice, selectedTone]);
+
+  // An imported document's chapters replace the text.
+  const showDocument = useCallback((document: ImportedDocument) => {
+    resetGeneration();
+    setIsScriptMode(false);
+    setText(document.chapters.map(chapterSource).join('\n\n'));
+  }, [resetGeneration]);
 
-  const handleDownload = useCallback(() => {
-    if (audioChunks.length === 0) return;
-    const blob = exportToWav(audioChunks, 24000);
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.style.display = 'none';
-    a.href = url;
-    a.download = 'generated-speech.wav';
-    document.body.appendChild(a);
-    a.click();
-    window.URL.revokeObjectURL(url);
-  }, [audioChunks]);
-
-  const handlePlayPause = () => { isPlaying ? pause() : play(pauseOffsetRef.current); };
+  // Puts a saved generation back into the same state a fresh one ends in, so
+  // playback, highlighting and export work on it unchanged.
+  const restoreLibraryItem = useCallback(async (item: LibraryItem, samples: Float32Array) => {
+    const ctx = await engine.ensureContext();
+    resetGeneration();
+    const buffer = ctx.createBuffer(1, samples.length, item.sampleRate);
+    buffer.copyToChannel(samples, 0);
+    const chunks = [buffer];
+    persistedChunksRef.current = chunks;
+    generationSettingsRef.current = null;
+    engine.load(chunks);
+    segmentChunksRef.current = [chunks];
+    segmentRequestsRef.current = [];
+    setText(item.text);
+    book.setAudiobook(null);
+    setSelectedVoice(item.voice);
+    setSelectedTone(item.tone);
+    setIsScriptMode(item.scriptMode);
+    setSpeakerSettings(item.speakerSettings);
+    setAudioChunks(chunks);
+    setWordTimings(item.wordTimings);
+    setIsGenerated(true);
+  }, [engine, resetGeneration, book.setAudiobook]);
+
+  const handlePlayPause = () => { isPlaying ? engine.pause() : engine.play(); };
+
+  const seekTo = (time: number) => engine.seek(time);
 
   const onProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (!isGenerated || totalDuration === 0) return;
@@ -347,20 +598,38 @@ const App: React.FC = () => {
     const clickX = e.clientX - rect.left;
     const width = progressBar.offsetWidth;
     const percentage = Math.max(0, Math.min(1, clickX / width));
-    const newTime = totalDuration * percentage;
-    
-    if (isPlaying) {
-        play(newTime);
-    } else {
-        pauseOffsetRef.current = newTime;
-        setCurrentTime(newTime);
-        const newWordIndex = wordTimings.findIndex(timing => newTime >= timing.start && newTime < timing.end);
-        setCurrentWordIndex(newWordIndex);
-    }
+    seekTo(totalDuration * percentage);
   };
-  
+
+  const jumpToChapter = (index: number) => {
+    const chapter = chapters.playbackChapters?.[index];
+    if (!isGenerated || !chapter) return;
+    seekTo(chapter.start);
+  };
+
+  // Any tone outside TONES is a free-text style prompt.
+  const isCustomStyle = !TONES.some(tone => tone.value === selectedTone);
+  const dubDisabledReason = !getActiveProvider().translate
+    ? 'The selected provider cannot translate.'
+    : isScriptMode
+      ? 'Dubbing works on plain text, not scripts.'
+      : !text.trim()
+        ? 'Enter some text to translate.'
+        : markupErrors.length > 0
+          ? 'Fix the markup errors first.'
+          : null;
+
   const progressPercentage = totalDuration > 0 ? (currentTime / totalDuration) * 100 : 0;
 
+  const cancelButton = (
+    <button
+      onClick={cancelGeneration}
+      className="px-5 py-3 bg-red-500/10 hover:bg-red-500/20 text-red-400 font-medium rounded-xl transition-colors duration-200 border border-red-500/30"
+    >
+      Cancel
+    </button>
+  );
+
   return (
     <div className="min-h-screen bg-gray-900 flex flex-col items-center justify-center p-4 font-sans">
       <div className="w-full max-w-3xl bg-gray-800 rounded-2xl shadow-2xl p-6 md:p-8 space-y-6 transform transition-all duration-500 border border-gray-700">
@@ -370,27 +639,97 @@ const App: React.FC = () => {
         </div>
         
         <div className="space-y-4">
-            {!isGenerated ? (
-                <textarea
-                    value={text}
-                    onChange={(e) => onTextChanged(e.target.value)}
-                    placeholder="Enter text to convert to speech..."
-                    className="w-full h-40 p-4 bg-gray-900/50 border border-gray-600 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition duration-300 text-white resize-none placeholder-gray-500"
-                    rows={5}
+            <div className="flex items-center justify-between gap-4">
+                <label className="flex items-center gap-2 text-xs font-medium text-gray-400 uppercase tracking-wider cursor-pointer w-fit">
+                    <input
+                        type="checkbox"
+                        checked={isScriptMode}
+                        onChange={(e) => onScriptModeChanged(e.target.checked)}
+                        disabled={isLoading || book.audiobook !== null}
+                        className="accent-cyan-500"
+                    />
+                    Dialogue script
+                </label>
+                <input
+                    ref={documentInputRef}
+                    type="file"
+                    accept={DOCUMENT_ACCEPT}
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) book.importFile(file);
+                    }}
                 />
+                <button
+                    onClick={() => documentInputRef.current?.click()}
+                    disabled={isLoading || book.isImporting}
+                    className="px-2 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Import a .txt, .md, .html or .epub file as chapters"
+                >
+                    <i className={`fas ${book.isImporting ? 'fa-spinner fa-spin' : 'fa-book'} mr-1`}></i>
+                    Import document
+                </button>
+            </div>
+            {!isGenerated && book.audiobook ? (
+                <div className="space-y-3 bg-gray-900/50 border border-gray-600 rounded-xl p-4">
+                    <div className="flex items-center justify-between gap-4">
+                        <span className="text-gray-200 font-medium truncate">{book.audiobook.title}</span>
+                        <button
+                            onClick={() => book.setAudiobook(null)}
+                            className="px-2 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs shrink-0"
+                        >
+                            Edit as plain text
+                        </button>
+                    </div>
+                    <ChapterList chapters={chapters.items} currentIndex={-1} />
+                </div>
+            ) : !isGenerated ? (
+                <>
+                    <textarea
+                        value={text}
+                        onChange={(e) => onTextChanged(e.target.value)}
+                        placeholder={isScriptMode ? 'Host: Welcome to the show!\nGuest: Thanks for having me.' : 'Enter text to convert to speech...'}
+                        className="w-full h-40 p-4 bg-gray-900/50 border border-gray-600 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition duration-300 text-white resize-none placeholder-gray-500"
+                        rows={5}
+                    />
+                    {markupErrors.length > 0 ? (
+                        <ul className="bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-lg text-xs font-mono space-y-1">
+                            {markupErrors.map((markupError, index) => (
+                                <li key={index}>{markupError}</li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-xs text-gray-500">
+                            Markup: <span className="font-mono">[pause 500ms]</span>, <span className="font-mono">[whisper]...[/whisper]</span>, <span className="font-mono">[voice Puck]...[/voice]</span>, <span className="font-mono">*emphasis*</span>
+                        </p>
+                    )}
+                    {isScriptMode && (
+                        <SpeakerSettings
+                            speakers={speakerVoices}
+                            settings={speakerSettings}
+                            nativeMultiSpeaker={canVoiceNatively(speakerVoices.length, getActiveProvider().capabilities)}
+                            onChange={onSpeakerSettingChanged}
+                        />
+                    )}
+                </>
             ) : (
                 <div className="relative">
                     <div className="w-full h-48 p-4 bg-gray-900/50 border border-gray-600 rounded-xl overflow-y-auto scrollbar-thin scrollbar-thumb-gray-700 relative z-10">
-                        <p className="text-gray-300 leading-relaxed text-lg">
-                            {words.map((word, index) => (
-                                <span key={index} className={`transition-colors duration-100 rounded px-0.5 ${index === currentWordIndex ? 'bg-cyan-500/30 text-cyan-200 font-bold shadow-[0_0_10px_rgba(34,211,238,0.3)]' : ''}`}>
-                                    {word}{' '}
-                                </span>
-                            ))}
-                        </p>
+                        {isScriptMode ? (
+                            <ScriptView lines={scriptLines} lineWords={lineWords} speakers={speakerNames} currentWordIndex={currentWordIndex} />
+                        ) : (
+                            <p className="text-gray-300 leading-relaxed text-lg">
+                                {words.map((word, index) => (
+                                    <span key={index} className={`transition-colors duration-100 rounded px-0.5 ${index === currentWordIndex ? 'bg-cyan-500/30 text-cyan-200 font-bold shadow-[0_0_10px_rgba(34,211,238,0.3)]' : ''}`}>
+                                        {word}{' '}
+                                    </span>
+                                ))}
+                            </p>
+                        )}
                     </div>
                     <canvas 
-                        ref={canvasRef}
+                        ref={attachVisualizer}
                         width="600"
                         height="100"
                         className="absolute bottom-0 left-0 w-full h-24 pointer-events-none opacity-30 rounded-b-xl z-0"
@@ -399,6 +738,10 @@ const App: React.FC = () => {
             )}
         </div>
         
+        {(segments.length > 1 || segments.some(segment => segment.status === 'failed')) && (
+            <SegmentProgress segments={segments} canRetry={!isLoading && retryingSegment === null} onRetry={retrySegment} />
+        )}
+
         {isGenerated && (
             <div className="space-y-3 bg-gray-700/30 p-4 rounded-xl border border-gray-700/50">
                 <div 
@@ -406,7 +749,7 @@ const App: React.FC = () => {
                     onClick={onProgressClick}
                 >
                     <div 
-                        className="bg-gradient-to-r from-cyan-500 to-blue-500 h-2 rounded-full relative transition-all duration-100 ease-linear" 
+                        className="bg-gradient-to-r from-cyan-500 to-blue-500 h-2 rounded-full relative transition-all duration-300 ease-linear" 
                         style={{ width: `${progressPercentage}%` }}
                     >
                          <div className="absolute right-0 top-1/2 transform -translate-y-1/2 w-3 h-3 bg-white rounded-full shadow opacity-0 group-hover:opacity-100 transition-opacity"></div>
@@ -414,14 +757,52 @@ const App: React.FC = () => {
                 </div>
                 <div className="text-xs font-mono text-gray-400 flex justify-between">
                     <span>{new Date(currentTime * 1000).toISOString().substr(14, 5)}</span>
+                    {isLoading && <span className="text-cyan-400 animate-pulse">Streaming...</span>}
                     <span>{new Date(totalDuration * 1000).toISOString().substr(14, 5)}</span>
                 </div>
+                {book.audiobook && (
+                  <ChapterList chapters={chapters.items} currentIndex={chapters.currentIndex} onJump={jumpToChapter} />
+                )}
+                {editorSamples && editor.regions.length > 0 && (
+                  <WaveformEditor
+                    samples={editorSamples}
+                    sampleRate={audioChunks[0].sampleRate}
+                    regions={editor.regions}
+                    voiceFor={regionVoice}
+                    disabled={!canEdit}
+                    isRegenerating={editor.isRegenerating}
+                    canUndo={editor.canUndo}
+                    canRedo={editor.canRedo}
+                    onRegenerate={editor.regenerate}
+                    onUndo={editor.undo}
+                    onRedo={editor.redo}
+                  />
+                )}
+                <PlaybackControls settings={timeStretch} onChange={onTimeStretchChanged} />
+                <MasteringPanel
+                  settings={mastering.settings}
+                  loudness={processed?.loudness ?? null}
+                  onChange={mastering.setSettings}
+                />
+                <MusicBedPanel
+                  bed={musicBed.bed}
+                  settings={musicBed.settings}
+                  isLoadingBed={musicBed.isLoading}
+                  onLoad={musicBed.load}
+                  onRemove={musicBed.remove}
+                  onChange={musicBed.setSettings}
+                />
             </div>
         )}
 
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
              <div className="space-y-1">
-                <label htmlFor="voice-select" className="block text-xs font-medium text-gray-400 uppercase tracking-wider">Voice</label>
+                <div className="flex items-center justify-between">
+                    <label htmlFor="voice-select" className="block text-xs font-medium text-gray-400 uppercase tracking-wider">Voice</label>
+                    <button onClick={() => voiceBrowser.setIsOpen(open => !open)} className="text-xs text-cyan-400 hover:text-cyan-300">
+                        {voiceBrowser.isOpen ? 'Hide catalog' : 'Browse'}
+                    </button>
+                </div>
                 <div className="relative">
                     <select
                         id="voice-select"
@@ -429,9 +810,18 @@ const App: React.FC = () => {
                         onChange={(e) => setSelectedVoice(e.target.value)}
                         className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white appearance-none cursor-pointer hover:bg-gray-600 transition-colors"
                     >
-                    {VOICES.map((voice) => (
-                        <option key={voice.value} value={voice.value}>{voice.label}</option>
-                    ))}
+                    {voiceBrowser.favourites.length > 0 && (
+                        <optgroup label="Favourites">
+                            {voiceBrowser.voices.filter(voice => voiceBrowser.favourites.includes(voice.value)).map((voice) => (
+                                <option key={voice.value} value={voice.value}>{voice.label}</option>
+                            ))}
+                        </optgroup>
+                    )}
+                    <optgroup label="All voices">
+                        {voiceBrowser.voices.map((voice) => (
+                            <option key={voice.value} value={voice.value}>{voice.label}</option>
+                        ))}
+                    </optgroup>
                     </select>
                     <div className="absolute right-3 top-1/2 transform -translate-y-1/2 pointer-events-none text-gray-400">
                         <i className="fas fa-chevron-down text-xs"></i>
@@ -444,13 +834,43 @@ const App: React.FC = () => {
                 <div className="relative">
                     <select
                         id="tone-select"
-                        value={selectedTone}
-                        onChange={(e) => setSelectedTone(e.target.value)}
+                        value={isCustomStyle && !voiceBrowser.customStyles.includes(selectedTone) ? CUSTOM_STYLE : selectedTone}
+                        onChange={(e) => setSelectedTone(e.target.value === CUSTOM_STYLE ? '' : e.target.value)}
                         className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white appearance-none cursor-pointer hover:bg-gray-600 transition-colors"
                     >
                     {TONES.map((tone) => (
                         <option key={tone.value} value={tone.value}>{tone.label}</option>
                     ))}
+                    {voiceBrowser.customStyles.length > 0 && (
+                        <optgroup label="Saved styles">
+                            {voiceBrowser.customStyles.map((style) => (
+                                <option key={style} value={style}>{style}</option>
+                            ))}
+                        </optgroup>
+                    )}
+                    <option value={CUSTOM_STYLE}>Custom style…</option>
+                    </select>
+                    <div className="absolute right-3 top-1/2 transform -translate-y-1/2 pointer-events-none text-gray-400">
+                        <i className="fas fa-chevron-down text-xs"></i>
+                    </div>
+                </div>
+             </div>
+
+             <div className="space-y-1">
+                <label htmlFor="provider-select" className="block text-xs font-medium text-gray-400 uppercase tracking-wider">Engine</label>
+                <div className="relative">
+                    <select
+                        id="provider-select"
+                        value={selectedProvider}
+                        onChange={(e) => onProviderChanged(e.target.value)}
+                        disabled={isLoading}
+                        className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-cyan-500 text-white appearance-none cursor-pointer hover:bg-gray-600 transition-colors"
+                    >
+                    {listProviders().map((provider) => (
+                        <option key={provider.id} value={provider.id} disabled={!provider.isAvailable()}>
+                            {provider.label}{provider.isAvailable() ? '' : ' (no API key)'}
+                        </option>
+                    ))}
                     </select>
                     <div className="absolute right-3 top-1/2 transform -translate-y-1/2 pointer-events-none text-gray-400">
                         <i className="fas fa-chevron-down text-xs"></i>
@@ -459,6 +879,51 @@ const App: React.FC = () => {
              </div>
         </div>
 
+        {isCustomStyle && (
+            <div className="flex items-center gap-2 text-xs">
+                <input
+                    value={selectedTone}
+                    onChange={(e) => setSelectedTone(e.target.value)}
+                    placeholder="Describe the delivery, e.g. like a sports commentator, slowly and warmly"
+                    className="flex-1 min-w-0 p-2 bg-gray-900 border border-gray-600 text-white rounded-lg focus:ring-2 focus:ring-cyan-500"
+                />
+                {voiceBrowser.customStyles.includes(selectedTone) ? (
+                    <button onClick={() => voiceBrowser.saveCustomStyle(selectedTone, false)} className="px-2 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200">Forget</button>
+                ) : (
+                    <button onClick={() => voiceBrowser.saveCustomStyle(selectedTone.trim(), true)} disabled={!selectedTone.trim()} className="px-2 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed">Save style</button>
+                )}
+            </div>
+        )}
+
+        {voiceBrowser.isOpen && (
+            <div className="bg-gray-700/30 p-4 rounded-xl border border-gray-700/50">
+                <VoiceBrowser
+                    voices={voiceBrowser.voices}
+                    selected={selectedVoice}
+                    favourites={voiceBrowser.favourites}
+                    auditioning={voiceBrowser.auditioning}
+                    onSelect={setSelectedVoice}
+                    onToggleFavourite={voiceBrowser.toggleFavourite}
+                    onAudition={voiceBrowser.audition}
+                />
+            </div>
+        )}
+
+        <CacheControls
+          stats={cacheStats}
+          bypass={bypassCache}
+          disabled={isLoading}
+          onBypassChange={setBypassCache}
+          onClear={() => synthesisCache.clear()}
+        />
+
+        {usage.warning && (
+          <div className="bg-amber-500/10 border border-amber-500/20 text-amber-400 p-3 rounded-lg text-sm flex items-center gap-2">
+            <i className="fas fa-gauge-high"></i>
+            {usage.warning}
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-lg text-sm flex items-center gap-2 animate-pulse">
             <i className="fas fa-exclamation-circle"></i>
@@ -468,16 +933,20 @@ const App: React.FC = () => {
 
         <div className="flex flex-col sm:flex-row gap-3 pt-2">
           {!isGenerated ? (
+            <>
                <button
                 onClick={handleGenerateAudio}
-                disabled={isLoading || !text.trim()}
+                disabled={isLoading || !text.trim() || markupErrors.length > 0}
                 className="w-full flex justify-center items-center px-6 py-4 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 disabled:from-gray-700 disabled:to-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed text-white font-bold rounded-xl shadow-lg shadow-cyan-900/20 transition-all duration-200 active:scale-[0.98] flex gap-2"
               >
                 {isLoading ? <LoadingSpinner /> : <SpeakerIcon />}
                 {isLoading ? 'Generating Audio...' : 'Generate Speech'}
               </button>
+              {isLoading && cancelButton}
+            </>
           ) : (
               <>
+                {isLoading && cancelButton}
                 <button
                   onClick={() => resetGeneration()}
                   className="px-5 py-3 bg-gray-700 hover:bg-gray-600 text-gray-300 font-medium rounded-xl transition-colors duration-200 border border-gray-600"
@@ -497,16 +966,104 @@ const App: React.FC = () => {
                   {isPlaying ? 'Pause' : 'Play Audio'}
                 </button>
 
-                <button
-                  onClick={handleDownload}
-                  className="px-5 py-3.5 bg-gray-700 hover:bg-gray-600 text-white font-medium rounded-xl transition-all duration-200 active:scale-[0.98] flex gap-2 justify-center items-center border border-gray-600 group"
-                  title="Download WAV"
-                >
-                  <DownloadIcon />
-                </button>
+                <ExportMenu
+                  disabled={isLoading}
+                  sourceText={text}
+                  timeStretch={timeStretch}
+                  isExporting={audioExport.isExporting}
+                  chapterCount={chapters.sourceChapters?.length ?? 0}
+                  onExport={audioExport.download}
+                  canExportCaptions={wordTimings.length > 0}
+                  onExportCaptions={audioExport.downloadCaptions}
+                />
               </>
           )}
         </div>
+      </div>
+      {video.samples && (
+        <div className="w-full max-w-3xl mt-6 bg-gray-800 rounded-2xl shadow-2xl p-6 border border-gray-700 space-y-3">
+          <h2 className="text-xs font-medium text-gray-400 uppercase tracking-wider">Video</h2>
+          <VideoExportPanel
+            samples={video.samples}
+            sampleRate={audioChunks[0].sampleRate}
+            timings={playbackTimings}
+            defaultTitle={book.audiobook?.title ?? ''}
+            progress={video.progress}
+            onRender={video.render}
+            onCancel={video.cancel}
+          />
+        </div>
+      )}
+      <div className="w-full max-w-3xl mt-6 bg-gray-800 rounded-2xl shadow-2xl p-6 border border-gray-700 space-y-3">
+        <h2 className="text-xs font-medium text-gray-400 uppercase tracking-wider">Pronunciation</h2>
+        <LexiconPanel
+          entries={lexicon.entries}
+          previewText={words.join(' ')}
+          onChange={lexicon.change}
+          onImport={lexicon.importFile}
+          onExport={lexicon.exportFile}
+        />
+      </div>
+      <div className="w-full max-w-3xl mt-6 bg-gray-800 rounded-2xl shadow-2xl p-6 border border-gray-700 space-y-3">
+        <h2 className="text-xs font-medium text-gray-400 uppercase tracking-wider">Batch</h2>
+        <BatchPanel
+          queue={batch.state}
+          importErrors={batch.importErrors}
+          format={batch.format}
+          isExporting={batch.isExporting}
+          onImport={batch.importFile}
+          onStart={batch.start}
+          onPause={batch.pause}
+          onRetry={batch.retry}
+          onConcurrencyChange={batch.setConcurrency}
+          onFormatChange={batch.setFormat}
+          onDownload={batch.download}
+          onClear={batch.clear}
+        />
+      </div>
+      <div className="w-full max-w-3xl mt-6 bg-gray-800 rounded-2xl shadow-2xl p-6 border border-gray-700 space-y-3">
+        <h2 className="text-xs font-medium text-gray-400 uppercase tracking-wider">Dub</h2>
+        <DubPanel
+          dub={dub.state}
+          languages={GEMINI_LANGUAGES}
+          voices={voiceBrowser.voices}
+          disabledReason={dubDisabledReason}
+          format={dub.format}
+          isExporting={dub.isExporting}
+          onTranslate={dub.start}
+          onRetranslate={dub.retranslate}
+          onEdit={dub.editTranslation}
+          onVoiceChange={dub.setVoice}
+          onSynthesize={dub.synthesize}
+          onCancel={dub.cancel}
+          onFormatChange={dub.setFormat}
+          onDownload={dub.download}
+          onClear={dub.clear}
+        />
+      </div>
+      <div className="w-full max-w-3xl mt-6 bg-gray-800 rounded-2xl shadow-2xl p-6 border border-gray-700 space-y-3">
+        <h2 className="text-xs font-medium text-gray-400 uppercase tracking-wider">Usage</h2>
+        <UsagePanel
+          records={usage.records}
+          sessionStart={usage.sessionStart}
+          budget={usage.budget}
+          onBudgetChange={usage.setBudget}
+          onExport={usage.exportCsv}
+          onClear={usage.clear}
+        />
+      </div>
+      <div className="w-full max-w-3xl mt-6 bg-gray-800 rounded-2xl shadow-2xl p-6 border border-gray-700 space-y-3">
+        <h2 className="text-xs font-medium text-gray-400 uppercase tracking-wider">Library</h2>
+        <LibraryPanel
+          items={library.items}
+          usage={library.usage}
+          activeId={library.activeId}
+          disabled={isLoading}
+          onOpen={(item) => { if (!isLoading) library.open(item); }}
+          onDownload={library.download}
+          onRename={library.rename}
+          onDelete={library.remove}
+        />
       </div>
        <footer className="text-center text-gray-600 mt-8 text-xs">
         <p>Built with Google Gemini 2.5 Flash • React 19 • Tailwind CSS</p>
@@ -0,0 +1,275 @@
+#!/usr/bin/env node
+// Command line synthesis on the same services and encoders as the browser.
+// Audio is decoded with the context-free PCM helpers, so a file written here
+// is byte for byte the one the browser exports from the same PCM with the
+// same options.
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import { VOICES, TONES } from "../constants";
+import {
+  generateSegmentedSpeech, getActiveProvider, isPauseRequest, listProviders, SegmentRequest, setActiveProvider, setLexicon,
+} from "../services/geminiService";
+import { alignSegments } from "../utils/alignment";
+import { chapterSource } from "../utils/audiobook";
+import { concatenateSamples, decode, pcm16ToSamples } from "../utils/audio";
+import { BatchManifestEntry, BatchRow, formatBatchManifest, parseBatchCsv } from "../utils/batch";
+import { CAPTION_FORMATS, CaptionFormat, formatCaptions } from "../utils/captions";
+import { parseMarkdown } from "../utils/documentImport";
+import { encodeAudio, EXPORT_FORMATS, ExportFormat, getExportFormat, textComment } from "../utils/exportFormats";
+import { parseLexicon } from "../utils/lexicon";
+import { formatMarkupPosition, parseMarkup, planMarkupRequests } from "../utils/markup";
+import { listSpeakers, parseScript, parseScriptMarkup, planScriptRequests, requestWords, resolveSpeakerVoices } from "../utils/script";
+import type { WordTiming } from "../types";
+
+const USAGE = `Usage:
+  tts synth [-i in.txt] [-o out.wav] [options]   Synthesize one text (stdin/stdout by default)
+  tts batch <dir|file.csv> -o <dir> [options]    Synthesize every .txt/.md file, or every CSV row
+  tts voices                                     List voices, tones and engines
+
+Options:
+  --voice <name>        Voice (default ${VOICES[0].value})
+  --tone <name>         Tone (default ${TONES[0].value}), or a free-text style such as "like a news anchor"
+  --provider <id>       Engine: ${listProviders().map(provider => provider.id).join(", ")}
+                        (default: the first configured one; "mock" must be asked for)
+  --script              Read the text as a "Speaker: line" dialogue script
+  --format <id>         ${EXPORT_FORMATS.map(format => format.id).join(", ")} (default: from the output name, else wav)
+  --bit-depth <16|24>   Lossless formats
+  --bitrate <kbps>      Lossy formats
+  --captions <file>     Write captions; the extension picks ${CAPTION_FORMATS.map(format => format.id).join(", ")}
+                        (in batch mode, just the format)
+  --lexicon <file>      Pronunciation lexicon exported from the app
+  --title, --artist, --comment <text>
+  --no-cache            Skip the synthesis cache
+`;
+
+interface Synthesis {
+  samples: Float32Array;
+  sampleRate: number;
+  timings: WordTiming[];
+}
+
+class UsageError extends Error {}
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const findVoice = (name: string) => VOICES.find(voice => voice.value.toLowerCase() === name.toLowerCase())?.value;
+const findTone = (name: string) => TONES.find(tone => tone.value === name.toLowerCase() || tone.label.toLowerCase() === name.toLowerCase())?.value;
+
+const formatFromName = (name: string | undefined): ExportFormat | undefined => {
+  const extension = name ? extname(name).slice(1).toLowerCase() : "";
+  return EXPORT_FORMATS.find(format => format.extension === extension || format.id === extension)?.id;
+};
+
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+// Plans requests the way the editor does for the same text.
+const planText = (text: string, { voice, tone, script }: { voice: string; tone: string; script: boolean }) => {
+  if (script) {
+    const lines = parseScript(text);
+    const speakerVoices = resolveSpeakerVoices(listSpeakers(lines), {}, tone);
+    const parsed = parseScriptMarkup(lines, speakerVoices);
+    return {
+      errors: parsed.flatMap((line, index) => line.markup.errors.map(e => `Turn ${index + 1} (${line.speaker}) at ${formatMarkupPosition(line.text, e.offset)}: ${e.message}`)),
+      requests: planScriptRequests(parsed, speakerVoices, getActiveProvider().capabilities),
+    };
+  }
+  const markup = parseMarkup(text, { voice, tone });
+  return {
+    errors: markup.errors.map(e => `Line ${formatMarkupPosition(text, e.offset)}: ${e.message}`),
+    requests: planMarkupRequests(markup.segments),
+  };
+};
+
+const synthesize = async (text: string, options: { voice: string; tone: string; script: boolean; bypassCache: boolean }): Promise<Synthesis> => {
+  const { errors, requests } = planText(text, options);
+  if (errors.length > 0) throw new Error(errors.join("\n"));
+  if (requests.length === 0) throw new Error("There is nothing to say");
+
+  const sampleRate = getActiveProvider().capabilities.outputSampleRate;
+  const parts: Float32Array[][] = requests.map(() => []);
+  const failures: string[] = [];
+  await generateSegmentedSpeech(requests, {
+    onAudioChunk: (index, chunk) => parts[index].push(pcm16ToSamples(decode(chunk))),
+    onSegmentStatus: (index, status, error) => {
+      if (status === "failed") failures.push(`Segment ${index + 1}: ${error?.message ?? "failed"}`);
+    },
+    onStreamEnd: () => {},
+    onSegmentRetry: (index, error, attempt, delayMs) => {
+      parts[index] = [];
+      log(`Segment ${index + 1}: ${error.message}, retrying in ${delayMs}ms (attempt ${attempt + 1})`);
+    },
+  }, { bypassCache: options.bypassCache });
+  if (failures.length > 0) throw new Error(failures.join("\n"));
+
+  // Each request is aligned against its own audio.
+  const segments = requests.map((request, index) => ({ samples: concatenateSamples(parts[index]), words: requestWords(request) }));
+  return { samples: concatenateSamples(segments.map(segment => segment.samples)), sampleRate, timings: alignSegments(segments, sampleRate) };
+};
+
+const describeRequests = (requests: SegmentRequest[]) => {
+  const pauses = requests.filter(isPauseRequest).length;
+  return `${requests.length - pauses} speech request${requests.length - pauses === 1 ? "" : "s"}${pauses ? `, ${pauses} pause${pauses === 1 ? "" : "s"}` : ""}`;
+};
+
+const main = async (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      input: { type: "string", short: "i" },
+      output: { type: "string", short: "o" },
+      voice: { type: "string" },
+      tone: { type: "string" },
+      provider: { type: "string" },
+      script: { type: "boolean", default: false },
+      format: { type: "string" },
+      "bit-depth": { type: "string" },
+      bitrate: { type: "string" },
+      captions: { type: "string" },
+      lexicon: { type: "string" },
+      title: { type: "string" },
+      artist: { type: "string" },
+      comment: { type: "string" },
+      "no-cache": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  // Unlike the app, the CLI never falls back to the offline mock on its own:
+  // a script would otherwise write placeholder tones without complaint.
+  if (values.provider) {
+    try {
+      setActiveProvider(values.provider);
+    } catch (error) {
+      throw new UsageError((error as Error).message);
+    }
+    if (!getActiveProvider().isAvailable()) throw new UsageError(`The ${getActiveProvider().label} engine is not configured`);
+  } else if (command !== "voices") {
+    const provider = listProviders().find(p => p.id !== "mock" && p.isAvailable());
+    if (!provider) throw new UsageError("No speech engine is configured. Set GEMINI_API_KEY or TTS_PROXY_URL, or pass --provider mock for offline placeholder audio");
+    setActiveProvider(provider.id);
+  }
+
+  if (command === "voices") {
+    const provider = getActiveProvider();
+    const voices = await provider.listVoices();
+    process.stdout.write(`Engines: ${listProviders().map(p => `${p.id}${p.id === provider.id ? " (active)" : ""}${p.isAvailable() ? "" : " (unavailable)"}`).join(", ")}\n`);
+    process.stdout.write(`Voices:\n${voices.map(voice => `  ${voice.value.padEnd(14)} ${(voice.gender ?? "").padEnd(7)} ${voice.description ?? ""}`).join("\n")}\n`);
+    process.stdout.write(`Tones:   ${TONES.map(tone => `${tone.value} (${tone.label})`).join(", ")}\n`);
+    return;
+  }
+
+  const voice = values.voice ? findVoice(values.voice) : VOICES[0].value;
+  const tone = values.tone ? findTone(values.tone) ?? values.tone : TONES[0].value;
+  if (!voice) throw new UsageError(`Unknown voice "${values.voice}", expected one of ${VOICES.map(v => v.value).join(", ")}`);
+
+  const format = (values.format as ExportFormat | undefined) ?? formatFromName(values.output) ?? "wav";
+  const formatInfo = EXPORT_FORMATS.find(info => info.id === format);
+  if (!formatInfo) throw new UsageError(`Unknown format "${values.format}"`);
+  if (!formatInfo.isSupported()) throw new UsageError(`${formatInfo.label} export is not available in this runtime`);
+  const bitDepth = values["bit-depth"] ? Number(values["bit-depth"]) as 16 | 24 : undefined;
+  if (bitDepth !== undefined && !formatInfo.bitDepths?.includes(bitDepth)) throw new UsageError(`${formatInfo.label} does not support a bit depth of ${values["bit-depth"]}`);
+  const bitrate = values.bitrate ? Number(values.bitrate) : undefined;
+  if (bitrate !== undefined && !formatInfo.bitrates?.includes(bitrate)) throw new UsageError(`${formatInfo.label} bitrates are ${formatInfo.bitrates?.join(", ") ?? "not configurable"}`);
+
+  if (values.lexicon) setLexicon(parseLexicon(await readFile(values.lexicon, "utf8")));
+  const bypassCache = values["no-cache"];
+  const metadata = { title: values.title, artist: values.artist, comment: values.comment };
+  const encode = (synthesis: Synthesis, title?: string, comment?: string) => encodeAudio(synthesis.samples, synthesis.sampleRate, format, {
+    bitDepth,
+    bitrate,
+    metadata: { ...metadata, title: metadata.title ?? title, comment: metadata.comment ?? comment },
+  });
+
+  if (command === "synth") {
+    const text = values.input && values.input !== "-" ? await readFile(values.input, "utf8") : await readStdin();
+    log(`Synthesizing with ${getActiveProvider().label}: ${describeRequests(planText(text, { voice, tone, script: values.script }).requests)}`);
+    const synthesis = await synthesize(text, { voice, tone, script: values.script, bypassCache });
+    const audio = await encode(synthesis);
+    if (!values.output || values.output === "-") {
+      process.stdout.write(audio);
+    } else {
+      await writeFile(values.output, audio);
+      log(`Wrote ${values.output} (${(synthesis.samples.length / synthesis.sampleRate).toFixed(2)}s)`);
+    }
+    if (values.captions) {
+      const captionFormat = extname(values.captions).slice(1).toLowerCase() as CaptionFormat;
+      if (!CAPTION_FORMATS.some(info => info.id === captionFormat)) throw new UsageError(`Unknown caption format "${captionFormat}"`);
+      await writeFile(values.captions, formatCaptions(synthesis.timings, captionFormat));
+      log(`Wrote ${values.captions}`);
+    }
+    return;
+  }
+
+  if (command === "batch") {
+    const [input] = rest;
+    if (!input || !values.output) throw new UsageError("batch needs an input directory or CSV file and -o <dir>");
+    const captionFormat = values.captions?.toLowerCase() as CaptionFormat | undefined;
+    if (captionFormat && !CAPTION_FORMATS.some(info => info.id === captionFormat)) throw new UsageError(`Unknown caption format "${values.captions}"`);
+    const { extension } = getExportFormat(format);
+
+    // A CSV is read like the batch panel reads it; a directory gives one job per text file.
+    const isCsv = extname(input).toLowerCase() === ".csv";
+    let jobs: { row: BatchRow; text: () => Promise<string> }[];
+    if (isCsv) {
+      const { rows, errors } = parseBatchCsv(await readFile(input, "utf8"), { voice, tone });
+      errors.forEach(log);
+      jobs = rows.map(row => ({ row, text: async () => row.text }));
+    } else {
+      jobs = (await readdir(input))
+        .filter(name => /\.(txt|md)$/i.test(name))
+        .sort()
+        .map(name => {
+          const id = basename(name, extname(name));
+          const read = () => readFile(join(input, name), "utf8");
+          // Markdown is read like an imported document; plain text may use markup.
+          const text = extname(name).toLowerCase() === ".md"
+            ? async () => parseMarkdown(await read(), id).chapters.map(chapterSource).join("\n\n")
+            : read;
+          return { row: { id, text: "", voice, tone, fileName: id }, text };
+        });
+    }
+    if (jobs.length === 0) throw new UsageError(`Nothing to synthesize in ${input}`);
+
+    await mkdir(values.output, { recursive: true });
+    const manifest: BatchManifestEntry[] = [];
+    for (const { row, text } of jobs) {
+      try {
+        const source = await text();
+        const synthesis = await synthesize(source, { voice: row.voice, tone: row.tone, script: values.script, bypassCache });
+        await writeFile(join(values.output, `${row.fileName}.${extension}`), await encode(synthesis, row.id, isCsv ? textComment(row.text) : undefined));
+        if (captionFormat) {
+          await writeFile(join(values.output, `${row.fileName}.${captionFormat}`), formatCaptions(synthesis.timings, captionFormat));
+        }
+        const duration = synthesis.samples.length / synthesis.sampleRate;
+        manifest.push({ row: { ...row, text: row.text || source.trim() }, status: "done", duration });
+        log(`${row.fileName}.${extension} (${duration.toFixed(2)}s)`);
+      } catch (error) {
+        manifest.push({ row, status: "failed", error: (error as Error).message });
+        log(`${row.id}: failed: ${(error as Error).message}`);
+      }
+    }
+    await writeFile(join(values.output, "manifest.csv"), formatBatchManifest(manifest, extension));
+    const failed = manifest.filter(entry => entry.status === "failed").length;
+    log(`${manifest.length - failed} of ${manifest.length} done; manifest.csv written`);
+    if (failed > 0) process.exitCode = 1;
+    return;
+  }
+
+  throw new UsageError(`Unknown command "${command}"`);
+};
+
+main(process.argv.slice(2)).catch(error => {
+  log(error instanceof UsageError ? `${error.message}\n\n${USAGE}` : `Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = error instanceof UsageError ? 2 : 1;
+});
@@ -0,0 +1,142 @@
+import React, { useRef } from 'react';
+import { BATCH_MAX_CONCURRENCY } from '../constants';
+import type { BatchQueueState } from '../services/batchQueue';
+import type { SegmentStatus } from '../services/geminiService';
+import { EXPORT_FORMATS, ExportFormat, getExportFormat } from '../utils/exportFormats';
+
+interface BatchPanelProps {
+  // Null until a CSV has been imported.
+  queue: BatchQueueState | null;
+  importErrors: string[];
+  format: ExportFormat;
+  isExporting: boolean;
+  onImport: (file: File) => void;
+  onStart: () => void;
+  onPause: () => void;
+  onRetry: (index: number) => void;
+  onConcurrencyChange: (concurrency: number) => void;
+  onFormatChange: (format: ExportFormat) => void;
+  onDownload: () => void;
+  onClear: () => void;
+}
+
+const STATUS_LABELS: Record<SegmentStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'text-gray-500' },
+  synthesizing: { label: 'Synthesizing', className: 'text-cyan-400 animate-pulse' },
+  done: { label: 'Done', className: 'text-emerald-400' },
+  failed: { label: 'Failed', className: 'text-red-400' },
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  queue, importErrors, format, isExporting, onImport, onStart, onPause, onRetry, onConcurrencyChange, onFormatChange, onDownload, onClear,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const items = queue?.items ?? [];
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const remaining = items.some(item => item.status === 'pending');
+  const isBusy = queue !== null && (queue.active > 0 || (!queue.paused && remaining));
+
+  const button = 'px-2 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed';
+  const select = 'bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1 focus:ring-2 focus:ring-cyan-500';
+
+  return (
+    <div className="space-y-3 text-xs text-gray-400">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span>
+          {queue
+            ? `${doneCount}/${items.length} done${failedCount > 0 ? ` · ${failedCount} failed` : ''}`
+            : 'Import a CSV with id, text, voice, tone and filename columns.'}
+        </span>
+        <div className="flex items-center gap-2">
+          <button onClick={() => fileInputRef.current?.click()} disabled={isBusy} className={button}>Import CSV</button>
+          {queue && <button onClick={onClear} disabled={isBusy} className={button}>Clear</button>}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="text/csv,.csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {importErrors.length > 0 && (
+        <ul className="bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-lg font-mono space-y-1 max-h-32 overflow-y-auto">
+          {importErrors.map((message, index) => <li key={index}>{message}</li>)}
+        </ul>
+      )}
+
+      {queue && items.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-3">
+            {queue.paused ? (
+              <button onClick={onStart} disabled={!remaining} className={button}>
+                <i className="fas fa-play mr-1"></i>{doneCount + failedCount > 0 ? 'Resume' : 'Start'}
+              </button>
+            ) : (
+              <button onClick={onPause} className={button}>
+                <i className="fas fa-pause mr-1"></i>Pause
+              </button>
+            )}
+            <label className="flex items-center gap-2">
+              Parallel
+              <select value={queue.concurrency} onChange={(e) => onConcurrencyChange(Number(e.target.value))} className={select}>
+                {Array.from({ length: BATCH_MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Format
+              <select value={format} onChange={(e) => onFormatChange(e.target.value as ExportFormat)} className={select}>
+                {EXPORT_FORMATS.filter(info => info.isSupported()).map(info => (
+                  <option key={info.id} value={info.id}>{info.label}</option>
+                ))}
+              </select>
+            </label>
+            <button onClick={onDownload} disabled={doneCount === 0 || isExporting} className={`${button} ml-auto`}>
+              <i className={`fas ${isExporting ? 'fa-spinner fa-spin' : 'fa-file-archive'} mr-1`}></i>
+              Download ZIP
+            </button>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-700">
+            <table className="w-full text-left">
+              <thead className="text-gray-500 uppercase tracking-wider">
+                <tr>
+                  <th className="py-1 pr-2 font-medium">Id</th>
+                  <th className="py-1 pr-2 font-medium">File</th>
+                  <th className="py-1 pr-2 font-medium">Voice</th>
+                  <th className="py-1 pr-2 font-medium">Status</th>
+                  <th className="py-1 font-medium text-right">Length</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item, index) => (
+                  <tr key={index} className="border-t border-gray-700/50" title={item.row.text}>
+                    <td className="py-1 pr-2 font-mono text-gray-300 truncate max-w-[8rem]">{item.row.id}</td>
+                    <td className="py-1 pr-2 font-mono truncate max-w-[12rem]">{item.row.fileName}.{getExportFormat(format).extension}</td>
+                    <td className="py-1 pr-2">{item.row.voice}</td>
+                    <td className={`py-1 pr-2 ${STATUS_LABELS[item.status].className}`}>
+                      {item.status === 'failed' ? (
+                        <button onClick={() => onRetry(index)} className="hover:underline" title={item.error}>
+                          Failed · retry
+                        </button>
+                      ) : STATUS_LABELS[item.status].label}
+                    </td>
+                    <td className="py-1 font-mono text-right">
+                      {item.samples && item.sampleRate ? `${(item.samples.length / item.sampleRate).toFixed(1)}s` : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import type { SynthesisCacheStats } from '../services/geminiService';
+
+interface CacheControlsProps {
+  stats: SynthesisCacheStats;
+  bypass: boolean;
+  disabled: boolean;
+  onBypassChange: (bypass: boolean) => void;
+  onClear: () => void;
+}
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const CacheControls: React.FC<CacheControlsProps> = ({ stats, bypass, disabled, onBypassChange, onClear }) => (
+  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-400">
+    <label className="flex items-center gap-2 font-medium uppercase tracking-wider cursor-pointer">
+      <input
+        type="checkbox"
+        checked={bypass}
+        onChange={(e) => onBypassChange(e.target.checked)}
+        disabled={disabled}
+        className="accent-cyan-500"
+      />
+      Bypass cache
+    </label>
+    <span className="font-mono" title={`${stats.entries} cached segments, limit ${formatMegabytes(stats.maxBytes)}`}>
+      Cache: {stats.hits} hits · {stats.misses} misses · {formatMegabytes(stats.bytes)}
+    </span>
+    <button
+      type="button"
+      onClick={onClear}
+      disabled={disabled || stats.entries === 0}
+      className="text-gray-500 hover:text-cyan-300 disabled:opacity-40 disabled:hover:text-gray-500"
+    >
+      Clear
+    </button>
+  </div>
+);
@@ -0,0 +1,77 @@
+import React from 'react';
+
+export interface ChapterListItem {
+  title: string;
+  words: number;
+  // Position in the player, once the chapter has audio and timings.
+  start?: number;
+  end?: number;
+  // Segments of the chapter, while and after it is synthesized.
+  progress?: { done: number; failed: number; total: number };
+}
+
+interface ChapterListProps {
+  chapters: ChapterListItem[];
+  currentIndex: number;
+  onJump?: (index: number) => void;
+}
+
+const formatDuration = (seconds: number) => new Date(seconds * 1000).toISOString().substr(14, 5);
+
+export const ChapterList: React.FC<ChapterListProps> = ({ chapters, currentIndex, onJump }) => {
+  const canJump = (index: number) => onJump !== undefined && chapters[index]?.start !== undefined;
+  const button = 'px-2 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="space-y-2 text-xs text-gray-400">
+      <div className="flex items-center justify-between">
+        <span className="font-medium uppercase tracking-wider">Chapters ({chapters.length})</span>
+        {onJump && (
+          <div className="flex items-center gap-2">
+            <button onClick={() => onJump(currentIndex - 1)} disabled={!canJump(currentIndex - 1)} className={button} title="Previous chapter">
+              <i className="fas fa-step-backward"></i>
+            </button>
+            <button onClick={() => onJump(currentIndex + 1)} disabled={!canJump(currentIndex + 1)} className={button} title="Next chapter">
+              <i className="fas fa-step-forward"></i>
+            </button>
+          </div>
+        )}
+      </div>
+      <ol className="max-h-48 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-700 space-y-1">
+        {chapters.map((chapter, index) => {
+          const { progress } = chapter;
+          const percent = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+          return (
+            <li key={index}>
+              <button
+                onClick={() => onJump?.(index)}
+                disabled={!canJump(index)}
+                className={`w-full text-left px-2 py-1.5 rounded-lg flex items-center gap-3 transition-colors disabled:cursor-default ${
+                  index === currentIndex ? 'bg-cyan-500/20 text-cyan-200' : 'hover:bg-gray-700/50 disabled:hover:bg-transparent'
+                }`}
+              >
+                <span className="font-mono text-gray-500 w-6 text-right">{index + 1}</span>
+                <span className="flex-1 truncate text-gray-300">{chapter.title}</span>
+                {progress && progress.done + progress.failed < progress.total && (
+                  <span className="w-16 bg-gray-700 rounded-full h-1.5 overflow-hidden">
+                    <span className="block bg-cyan-500 h-1.5" style={{ width: `${percent}%` }}></span>
+                  </span>
+                )}
+                {progress && progress.failed > 0 && (
+                  <span className="text-red-400" title={`${progress.failed} of ${progress.total} segments failed`}>
+                    <i className="fas fa-exclamation-triangle"></i>
+                  </span>
+                )}
+                <span className="font-mono text-gray-500">
+                  {chapter.start !== undefined && chapter.end !== undefined
+                    ? formatDuration(chapter.end - chapter.start)
+                    : `${chapter.words} words`}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
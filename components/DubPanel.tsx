@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import type { DubState, DubStatus } from '../services/dubbing';
+import type { VoiceOption } from '../services/geminiService';
+import { EXPORT_FORMATS, ExportFormat, getExportFormat } from '../utils/exportFormats';
+import { languageName } from '../utils/languages';
+
+interface DubPanelProps {
+  // Null until the first translation is started.
+  dub: DubState | null;
+  languages: string[];
+  voices: VoiceOption[];
+  // Why dubbing is unavailable right now, if it is.
+  disabledReason: string | null;
+  format: ExportFormat;
+  isExporting: boolean;
+  onTranslate: (languages: string[]) => void;
+  onRetranslate: (index: number) => void;
+  onEdit: (index: number, text: string) => void;
+  onVoiceChange: (index: number, voice: string) => void;
+  onSynthesize: (index?: number) => void;
+  onCancel: () => void;
+  onFormatChange: (format: ExportFormat) => void;
+  onDownload: () => void;
+  onClear: () => void;
+}
+
+const STATUS_LABELS: Record<DubStatus, { label: string; className: string }> = {
+  pending: { label: 'Not translated', className: 'text-gray-500' },
+  translating: { label: 'Translating', className: 'text-cyan-400 animate-pulse' },
+  translated: { label: 'Ready to dub', className: 'text-gray-300' },
+  synthesizing: { label: 'Dubbing', className: 'text-cyan-400 animate-pulse' },
+  done: { label: 'Dubbed', className: 'text-emerald-400' },
+  failed: { label: 'Failed', className: 'text-red-400' },
+};
+
+const formatDuration = (seconds: number) => new Date(seconds * 1000).toISOString().substr(14, 5);
+
+export const DubPanel: React.FC<DubPanelProps> = ({
+  dub, languages, voices, disabledReason, format, isExporting,
+  onTranslate, onRetranslate, onEdit, onVoiceChange, onSynthesize, onCancel, onFormatChange, onDownload, onClear,
+}) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const button = 'px-2 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed';
+  const input = 'bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1 focus:ring-2 focus:ring-cyan-500';
+
+  if (!dub) {
+    const toggle = (language: string) =>
+      setSelected(current => current.includes(language) ? current.filter(l => l !== language) : [...current, language]);
+    return (
+      <div className="space-y-3 text-xs text-gray-400">
+        <p>Translate the text into other languages, review the translations, then dub each one with its own voice.</p>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-1 max-h-40 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-700">
+          {languages.map(language => (
+            <label key={language} className="flex items-center gap-1 cursor-pointer truncate" title={language}>
+              <input type="checkbox" checked={selected.includes(language)} onChange={() => toggle(language)} className="accent-cyan-500" />
+              {languageName(language)}
+            </label>
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <button onClick={() => onTranslate(selected)} disabled={selected.length === 0 || disabledReason !== null} className={button}>
+            <i className="fas fa-language mr-1"></i>Translate{selected.length > 0 ? ` into ${selected.length}` : ''}
+          </button>
+          {disabledReason && <span>{disabledReason}</span>}
+        </div>
+      </div>
+    );
+  }
+
+  const doneCount = dub.tracks.filter(track => track.status === 'done').length;
+  const toDub = dub.tracks.filter(track => track.translation.trim() && !track.samples).length;
+
+  return (
+    <div className="space-y-3 text-xs text-gray-400">
+      <div className="flex gap-3 overflow-x-auto pb-2 scrollbar-thin scrollbar-thumb-gray-700">
+        <div className="w-64 shrink-0 space-y-1">
+          <span className="block font-medium uppercase tracking-wider">Source</span>
+          <textarea value={dub.source} readOnly rows={8} className={`${input} w-full resize-none text-gray-400`} />
+        </div>
+        {dub.tracks.map((track, index) => {
+          const status = STATUS_LABELS[track.status];
+          return (
+            <div key={track.language} className="w-64 shrink-0 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium uppercase tracking-wider truncate" title={track.language}>{languageName(track.language)}</span>
+                <span className={status.className}>
+                  {status.label}{track.samples && track.sampleRate ? ` · ${formatDuration(track.samples.length / track.sampleRate)}` : ''}
+                </span>
+              </div>
+              <div className="flex items-center gap-1">
+                <select value={track.voice} onChange={(e) => onVoiceChange(index, e.target.value)} disabled={dub.busy} className={`${input} flex-1 min-w-0`}>
+                  {voices.map(voice => <option key={voice.value} value={voice.value}>{voice.label}</option>)}
+                </select>
+                <button onClick={() => onRetranslate(index)} disabled={dub.busy} className={button} title="Translate again">
+                  <i className="fas fa-rotate"></i>
+                </button>
+              </div>
+              <textarea
+                value={track.translation}
+                onChange={(e) => onEdit(index, e.target.value)}
+                disabled={dub.busy}
+                rows={8}
+                placeholder={track.status === 'translating' ? 'Translating…' : 'No translation yet'}
+                className={`${input} w-full resize-none`}
+              />
+              {track.error && (
+                <p className="text-red-400 break-words" title={track.error}>
+                  {track.error}{' '}
+                  <button
+                    onClick={() => track.translation.trim() ? onSynthesize(index) : onRetranslate(index)}
+                    disabled={dub.busy}
+                    className="underline hover:text-red-300 disabled:opacity-50"
+                  >
+                    Retry
+                  </button>
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {dub.busy ? (
+          <button onClick={onCancel} className={button}><i className="fas fa-stop mr-1"></i>Cancel</button>
+        ) : (
+          <button onClick={() => onSynthesize()} disabled={toDub === 0} className={button}>
+            <i className="fas fa-microphone mr-1"></i>Dub {toDub === 1 ? '1 language' : `${toDub} languages`}
+          </button>
+        )}
+        <span>{doneCount}/{dub.tracks.length} dubbed</span>
+        <div className="flex items-center gap-2 ml-auto">
+          <select value={format} onChange={(e) => onFormatChange(e.target.value as ExportFormat)} className={input}>
+            {EXPORT_FORMATS.filter(info => info.isSupported()).map(info => <option key={info.id} value={info.id}>{info.label}</option>)}
+          </select>
+          <button onClick={onDownload} disabled={doneCount === 0 || isExporting || dub.busy} className={button}>
+            <i className="fas fa-file-zipper mr-1"></i>{isExporting ? 'Exporting…' : `Download .zip (${getExportFormat(format).extension} + srt)`}
+          </button>
+          <button onClick={onClear} disabled={dub.busy} className={button}>Start over</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import type { AudioMetadata } from '../types';
+import { CAPTION_FORMATS, CaptionFormat } from '../utils/captions';
+import { EXPORT_FORMATS, ExportFormat, ExportOptions, getExportFormat, textComment } from '../utils/exportFormats';
+import { formatTimeStretch, isNeutralTimeStretch, TimeStretchSettings } from '../utils/timeStretch';
+import { DownloadIcon, LoadingSpinner } from './Icons';
+
+interface ExportMenuProps {
+  disabled: boolean;
+  // The start of it is embedded as the comment tag when the user opts in.
+  sourceText: string;
+  // Current playback speed and pitch, offered for baking into the export.
+  timeStretch: TimeStretchSettings;
+  isExporting: boolean;
+  // Imported documents can be exported as one file per chapter.
+  chapterCount: number;
+  onExport: (format: ExportFormat, options: ExportOptions, splitChapters: boolean) => void;
+  canExportCaptions: boolean;
+  // `stretched` asks for timings that match audio exported with `timeStretch`.
+  onExportCaptions: (format: CaptionFormat, stretched: boolean) => void;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ disabled, sourceText, timeStretch, isExporting, chapterCount, onExport, canExportCaptions, onExportCaptions }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('wav');
+  const [bitDepth, setBitDepth] = useState<16 | 24>(16);
+  const [bitrates, setBitrates] = useState<Partial<Record<ExportFormat, number>>>({});
+  const [title, setTitle] = useState('');
+  const [artist, setArtist] = useState('');
+  const [includeText, setIncludeText] = useState(true);
+  const [bakeTimeStretch, setBakeTimeStretch] = useState(false);
+  const [splitChapters, setSplitChapters] = useState(false);
+
+  const info = getExportFormat(format);
+  const bitrate = bitrates[format] ?? info.defaultBitrate;
+  const applyStretch = bakeTimeStretch && !isNeutralTimeStretch(timeStretch);
+  const split = splitChapters && chapterCount > 1;
+
+  const handleExport = () => {
+    const metadata: AudioMetadata = {
+      title: title.trim() || undefined,
+      artist: artist.trim() || undefined,
+      comment: includeText ? textComment(sourceText) : undefined,
+    };
+    onExport(format, { bitDepth, bitrate, metadata, timeStretch: applyStretch ? timeStretch : undefined }, split);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled || isExporting}
+        className="px-5 py-3.5 bg-gray-700 hover:bg-gray-600 text-white font-medium rounded-xl transition-all duration-200 active:scale-[0.98] flex gap-2 justify-center items-center border border-gray-600 group disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Download"
+      >
+        {isExporting ? <LoadingSpinner /> : <DownloadIcon />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 w-72 bg-gray-800 border border-gray-600 rounded-xl shadow-xl p-4 space-y-4 z-10">
+          <div className="grid grid-cols-2 gap-2">
+            {EXPORT_FORMATS.map(option => (
+              <button
+                key={option.id}
+                type="button"
+                disabled={!option.isSupported()}
+                onClick={() => setFormat(option.id)}
+                title={option.isSupported() ? undefined : 'Not supported by this browser'}
+                className={`px-3 py-2 rounded-lg text-sm font-medium border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                  format === option.id
+                    ? 'bg-cyan-600 border-cyan-500 text-white'
+                    : 'bg-gray-900 border-gray-600 text-gray-300 hover:border-gray-500'
+                }`}
+              >
+                {option.label}
+                <span className="block text-[10px] text-gray-400">{option.lossless ? 'lossless' : 'compressed'}</span>
+              </button>
+            ))}
+          </div>
+
+          {info.bitDepths && (
+            <label className="block text-xs text-gray-400">
+              Bit depth
+              <select
+                value={bitDepth}
+                onChange={(e) => setBitDepth(Number(e.target.value) as 16 | 24)}
+                className="mt-1 w-full bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1.5 text-sm"
+              >
+                {info.bitDepths.map(depth => <option key={depth} value={depth}>{depth}-bit</option>)}
+              </select>
+            </label>
+          )}
+
+          {info.bitrates && (
+            <label className="block text-xs text-gray-400">
+              Bitrate
+              <select
+                value={bitrate}
+                onChange={(e) => setBitrates(prev => ({ ...prev, [format]: Number(e.target.value) }))}
+                className="mt-1 w-full bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1.5 text-sm"
+              >
+                {info.bitrates.map(rate => <option key={rate} value={rate}>{rate} kbps</option>)}
+              </select>
+            </label>
+          )}
+
+          <div className="space-y-2">
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Title"
+              className="w-full bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1.5 text-sm placeholder-gray-500"
+            />
+            <input
+              value={artist}
+              onChange={(e) => setArtist(e.target.value)}
+              placeholder="Artist"
+              className="w-full bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1.5 text-sm placeholder-gray-500"
+            />
+            <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeText}
+                onChange={(e) => setIncludeText(e.target.checked)}
+                className="accent-cyan-500"
+              />
+              Embed start of source text as comment
+            </label>
+            {!isNeutralTimeStretch(timeStretch) && (
+              <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={bakeTimeStretch}
+                  onChange={(e) => setBakeTimeStretch(e.target.checked)}
+                  className="accent-cyan-500"
+                />
+                Apply playback speed and pitch ({formatTimeStretch(timeStretch)})
+              </label>
+            )}
+            {chapterCount > 1 && (
+              <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={splitChapters}
+                  onChange={(e) => setSplitChapters(e.target.checked)}
+                  className="accent-cyan-500"
+                />
+                One file per chapter ({chapterCount} files in a ZIP)
+              </label>
+            )}
+          </div>
+
+          <button
+            type="button"
+            onClick={handleExport}
+            className="w-full px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-medium rounded-lg transition-colors"
+          >
+            Download {split ? `${info.label} chapters` : info.label}
+          </button>
+
+          <div className="pt-3 border-t border-gray-700">
+            <div className="text-xs text-gray-400 mb-2">Captions</div>
+            <div className="flex gap-2">
+              {CAPTION_FORMATS.map(option => (
+                <button
+                  key={option.id}
+                  type="button"
+                  disabled={!canExportCaptions}
+                  onClick={() => onExportCaptions(option.id, applyStretch)}
+                  title={canExportCaptions ? undefined : 'Word timings are not ready yet'}
+                  className="flex-1 px-2 py-1.5 bg-gray-900 border border-gray-600 hover:border-gray-500 text-gray-300 text-sm rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useMemo, useRef } from 'react';
+import { applyLexicon, createLexiconEntry, LexiconEntry, validateLexiconEntry } from '../utils/lexicon';
+
+interface LexiconPanelProps {
+  entries: LexiconEntry[];
+  // Spoken text of the current input, to preview the rewrite against.
+  previewText: string;
+  onChange: (entries: LexiconEntry[]) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const PREVIEW_CHARS = 300;
+
+export const LexiconPanel: React.FC<LexiconPanelProps> = ({ entries, previewText, onChange, onImport, onExport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const preview = useMemo(() => {
+    const sample = previewText.slice(0, PREVIEW_CHARS);
+    const rewritten = applyLexicon(sample, entries);
+    return rewritten === sample ? null : rewritten + (previewText.length > PREVIEW_CHARS ? '…' : '');
+  }, [previewText, entries]);
+
+  const update = (id: string, patch: Partial<LexiconEntry>) =>
+    onChange(entries.map(entry => entry.id === id ? { ...entry, ...patch } : entry));
+
+  const flag = (entry: LexiconEntry, key: 'wholeWord' | 'caseSensitive' | 'regex', label: string) => (
+    <label className="flex items-center gap-1 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={entry[key]}
+        onChange={(e) => update(entry.id, { [key]: e.target.checked })}
+        className="accent-cyan-500"
+      />
+      {label}
+    </label>
+  );
+
+  const button = 'px-2 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed';
+  const input = 'flex-1 min-w-0 bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1 focus:ring-2 focus:ring-cyan-500';
+
+  return (
+    <div className="space-y-3 text-xs text-gray-400">
+      <div className="flex items-center justify-between gap-2">
+        <span>{entries.length === 0 ? 'No pronunciations yet.' : `${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}`}</span>
+        <div className="flex items-center gap-2">
+          <button onClick={() => onChange([...entries, createLexiconEntry()])} className={button}>Add</button>
+          <button onClick={() => fileInputRef.current?.click()} className={button}>Import JSON</button>
+          <button onClick={onExport} disabled={entries.length === 0} className={button}>Export JSON</button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+      {entries.length > 0 && (
+        <ul className="space-y-2">
+          {entries.map(entry => {
+            const problem = entry.term ? validateLexiconEntry(entry) : null;
+            return (
+              <li key={entry.id} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <input
+                    value={entry.term}
+                    onChange={(e) => update(entry.id, { term: e.target.value })}
+                    placeholder={entry.regex ? 'Pattern' : 'Term'}
+                    className={`${input} ${entry.regex ? 'font-mono' : ''}`}
+                  />
+                  <i className="fas fa-arrow-right text-gray-500"></i>
+                  <input
+                    value={entry.spoken}
+                    onChange={(e) => update(entry.id, { spoken: e.target.value })}
+                    placeholder="Spoken as"
+                    className={input}
+                  />
+                  <button
+                    onClick={() => onChange(entries.filter(other => other.id !== entry.id))}
+                    className="text-gray-500 hover:text-red-400 px-1"
+                    title="Remove"
+                  >
+                    <i className="fas fa-times"></i>
+                  </button>
+                </div>
+                <div className="flex items-center gap-3">
+                  {flag(entry, 'wholeWord', 'Whole word')}
+                  {flag(entry, 'caseSensitive', 'Match case')}
+                  {flag(entry, 'regex', 'Regex')}
+                  {problem && <span className="text-red-400">{problem}</span>}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {preview && (
+        <p className="text-gray-500">
+          Spoken as: <span className="text-gray-300">{preview}</span>
+        </p>
+      )}
+    </div>
+  );
+};
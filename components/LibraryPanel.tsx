@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import type { LibraryItem, LibraryUsage } from '../services/libraryService';
+import { DownloadIcon, PlayIcon } from './Icons';
+
+interface LibraryPanelProps {
+  items: LibraryItem[];
+  usage: LibraryUsage | null;
+  activeId: string | null;
+  disabled: boolean;
+  onOpen: (item: LibraryItem) => void;
+  onDownload: (item: LibraryItem) => void;
+  onRename: (item: LibraryItem, name: string) => void;
+  onDelete: (item: LibraryItem) => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const formatDuration = (seconds: number): string => new Date(seconds * 1000).toISOString().substr(14, 5);
+
+export const LibraryPanel: React.FC<LibraryPanelProps> = ({ items, usage, activeId, disabled, onOpen, onDownload, onRename, onDelete }) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return items;
+    return items.filter(item => item.name.toLowerCase().includes(needle) || item.text.toLowerCase().includes(needle));
+  }, [items, query]);
+
+  const startRename = (item: LibraryItem) => {
+    setEditingId(item.id);
+    setDraftName(item.name);
+  };
+
+  const commitRename = (item: LibraryItem) => {
+    setEditingId(null);
+    const name = draftName.trim();
+    if (name && name !== item.name) onRename(item, name);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search library..."
+          className="flex-1 p-2 bg-gray-900/50 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-500 focus:ring-2 focus:ring-cyan-500"
+        />
+        {usage && (
+          <span className="text-xs font-mono text-gray-400 whitespace-nowrap" title={usage.usage !== undefined && usage.quota ? `Origin storage: ${formatBytes(usage.usage)} of ${formatBytes(usage.quota)}` : undefined}>
+            {usage.itemCount} items · {formatBytes(usage.itemBytes)}
+            {usage.quota ? ` / ${formatBytes(usage.quota)}` : ''}
+          </span>
+        )}
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="text-sm text-gray-500">{items.length === 0 ? 'Generated audio is saved here automatically.' : 'No matches.'}</p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto space-y-2 pr-1">
+          {filtered.map(item => (
+            <li
+              key={item.id}
+              className={`flex items-center gap-3 p-2 rounded-lg border ${item.id === activeId ? 'border-cyan-500 bg-cyan-500/10' : 'border-gray-700 bg-gray-900/40'}`}
+            >
+              <button
+                type="button"
+                onClick={() => onOpen(item)}
+                disabled={disabled}
+                title="Open"
+                className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <PlayIcon />
+              </button>
+              <div className="flex-1 min-w-0">
+                {editingId === item.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={() => commitRename(item)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename(item);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full p-1 bg-gray-900 border border-gray-600 rounded text-sm text-white"
+                  />
+                ) : (
+                  <button type="button" onClick={() => startRename(item)} title="Rename" className="block w-full text-left text-sm text-gray-200 truncate hover:text-cyan-300">
+                    {item.name}
+                  </button>
+                )}
+                <div className="text-xs font-mono text-gray-500 truncate">
+                  {new Date(item.createdAt).toLocaleString()} · {formatDuration(item.duration)} · {item.scriptMode ? 'script' : item.voice}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => onDownload(item)}
+                title="Download WAV"
+                className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700"
+              >
+                <DownloadIcon />
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(item)}
+                disabled={disabled && item.id === activeId}
+                title="Delete"
+                className="p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-gray-700 disabled:opacity-50"
+              >
+                <i className="fas fa-trash-alt"></i>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import type { MasteringSettings } from '../utils/mastering';
+
+interface MasteringPanelProps {
+  settings: MasteringSettings;
+  // Measured loudness before and after, once the mastered audio is ready.
+  loudness: { input: number; output: number } | null;
+  onChange: (settings: MasteringSettings) => void;
+}
+
+const LOUDNESS_TARGETS = [-14, -16, -19, -23];
+const MAX_PAUSES = [0.4, 0.75, 1, 1.5, Infinity];
+const FADE_IN_OPTIONS = [0, 0.01, 0.02, 0.05, 0.1];
+const FADE_OUT_OPTIONS = [0, 0.1, 0.2, 0.5, 1];
+
+const formatLufs = (lufs: number) => Number.isFinite(lufs) ? `${lufs.toFixed(1)} LUFS` : 'silent';
+
+export const MasteringPanel: React.FC<MasteringPanelProps> = ({ settings, loudness, onChange }) => {
+  const update = (patch: Partial<MasteringSettings>) => onChange({ ...settings, ...patch });
+
+  const select = (label: string, value: number, options: number[], format: (value: number) => string, key: keyof MasteringSettings) => (
+    <label className="flex items-center gap-2">
+      {label}
+      <select
+        value={String(value)}
+        onChange={(e) => update({ [key]: Number(e.target.value) })}
+        className="bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1"
+      >
+        {options.map(option => <option key={option} value={String(option)}>{format(option)}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="space-y-2 text-xs text-gray-400">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 font-medium uppercase tracking-wider cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="accent-cyan-500"
+          />
+          Mastering
+        </label>
+        {settings.enabled && loudness && (
+          <span className="font-mono">{formatLufs(loudness.input)} → {formatLufs(loudness.output)}</span>
+        )}
+      </div>
+      {settings.enabled && (
+        <div className="flex flex-wrap items-center gap-3">
+          {select('Target', settings.targetLufs, LOUDNESS_TARGETS, value => `${value} LUFS`, 'targetLufs')}
+          {select('Fade in', settings.fadeInSeconds, FADE_IN_OPTIONS, value => `${value * 1000} ms`, 'fadeInSeconds')}
+          {select('Fade out', settings.fadeOutSeconds, FADE_OUT_OPTIONS, value => `${value * 1000} ms`, 'fadeOutSeconds')}
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.trimSilence}
+              onChange={(e) => update({ trimSilence: e.target.checked })}
+              className="accent-cyan-500"
+            />
+            Trim silence
+          </label>
+          {settings.trimSilence && select('Max pause', settings.maxInternalSilence, MAX_PAUSES, value => Number.isFinite(value) ? `${value}s` : 'keep', 'maxInternalSilence')}
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.compression}
+              onChange={(e) => update({ compression: e.target.checked })}
+              className="accent-cyan-500"
+            />
+            Compression
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
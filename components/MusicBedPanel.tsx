@@ -0,0 +1,99 @@
+import React, { useRef } from 'react';
+import type { MusicBed, MusicBedSettings } from '../utils/musicBed';
+
+interface MusicBedPanelProps {
+  bed: MusicBed | null;
+  settings: MusicBedSettings;
+  isLoadingBed: boolean;
+  onLoad: (file: File) => void;
+  onRemove: () => void;
+  onChange: (settings: MusicBedSettings) => void;
+}
+
+const VOLUMES = [-24, -18, -15, -12, -9, -6];
+const DUCK_DEPTHS = [0, -6, -9, -12, -18, -24];
+const PADDING_OPTIONS = [0, 0.5, 1, 2, 3, 5];
+
+const formatDuration = (seconds: number) => new Date(seconds * 1000).toISOString().substr(14, 5);
+
+export const MusicBedPanel: React.FC<MusicBedPanelProps> = ({ bed, settings, isLoadingBed, onLoad, onRemove, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const update = (patch: Partial<MusicBedSettings>) => onChange({ ...settings, ...patch });
+
+  const select = (label: string, value: number, options: number[], format: (value: number) => string, key: keyof MusicBedSettings) => (
+    <label className="flex items-center gap-2">
+      {label}
+      <select
+        value={String(value)}
+        onChange={(e) => update({ [key]: Number(e.target.value) })}
+        className="bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1"
+      >
+        {options.map(option => <option key={option} value={String(option)}>{format(option)}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="space-y-2 text-xs text-gray-400">
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-2 font-medium uppercase tracking-wider cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled && bed !== null}
+            disabled={!bed}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="accent-cyan-500"
+          />
+          Music bed
+        </label>
+        <div className="flex items-center gap-2 min-w-0">
+          {bed && (
+            <span className="font-mono truncate" title={bed.name}>
+              {bed.name} ({formatDuration(bed.samples.length / bed.sampleRate)})
+            </span>
+          )}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoadingBed}
+            className="px-2 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoadingBed ? 'Loading…' : bed ? 'Replace' : 'Load audio…'}
+          </button>
+          {bed && (
+            <button onClick={onRemove} className="px-2 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200">
+              Remove
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onLoad(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+      {bed && settings.enabled && (
+        <div className="flex flex-wrap items-center gap-3">
+          {select('Level', settings.volumeDb, VOLUMES, value => `${value} dB`, 'volumeDb')}
+          {select('Duck', settings.duckDb, DUCK_DEPTHS, value => value === 0 ? 'off' : `${value} dB`, 'duckDb')}
+          {select('Intro', settings.introSeconds, PADDING_OPTIONS, value => `${value}s`, 'introSeconds')}
+          {select('Outro', settings.outroSeconds, PADDING_OPTIONS, value => `${value}s`, 'outroSeconds')}
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.loop}
+              onChange={(e) => update({ loop: e.target.checked })}
+              className="accent-cyan-500"
+            />
+            Loop
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { MAX_PITCH_SEMITONES, PLAYBACK_SPEEDS } from '../constants';
+import { isNeutralTimeStretch, NEUTRAL_TIME_STRETCH, TimeStretchSettings } from '../utils/timeStretch';
+
+interface PlaybackControlsProps {
+  settings: TimeStretchSettings;
+  onChange: (settings: TimeStretchSettings) => void;
+}
+
+const PITCH_STEPS = Array.from({ length: MAX_PITCH_SEMITONES * 2 + 1 }, (_, i) => i - MAX_PITCH_SEMITONES);
+
+const formatSemitones = (semitones: number): string => `${semitones > 0 ? '+' : ''}${semitones} st`;
+
+export const PlaybackControls: React.FC<PlaybackControlsProps> = ({ settings, onChange }) => (
+  <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+    <label className="flex items-center gap-2">
+      Speed
+      <select
+        value={settings.speed}
+        onChange={(e) => onChange({ ...settings, speed: Number(e.target.value) })}
+        className="bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1"
+      >
+        {PLAYBACK_SPEEDS.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+      </select>
+    </label>
+    <label className="flex items-center gap-2">
+      Pitch
+      <select
+        value={settings.semitones}
+        onChange={(e) => onChange({ ...settings, semitones: Number(e.target.value) })}
+        className="bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1"
+      >
+        {PITCH_STEPS.map(step => <option key={step} value={step}>{formatSemitones(step)}</option>)}
+      </select>
+    </label>
+    {!isNeutralTimeStretch(settings) && (
+      <button type="button" onClick={() => onChange(NEUTRAL_TIME_STRETCH)} className="text-gray-500 hover:text-cyan-300">
+        Reset
+      </button>
+    )}
+  </div>
+);
@@ -0,0 +1,43 @@
+import React from 'react';
+import { SPEAKER_COLORS } from '../constants';
+import type { ScriptLine } from '../utils/script';
+
+interface ScriptViewProps {
+  lines: ScriptLine[];
+  lineWords: string[][];
+  speakers: string[];
+  currentWordIndex: number;
+}
+
+// Read-along view for dialogue scripts: one block per turn, with the active
+// speaker's turn outlined and the current word highlighted inside it.
+export const ScriptView: React.FC<ScriptViewProps> = ({ lines, lineWords, speakers, currentWordIndex }) => {
+  let wordOffset = 0;
+  return (
+    <div className="space-y-2">
+      {lines.map((line, lineIndex) => {
+        const firstWord = wordOffset;
+        wordOffset += lineWords[lineIndex].length;
+        const isActive = currentWordIndex >= firstWord && currentWordIndex < wordOffset;
+        const color = SPEAKER_COLORS[speakers.indexOf(line.speaker) % SPEAKER_COLORS.length];
+        return (
+          <div
+            key={lineIndex}
+            className={`border-l-4 pl-3 py-1 rounded-r transition-colors ${isActive ? `${color.border} ${color.bg}` : 'border-transparent'}`}
+          >
+            <span className={`text-xs font-bold uppercase tracking-wider ${color.text}`}>
+              {line.speaker}{isActive && ' · speaking'}
+            </span>
+            <p className="text-gray-300 leading-relaxed text-lg">
+              {lineWords[lineIndex].map((word, index) => (
+                <span key={index} className={`transition-colors duration-100 rounded px-0.5 ${firstWord + index === currentWordIndex ? 'bg-cyan-500/30 text-cyan-200 font-bold shadow-[0_0_10px_rgba(34,211,238,0.3)]' : ''}`}>
+                  {word}{' '}
+                </span>
+              ))}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
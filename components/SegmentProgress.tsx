@@ -0,0 +1,47 @@
+import React from 'react';
+import type { SegmentStatus } from '../services/geminiService';
+
+export interface SegmentProgressItem {
+  text: string;
+  status: SegmentStatus;
+  error?: string;
+}
+
+interface SegmentProgressProps {
+  segments: SegmentProgressItem[];
+  canRetry: boolean;
+  onRetry: (index: number) => void;
+}
+
+const STATUS_CLASSES: Record<SegmentStatus, string> = {
+  pending: 'bg-gray-600',
+  synthesizing: 'bg-cyan-500 animate-pulse',
+  done: 'bg-emerald-500',
+  failed: 'bg-red-500 hover:bg-red-400 cursor-pointer',
+};
+
+export const SegmentProgress: React.FC<SegmentProgressProps> = ({ segments, canRetry, onRetry }) => {
+  const doneCount = segments.filter(segment => segment.status === 'done').length;
+  const failedCount = segments.filter(segment => segment.status === 'failed').length;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs font-mono text-gray-400 flex justify-between">
+        <span>Segments {doneCount}/{segments.length}</span>
+        {failedCount > 0 && <span className="text-red-400">{failedCount} failed{canRetry ? ' · click to retry' : ''}</span>}
+      </div>
+      <div className="flex gap-1">
+        {segments.map((segment, index) => (
+          <button
+            key={index}
+            type="button"
+            disabled={segment.status !== 'failed' || !canRetry}
+            onClick={() => onRetry(index)}
+            title={segment.error ? `${segment.error}\n\n${segment.text}` : segment.text}
+            className={`h-2 flex-1 rounded-full transition-colors disabled:cursor-default ${STATUS_CLASSES[segment.status]}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { SPEAKER_COLORS, TONES, VOICES } from '../constants';
+import type { SpeakerVoice } from '../services/geminiService';
+import type { SpeakerSetting } from '../utils/script';
+
+interface SpeakerSettingsProps {
+  speakers: SpeakerVoice[];
+  settings: Record<string, SpeakerSetting>;
+  nativeMultiSpeaker: boolean;
+  onChange: (speaker: string, setting: SpeakerSetting) => void;
+}
+
+export const SpeakerSettings: React.FC<SpeakerSettingsProps> = ({ speakers, settings, nativeMultiSpeaker, onChange }) => (
+  <div className="space-y-2 bg-gray-700/30 p-4 rounded-xl border border-gray-700/50">
+    <div className="flex justify-between text-xs font-medium text-gray-400 uppercase tracking-wider">
+      <span>Speakers</span>
+      <span className="normal-case tracking-normal text-gray-500">
+        {nativeMultiSpeaker ? 'Voiced together in one request' : 'Each line synthesized separately'}
+      </span>
+    </div>
+    {speakers.length === 0 && (
+      <p className="text-sm text-gray-500">Write one turn per line as <span className="font-mono">Host: ...</span> then <span className="font-mono">Guest: ...</span></p>
+    )}
+    {speakers.map((speaker, index) => {
+      const color = SPEAKER_COLORS[index % SPEAKER_COLORS.length];
+      return (
+        <div key={speaker.speaker} className="grid grid-cols-3 gap-2 items-center">
+          <span className={`font-bold truncate ${color.text}`}>{speaker.speaker}</span>
+          <select
+            aria-label={`${speaker.speaker} voice`}
+            value={speaker.voice}
+            onChange={(e) => onChange(speaker.speaker, { voice: e.target.value, tone: settings[speaker.speaker]?.tone ?? '' })}
+            className="p-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm cursor-pointer"
+          >
+            {VOICES.map((voice) => (
+              <option key={voice.value} value={voice.value}>{voice.label}</option>
+            ))}
+          </select>
+          <select
+            aria-label={`${speaker.speaker} tone`}
+            value={settings[speaker.speaker]?.tone ?? ''}
+            onChange={(e) => onChange(speaker.speaker, { voice: speaker.voice, tone: e.target.value })}
+            className="p-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm cursor-pointer"
+          >
+            <option value="">Default tone</option>
+            {TONES.map((tone) => (
+              <option key={tone.value} value={tone.value}>{tone.label}</option>
+            ))}
+          </select>
+        </div>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,143 @@
+import React, { useMemo } from 'react';
+import { budgetLevel, dailyUsage, formatUsageMetric, summarizeUsage, usageMetricValue, UsageBudget, UsageMetric, UsageRecord } from '../utils/usage';
+
+interface UsagePanelProps {
+  records: UsageRecord[];
+  sessionStart: number;
+  budget: UsageBudget;
+  onBudgetChange: (budget: UsageBudget) => void;
+  onExport: () => void;
+  onClear: () => void;
+}
+
+const METRIC_LABELS: Record<UsageMetric, string> = {
+  cost: 'Estimated cost ($)',
+  characters: 'Characters',
+  audioSeconds: 'Audio seconds',
+  requests: 'Requests',
+};
+
+// Days listed in the dashboard; the CSV export has the whole history.
+const DAYS_SHOWN = 14;
+
+// An empty field means no limit.
+const parseLimit = (value: string): number | null => {
+  const limit = parseFloat(value);
+  return Number.isFinite(limit) && limit >= 0 ? limit : null;
+};
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ records, sessionStart, budget, onBudgetChange, onExport, onClear }) => {
+  const session = useMemo(() => summarizeUsage(records.filter(record => record.time >= sessionStart)), [records, sessionStart]);
+  const days = useMemo(() => dailyUsage(records).slice(0, DAYS_SHOWN), [records]);
+
+  const level = budgetLevel(session, budget);
+  const used = usageMetricValue(session, budget.metric);
+  const limit = budget.hard ?? budget.soft;
+  const input = 'bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1 focus:ring-2 focus:ring-cyan-500';
+  const button = 'px-2 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="space-y-3 text-xs text-gray-400">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {[
+          ['Requests', `${session.requests}${session.failures ? ` (${session.failures} failed)` : ''}`],
+          ['Characters', session.inputChars.toLocaleString('en-US')],
+          ['Audio', formatUsageMetric(session.audioSeconds, 'audioSeconds')],
+          ['Est. cost', formatUsageMetric(session.cost, 'cost')],
+        ].map(([label, value]) => (
+          <div key={label} className="bg-gray-900/50 rounded-lg p-2">
+            <span className="block uppercase tracking-wider">{label}</span>
+            <span className="block font-mono text-sm text-gray-200">{value}</span>
+          </div>
+        ))}
+      </div>
+      <p>This session, since {new Date(sessionStart).toLocaleTimeString()}. Costs are estimates from list prices; cached segments are free.</p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium uppercase tracking-wider">Budget</span>
+        <select
+          value={budget.metric}
+          onChange={(e) => onBudgetChange({ ...budget, metric: e.target.value as UsageMetric })}
+          className={input}
+        >
+          {(Object.keys(METRIC_LABELS) as UsageMetric[]).map(metric => <option key={metric} value={metric}>{METRIC_LABELS[metric]}</option>)}
+        </select>
+        {/* Uncontrolled, so partial entries like "0." survive re-renders. */}
+        <label className="flex items-center gap-1">
+          Warn at
+          <input
+            type="number"
+            min={0}
+            defaultValue={budget.soft ?? ''}
+            onChange={(e) => onBudgetChange({ ...budget, soft: parseLimit(e.target.value) })}
+            placeholder="none"
+            className={`${input} w-24`}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          Stop at
+          <input
+            type="number"
+            min={0}
+            defaultValue={budget.hard ?? ''}
+            onChange={(e) => onBudgetChange({ ...budget, hard: parseLimit(e.target.value) })}
+            placeholder="none"
+            className={`${input} w-24`}
+          />
+        </label>
+      </div>
+      {limit !== null && (
+        <div className="space-y-1">
+          <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${level === 'hard' ? 'bg-red-500' : level === 'soft' ? 'bg-amber-500' : 'bg-cyan-500'}`}
+              style={{ width: `${Math.min(100, (used / limit) * 100)}%` }}
+            ></div>
+          </div>
+          <p className={level === 'hard' ? 'text-red-400' : level === 'soft' ? 'text-amber-400' : ''}>
+            {formatUsageMetric(used, budget.metric)} used of {formatUsageMetric(limit, budget.metric)}
+            {level === 'hard' ? ' · generation is blocked' : level === 'soft' ? ' · past the warning limit' : ''}
+          </p>
+        </div>
+      )}
+
+      {days.length === 0 ? (
+        <p>No requests recorded yet.</p>
+      ) : (
+        <table className="w-full text-left font-mono">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="font-normal py-1">Day</th>
+              <th className="font-normal py-1 text-right">Requests</th>
+              <th className="font-normal py-1 text-right">Failed</th>
+              <th className="font-normal py-1 text-right">Chars</th>
+              <th className="font-normal py-1 text-right">Audio</th>
+              <th className="font-normal py-1 text-right">Est. cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {days.map(({ day, totals }) => (
+              <tr key={day} className="border-t border-gray-700/50 text-gray-300">
+                <td className="py-1">{day}</td>
+                <td className="py-1 text-right">{totals.requests}</td>
+                <td className="py-1 text-right">{totals.failures}</td>
+                <td className="py-1 text-right">{totals.inputChars.toLocaleString('en-US')}</td>
+                <td className="py-1 text-right">{formatUsageMetric(totals.audioSeconds, 'audioSeconds')}</td>
+                <td className="py-1 text-right">{formatUsageMetric(totals.cost, 'cost')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex gap-2">
+        <button onClick={onExport} disabled={records.length === 0} className={button}>
+          <i className="fas fa-file-csv mr-1"></i>Export CSV
+        </button>
+        <button onClick={onClear} disabled={records.length === 0} className={button}>
+          Clear history
+        </button>
+      </div>
+    </div>
+  );
+};
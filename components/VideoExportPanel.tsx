@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { WordTiming } from '../types';
+import {
+  AUDIOGRAM_ASPECTS,
+  AUDIOGRAM_RESOLUTIONS,
+  AudiogramAspect,
+  AudiogramSettings,
+  DEFAULT_AUDIOGRAM_SETTINGS,
+  drawAudiogramPreview,
+  isVideoExportSupported,
+  VISUALIZER_STYLES,
+  VisualizerStyle,
+} from '../utils/audiogram';
+
+interface VideoExportPanelProps {
+  // The audio and timings as played, before any speed change.
+  samples: Float32Array;
+  sampleRate: number;
+  timings: WordTiming[];
+  defaultTitle: string;
+  // Fraction of frames rendered, while a render is running.
+  progress: number | null;
+  onRender: (settings: AudiogramSettings) => void;
+  onCancel: () => void;
+}
+
+const formatDuration = (seconds: number) => new Date(seconds * 1000).toISOString().substr(14, 5);
+
+export const VideoExportPanel: React.FC<VideoExportPanelProps> = ({ samples, sampleRate, timings, defaultTitle, progress, onRender, onCancel }) => {
+  const [settings, setSettings] = useState<AudiogramSettings>(() => ({ ...DEFAULT_AUDIOGRAM_SETTINGS, title: defaultTitle }));
+  const [backgroundName, setBackgroundName] = useState<string | null>(null);
+  const [previewTime, setPreviewTime] = useState(() => timings[Math.floor(timings.length / 2)]?.start ?? 0);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const duration = samples.length / sampleRate;
+  const update = (patch: Partial<AudiogramSettings>) => setSettings(current => ({ ...current, ...patch }));
+
+  useEffect(() => {
+    if (canvasRef.current) drawAudiogramPreview(canvasRef.current, samples, sampleRate, timings, settings, Math.min(previewTime, duration));
+  }, [samples, sampleRate, timings, settings, previewTime, duration]);
+
+  const loadBackground = async (file: File) => {
+    try {
+      settings.background?.close();
+      update({ background: await createImageBitmap(file) });
+      setBackgroundName(file.name);
+    } catch (e) {
+      console.warn('Could not read background image:', e);
+      setBackgroundName(null);
+    }
+  };
+
+  const removeBackground = () => {
+    settings.background?.close();
+    update({ background: null });
+    setBackgroundName(null);
+  };
+
+  if (!isVideoExportSupported()) {
+    return <p className="text-xs text-gray-400">Video export needs WebCodecs, which this browser does not support.</p>;
+  }
+
+  const input = 'bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1 focus:ring-2 focus:ring-cyan-500';
+  const button = 'px-2 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed';
+  const isRendering = progress !== null;
+
+  return (
+    <div className="space-y-3 text-xs text-gray-400">
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="sm:w-48 shrink-0 space-y-1">
+          <canvas ref={canvasRef} className="w-full rounded-lg border border-gray-700 bg-gray-900" />
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.1}
+            value={Math.min(previewTime, duration)}
+            onChange={(e) => setPreviewTime(Number(e.target.value))}
+            className="w-full accent-cyan-500"
+            title="Preview position"
+          />
+          <span className="block text-center font-mono">{formatDuration(Math.min(previewTime, duration))}</span>
+        </div>
+
+        <div className="flex-1 space-y-2">
+          <label className="flex items-center gap-2">
+            Title
+            <input
+              value={settings.title}
+              onChange={(e) => update({ title: e.target.value })}
+              placeholder="No title"
+              className={`${input} flex-1 min-w-0`}
+            />
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={settings.style} onChange={(e) => update({ style: e.target.value as VisualizerStyle })} className={input}>
+              {VISUALIZER_STYLES.map(style => <option key={style.id} value={style.id}>{style.label}</option>)}
+            </select>
+            <select value={settings.aspect} onChange={(e) => update({ aspect: e.target.value as AudiogramAspect })} className={input}>
+              {AUDIOGRAM_ASPECTS.map(aspect => <option key={aspect.id} value={aspect.id}>{aspect.label}</option>)}
+            </select>
+            <select value={String(settings.resolution)} onChange={(e) => update({ resolution: Number(e.target.value) })} className={input}>
+              {AUDIOGRAM_RESOLUTIONS.map(resolution => <option key={resolution} value={String(resolution)}>{resolution}p</option>)}
+            </select>
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.captions}
+                disabled={timings.length === 0}
+                onChange={(e) => update({ captions: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              Captions
+            </label>
+          </div>
+          <div className="flex items-center gap-2 min-w-0">
+            <button onClick={() => fileInputRef.current?.click()} disabled={isRendering} className={button}>
+              {settings.background ? 'Replace background' : 'Background image…'}
+            </button>
+            {backgroundName && (
+              <>
+                <span className="font-mono truncate" title={backgroundName}>{backgroundName}</span>
+                <button onClick={removeBackground} disabled={isRendering} className="text-gray-500 hover:text-red-400 disabled:opacity-40" title="Remove background">
+                  <i className="fas fa-times"></i>
+                </button>
+              </>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) loadBackground(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {isRendering ? (
+            <div className="flex items-center gap-2">
+              <div className="flex-1 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                <div className="h-full bg-cyan-500" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+              </div>
+              <span className="font-mono">{Math.round(progress * 100)}%</span>
+              <button onClick={onCancel} className={button}>Cancel</button>
+            </div>
+          ) : (
+            <button onClick={() => onRender(settings)} className={button}>
+              <i className="fas fa-film mr-1"></i>Render WebM
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
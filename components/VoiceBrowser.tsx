@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import type { VoiceGender, VoiceOption } from '../services/geminiService';
+import { languageName } from '../utils/languages';
+
+interface VoiceBrowserProps {
+  voices: VoiceOption[];
+  selected: string;
+  favourites: string[];
+  // The voice whose audition is loading or playing.
+  auditioning: string | null;
+  onSelect: (voice: string) => void;
+  onToggleFavourite: (voice: string) => void;
+  onAudition: (voice: string) => void;
+}
+
+export const VoiceBrowser: React.FC<VoiceBrowserProps> = ({ voices, selected, favourites, auditioning, onSelect, onToggleFavourite, onAudition }) => {
+  const [query, setQuery] = useState('');
+  const [gender, setGender] = useState<VoiceGender | ''>('');
+  const [language, setLanguage] = useState('');
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+
+  const languages = useMemo(
+    () => Array.from(new Set<string>(voices.flatMap(voice => voice.languages ?? []))).sort((a, b) => languageName(a).localeCompare(languageName(b))),
+    [voices]
+  );
+
+  // Favourites first, then catalog order.
+  const matches = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return voices
+      .filter(voice =>
+        (!needle || [voice.value, voice.label, voice.description ?? ''].some(field => field.toLowerCase().includes(needle)))
+        && (!gender || voice.gender === gender)
+        && (!language || voice.languages?.includes(language))
+        && (!favouritesOnly || favourites.includes(voice.value))
+      )
+      .sort((a, b) => Number(favourites.includes(b.value)) - Number(favourites.includes(a.value)));
+  }, [voices, query, gender, language, favouritesOnly, favourites]);
+
+  const input = 'bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1 focus:ring-2 focus:ring-cyan-500';
+
+  return (
+    <div className="space-y-3 text-xs text-gray-400">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search voices"
+          className={`${input} flex-1 min-w-[8rem]`}
+        />
+        <select value={gender} onChange={(e) => setGender(e.target.value as VoiceGender | '')} className={input}>
+          <option value="">Any gender</option>
+          <option value="female">Female</option>
+          <option value="male">Male</option>
+        </select>
+        {languages.length > 0 && (
+          <select value={language} onChange={(e) => setLanguage(e.target.value)} className={input}>
+            <option value="">Any language</option>
+            {languages.map(tag => <option key={tag} value={tag}>{languageName(tag)}</option>)}
+          </select>
+        )}
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={favouritesOnly} onChange={(e) => setFavouritesOnly(e.target.checked)} className="accent-cyan-500" />
+          Favourites
+        </label>
+      </div>
+
+      {matches.length === 0 ? (
+        <p>No voices match.</p>
+      ) : (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-64 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-700">
+          {matches.map(voice => {
+            const isFavourite = favourites.includes(voice.value);
+            const isSelected = voice.value === selected;
+            return (
+              <li
+                key={voice.value}
+                className={`flex items-center gap-2 p-2 rounded-lg border transition-colors ${isSelected ? 'border-cyan-500 bg-cyan-500/10' : 'border-gray-700 hover:bg-gray-700/50'}`}
+              >
+                <button onClick={() => onAudition(voice.value)} className="w-7 h-7 shrink-0 rounded-full bg-gray-700 hover:bg-gray-600 text-gray-200" title="Audition">
+                  <i className={`fas ${auditioning === voice.value ? 'fa-stop' : 'fa-play'} text-[10px]`}></i>
+                </button>
+                <button onClick={() => onSelect(voice.value)} className="flex-1 min-w-0 text-left">
+                  <span className={`block font-medium ${isSelected ? 'text-cyan-200' : 'text-gray-200'}`}>{voice.value}</span>
+                  <span className="block truncate">
+                    {[voice.gender && voice.gender[0].toUpperCase() + voice.gender.slice(1), voice.description].filter(Boolean).join(' · ')}
+                  </span>
+                </button>
+                <button
+                  onClick={() => onToggleFavourite(voice.value)}
+                  className={isFavourite ? 'text-yellow-400' : 'text-gray-600 hover:text-gray-400'}
+                  title={isFavourite ? 'Remove from favourites' : 'Add to favourites'}
+                >
+                  <i className={`${isFavourite ? 'fas' : 'far'} fa-star`}></i>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
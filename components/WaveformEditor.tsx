@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TONES, VOICES, WAVEFORM_ZOOM_LEVELS } from '../constants';
+import { formatMarkupPosition, parseMarkup } from '../utils/markup';
+import type { SentenceRegion } from '../utils/sentenceEditor';
+
+export interface RegionEdit {
+  text: string;
+  voice: string;
+  tone: string;
+}
+
+interface WaveformEditorProps {
+  samples: Float32Array;
+  sampleRate: number;
+  regions: SentenceRegion[];
+  // Voice and tone a region was generated with, to prefill the edit form.
+  voiceFor: (region: SentenceRegion) => { voice: string; tone: string };
+  disabled: boolean;
+  isRegenerating: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  onRegenerate: (region: SentenceRegion, edit: RegionEdit) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const HEIGHT = 96;
+// Browsers refuse canvases much wider than this.
+const MAX_CANVAS_WIDTH = 16384;
+
+export const WaveformEditor: React.FC<WaveformEditorProps> = ({
+  samples, sampleRate, regions, voiceFor, disabled, isRegenerating, canUndo, canRedo, onRegenerate, onUndo, onRedo,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [zoom, setZoom] = useState<number>(1);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [edit, setEdit] = useState<RegionEdit>({ text: '', voice: VOICES[0].value, tone: TONES[0].value });
+
+  const duration = samples.length / sampleRate;
+  const width = Math.max(1, Math.min(MAX_CANVAS_WIDTH, Math.round(duration * WAVEFORM_ZOOM_LEVELS[zoom])));
+  const pixelsPerSecond = width / Math.max(duration, 1e-6);
+  const region = selected !== null ? regions[selected] : undefined;
+  // The new text may use the same markup as the main editor.
+  const markupErrors = useMemo(
+    () => parseMarkup(edit.text, { voice: edit.voice, tone: edit.tone }).errors
+      .map(e => `Line ${formatMarkupPosition(edit.text, e.offset)}: ${e.message}`),
+    [edit]
+  );
+
+  // Min and max of every pixel column.
+  const peaks = useMemo(() => {
+    const columns = new Float32Array(width * 2);
+    const perColumn = samples.length / width;
+    for (let x = 0; x < width; x++) {
+      let min = 0;
+      let max = 0;
+      const end = Math.min(samples.length, Math.ceil((x + 1) * perColumn));
+      for (let i = Math.floor(x * perColumn); i < end; i++) {
+        if (samples[i] < min) min = samples[i];
+        if (samples[i] > max) max = samples[i];
+      }
+      columns[2 * x] = min;
+      columns[2 * x + 1] = max;
+    }
+    return columns;
+  }, [samples, width]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, HEIGHT);
+    ctx.fillStyle = '#22d3ee';
+    const middle = HEIGHT / 2;
+    for (let x = 0; x < width; x++) {
+      const top = middle - peaks[2 * x + 1] * middle;
+      const bottom = middle - peaks[2 * x] * middle;
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+  }, [peaks, width]);
+
+  // Audio edits shift and renumber the regions, so the selection is dropped.
+  useEffect(() => {
+    setSelected(null);
+  }, [regions]);
+
+  const select = (index: number) => {
+    setSelected(index);
+    setEdit({ text: regions[index].text, ...voiceFor(regions[index]) });
+  };
+
+  const button = 'px-2 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed';
+  const selectClass = 'bg-gray-900 border border-gray-600 text-white rounded-lg px-2 py-1';
+
+  return (
+    <div className="space-y-2 text-xs text-gray-400">
+      <div className="flex items-center justify-between">
+        <span className="font-medium uppercase tracking-wider">Editor</span>
+        <div className="flex items-center gap-2">
+          <button onClick={onUndo} disabled={disabled || !canUndo} className={button} title="Undo">
+            <i className="fas fa-undo"></i>
+          </button>
+          <button onClick={onRedo} disabled={disabled || !canRedo} className={button} title="Redo">
+            <i className="fas fa-redo"></i>
+          </button>
+          <button onClick={() => setZoom(zoom - 1)} disabled={zoom === 0} className={button} title="Zoom out">
+            <i className="fas fa-search-minus"></i>
+          </button>
+          <button onClick={() => setZoom(zoom + 1)} disabled={zoom === WAVEFORM_ZOOM_LEVELS.length - 1} className={button} title="Zoom in">
+            <i className="fas fa-search-plus"></i>
+          </button>
+        </div>
+      </div>
+      <div className="overflow-x-auto scrollbar-thin scrollbar-thumb-gray-700 bg-gray-900/50 rounded-lg border border-gray-700">
+        <div className="relative" style={{ width, height: HEIGHT }}>
+          <canvas ref={canvasRef} width={width} height={HEIGHT} className="absolute inset-0" />
+          {regions.map((r, index) => (
+            <button
+              key={index}
+              onClick={() => select(index)}
+              title={r.text}
+              className={`absolute top-0 h-full border-x transition-colors ${
+                index === selected
+                  ? 'bg-cyan-500/30 border-cyan-400'
+                  : `${index % 2 === 0 ? 'bg-white/5' : 'bg-transparent'} border-gray-600/50 hover:bg-cyan-500/10`
+              }`}
+              style={{ left: r.start * pixelsPerSecond, width: Math.max(1, (r.end - r.start) * pixelsPerSecond) }}
+            />
+          ))}
+        </div>
+      </div>
+      {region ? (
+        <div className="space-y-2">
+          <textarea
+            value={edit.text}
+            onChange={(e) => setEdit({ ...edit, text: e.target.value })}
+            rows={2}
+            className="w-full p-2 bg-gray-900 border border-gray-600 rounded-lg text-white text-sm resize-none focus:ring-2 focus:ring-cyan-500"
+          />
+          {markupErrors.length > 0 && (
+            <ul className="bg-red-500/10 border border-red-500/20 text-red-400 p-2 rounded-lg font-mono space-y-1">
+              {markupErrors.map((markupError, index) => <li key={index}>{markupError}</li>)}
+            </ul>
+          )}
+          <div className="flex flex-wrap items-center gap-3">
+            <select value={edit.voice} onChange={(e) => setEdit({ ...edit, voice: e.target.value })} className={selectClass}>
+              {VOICES.map(voice => <option key={voice.value} value={voice.value}>{voice.label}</option>)}
+            </select>
+            <select value={edit.tone} onChange={(e) => setEdit({ ...edit, tone: e.target.value })} className={selectClass}>
+              {TONES.map(tone => <option key={tone.value} value={tone.value}>{tone.label}</option>)}
+            </select>
+            <span className="font-mono">
+              {region.start.toFixed(2)}s – {region.end.toFixed(2)}s
+            </span>
+            <button
+              onClick={() => onRegenerate(region, { ...edit, text: edit.text.trim() })}
+              disabled={disabled || isRegenerating || !edit.text.trim() || markupErrors.length > 0}
+              className={`${button} ml-auto`}
+            >
+              {isRegenerating ? 'Regenerating…' : 'Regenerate sentence'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-gray-500">Select a sentence to re-record it with new text, voice or tone.</p>
+      )}
+    </div>
+  );
+};
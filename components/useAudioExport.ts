@@ -0,0 +1,87 @@
+import { useCallback, useState } from 'react';
+import { exportAudio } from '../services/exportService';
+import type { WordTiming } from '../types';
+import { concatenateChunks } from '../utils/audio';
+import { ChapterSpan, chapterFileName } from '../utils/audiobook';
+import { CaptionFormat, formatCaptions, getCaptionFormat, scaleWordTimings } from '../utils/captions';
+import type { DocumentChapter } from '../utils/documentImport';
+import { downloadBlob } from '../utils/download';
+import { ExportFormat, ExportOptions, getExportFormat, textComment } from '../utils/exportFormats';
+import type { MasteringSettings } from '../utils/mastering';
+import type { MusicBed, MusicBedSettings } from '../utils/musicBed';
+import type { TimeStretchSettings } from '../utils/timeStretch';
+import { createZip } from '../utils/zip';
+
+interface AudioExportOptions {
+  audioChunks: AudioBuffer[];
+  // Timings in the unprocessed audio and on the player's timeline.
+  wordTimings: WordTiming[];
+  playbackTimings: WordTiming[];
+  timeStretch: TimeStretchSettings;
+  mastering: MasteringSettings;
+  musicBed: MusicBed | null;
+  musicBedSettings: MusicBedSettings;
+  // The imported book's chapters, when there is one.
+  chapters: DocumentChapter[] | null;
+  sourceChapters: ChapterSpan[] | null;
+  playbackChapters: ChapterSpan[] | null;
+  baseName: string;
+  onError: (message: string) => void;
+}
+
+// The downloads offered by ExportMenu.
+export const useAudioExport = ({
+  audioChunks, wordTimings, playbackTimings, timeStretch, mastering, musicBed, musicBedSettings,
+  chapters, sourceChapters, playbackChapters, baseName, onError,
+}: AudioExportOptions) => {
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+
+  // With `splitChapters`, every chapter is cut from the unprocessed audio and
+  // exported on its own with the same settings, and the files are zipped.
+  // A single file gets chapter markers instead.
+  const download = useCallback(async (format: ExportFormat, options: ExportOptions, splitChapters: boolean) => {
+    if (audioChunks.length === 0) return;
+    const { extension } = getExportFormat(format);
+    const sampleRate = audioChunks[0].sampleRate;
+    const samples = concatenateChunks(audioChunks);
+    const exportOptions: ExportOptions = {
+      ...options,
+      mastering: mastering.enabled ? mastering : undefined,
+      musicBed: musicBed && musicBedSettings.enabled ? { bed: musicBed, settings: musicBedSettings } : undefined,
+    };
+    setIsExporting(true);
+    try {
+      if (splitChapters && sourceChapters) {
+        const files = [];
+        for (const [index, chapter] of sourceChapters.entries()) {
+          const slice = samples.subarray(Math.round(chapter.start * sampleRate), Math.round(chapter.end * sampleRate));
+          const blob = await exportAudio(slice, sampleRate, format, {
+            ...exportOptions,
+            metadata: { ...options.metadata, title: chapter.title, comment: options.metadata?.comment && textComment(chapters?.[index].text ?? '') },
+          });
+          files.push({ name: chapterFileName(index, sourceChapters.length, chapter.title, extension), data: new Uint8Array(await blob.arrayBuffer()) });
+        }
+        downloadBlob(new Blob([createZip(files)], { type: 'application/zip' }), `${baseName}.zip`);
+        return;
+      }
+      const speed = options.timeStretch?.speed ?? 1;
+      const markers = playbackChapters?.map(chapter => ({ title: chapter.title, start: chapter.start / speed }));
+      const blob = await exportAudio(samples, sampleRate, format, { ...exportOptions, metadata: { ...options.metadata, chapters: markers } });
+      downloadBlob(blob, `${baseName}.${extension}`);
+    } catch (e) {
+      console.error(e);
+      onError(`Export failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [audioChunks, chapters, baseName, mastering, musicBed, musicBedSettings, sourceChapters, playbackChapters, onError]);
+
+  const downloadCaptions = useCallback((format: CaptionFormat, stretched: boolean) => {
+    if (wordTimings.length === 0) return;
+    const info = getCaptionFormat(format);
+    const timings = stretched ? scaleWordTimings(playbackTimings, timeStretch.speed) : playbackTimings;
+    downloadBlob(new Blob([formatCaptions(timings, format)], { type: info.mimeType }), `generated-speech.${info.extension}`);
+  }, [wordTimings, playbackTimings, timeStretch]);
+
+  return { isExporting, download, downloadCaptions };
+};
@@ -0,0 +1,143 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { WordTiming } from '../types';
+import { chapterIndexAt, chapterSource, chapterSpans, chapterSpansFromStarts } from '../utils/audiobook';
+import { ImportedDocument, importDocument } from '../utils/documentImport';
+import { mapTimeThroughCuts } from '../utils/mastering';
+import { parseMarkup } from '../utils/markup';
+import type { ChapterListItem } from './ChapterList';
+import type { ProcessedTimeline } from './useMastering';
+import type { SegmentProgressItem } from './SegmentProgress';
+
+interface AudiobookOptions {
+  voice: string;
+  tone: string;
+  // The document was read; the editor should show it in place of the text.
+  onImported: (document: ImportedDocument) => void;
+  onError: (message: string) => void;
+}
+
+// An imported document; while set, its chapters are what gets synthesized.
+export const useAudiobook = ({ voice, tone, onImported, onError }: AudiobookOptions) => {
+  const [audiobook, setAudiobook] = useState<ImportedDocument | null>(null);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  // Number of segment requests planned for each chapter, in order.
+  const [segmentCounts, setSegmentCounts] = useState<number[] | null>(null);
+  // Where each chapter's audio starts, once a generated book is aligned. Books
+  // opened from the library or edited since place chapters by their words.
+  const [starts, setStarts] = useState<number[] | null>(null);
+
+  const markups = useMemo(
+    () => audiobook ? audiobook.chapters.map(chapter => parseMarkup(chapterSource(chapter), { voice, tone })) : null,
+    [audiobook, voice, tone]
+  );
+  const titles = useMemo(() => audiobook?.chapters.map(chapter => chapter.title) ?? [], [audiobook]);
+  const baseName = audiobook?.title.replace(/[\\/:*?"<>|]+/g, '').trim() || 'generated-speech';
+
+  // The document's chapters replace the text; each is read as its title
+  // followed by the body, with the text itself taken literally.
+  const importFile = useCallback(async (file: File) => {
+    setIsImporting(true);
+    try {
+      const document = await importDocument(file);
+      onImported(document);
+      setAudiobook(document);
+    } catch (e) {
+      console.error(e);
+      onError(`Could not import "${file.name}": ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [onImported, onError]);
+
+  // Forgets the chapter layout of the last generation.
+  const resetTimeline = useCallback(() => {
+    setSegmentCounts(null);
+    setStarts(null);
+  }, []);
+
+  return {
+    audiobook,
+    setAudiobook,
+    isImporting,
+    importFile,
+    markups,
+    titles,
+    baseName,
+    segmentCounts,
+    setSegmentCounts,
+    starts,
+    setStarts,
+    resetTimeline,
+  };
+};
+
+interface AudiobookChaptersOptions {
+  book: ReturnType<typeof useAudiobook>;
+  lineWords: string[][];
+  words: string[];
+  // Timings in the unprocessed audio and on the player's timeline.
+  wordTimings: WordTiming[];
+  playbackTimings: WordTiming[];
+  processed: ProcessedTimeline | null;
+  // Length of the unprocessed audio, or null while there is none.
+  sourceDuration: number | null;
+  totalDuration: number;
+  currentTime: number;
+  segments: SegmentProgressItem[];
+}
+
+// Chapter positions on the player's timeline and in the unprocessed audio, as
+// ChapterList shows them. A generated book knows where each chapter's audio
+// starts; otherwise they are placed by their words, which needs a timing for
+// every word.
+export const useAudiobookChapters = ({
+  book, lineWords, words, wordTimings, playbackTimings, processed, sourceDuration, totalDuration, currentTime, segments,
+}: AudiobookChaptersOptions) => {
+  const { audiobook, titles, segmentCounts } = book;
+  const knownStarts = book.starts && book.starts.length === titles.length ? book.starts : null;
+
+  const playbackChapters = useMemo(() => {
+    if (!audiobook) return null;
+    if (knownStarts) {
+      const starts = processed
+        ? knownStarts.map((start, index) => index === 0 ? 0 : mapTimeThroughCuts(start, processed.cuts) + processed.speechOffset)
+        : knownStarts;
+      return chapterSpansFromStarts(titles, starts, totalDuration);
+    }
+    return playbackTimings.length > 0 && playbackTimings.length === words.length
+      ? chapterSpans(titles, lineWords.map(line => line.length), playbackTimings, totalDuration)
+      : null;
+  }, [audiobook, titles, knownStarts, processed, lineWords, words, playbackTimings, totalDuration]);
+
+  const sourceChapters = useMemo(() => {
+    if (!audiobook || sourceDuration === null) return null;
+    if (knownStarts) return chapterSpansFromStarts(titles, knownStarts, sourceDuration);
+    return wordTimings.length === words.length
+      ? chapterSpans(titles, lineWords.map(line => line.length), wordTimings, sourceDuration)
+      : null;
+  }, [audiobook, titles, knownStarts, lineWords, words, wordTimings, sourceDuration]);
+
+  const items = useMemo((): ChapterListItem[] => {
+    let firstSegment = 0;
+    return titles.map((title, index) => {
+      const count = segmentCounts?.[index] ?? 0;
+      const chapterSegments = segments.slice(firstSegment, firstSegment + count);
+      firstSegment += count;
+      return {
+        title,
+        words: lineWords[index]?.length ?? 0,
+        start: playbackChapters?.[index].start,
+        end: playbackChapters?.[index].end,
+        progress: chapterSegments.length > 0 ? {
+          done: chapterSegments.filter(segment => segment.status === 'done').length,
+          failed: chapterSegments.filter(segment => segment.status === 'failed').length,
+          total: chapterSegments.length,
+        } : undefined,
+      };
+    });
+  }, [titles, segmentCounts, segments, lineWords, playbackChapters]);
+
+  const currentIndex = playbackChapters ? chapterIndexAt(playbackChapters, currentTime) : -1;
+
+  return { playbackChapters, sourceChapters, items, currentIndex };
+};
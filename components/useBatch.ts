@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from 'react';
+import { BatchQueue, BatchQueueState, createBatchQueue } from '../services/batchQueue';
+import { exportAudio } from '../services/exportService';
+import { formatBatchManifest, parseBatchCsv } from '../utils/batch';
+import { downloadBlob } from '../utils/download';
+import { ExportFormat, getExportFormat, textComment } from '../utils/exportFormats';
+import { createZip } from '../utils/zip';
+
+interface BatchOptions {
+  // Fill in rows that leave the voice or tone empty.
+  voice: string;
+  tone: string;
+  bypassCache: boolean;
+  onError: (message: string) => void;
+}
+
+// Batch mode runs imported CSV rows through its own queue, apart from the editor.
+export const useBatch = ({ voice, tone, bypassCache, onError }: BatchOptions) => {
+  const [queue, setQueue] = useState<BatchQueue | null>(null);
+  const [state, setState] = useState<BatchQueueState | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [format, setFormat] = useState<ExportFormat>('wav');
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+
+  useEffect(() => {
+    setState(queue?.state() ?? null);
+    return queue?.subscribe(() => setState(queue.state()));
+  }, [queue]);
+
+  // Rows with problems are reported and left out; the rest form a new queue,
+  // which waits for Start.
+  const importFile = useCallback(async (file: File) => {
+    try {
+      const { rows, errors } = parseBatchCsv(await file.text(), { voice, tone });
+      setImportErrors(errors);
+      if (rows.length === 0) return;
+      queue?.cancel();
+      setQueue(createBatchQueue(rows, { bypassCache }));
+    } catch (e) {
+      setImportErrors([`Could not import "${file.name}": ${e instanceof Error ? e.message : String(e)}`]);
+    }
+  }, [voice, tone, queue, bypassCache]);
+
+  const clear = useCallback(() => {
+    queue?.cancel();
+    setQueue(null);
+    setImportErrors([]);
+  }, [queue]);
+
+  // Finished rows are named by their filename column; manifest.csv lists every
+  // row with its duration or error.
+  const download = useCallback(async () => {
+    if (!state) return;
+    const { extension } = getExportFormat(format);
+    setIsExporting(true);
+    try {
+      const files = [];
+      for (const { row, samples, sampleRate } of state.items) {
+        if (!samples || !sampleRate) continue;
+        const blob = await exportAudio(samples, sampleRate, format, { metadata: { title: row.id, comment: textComment(row.text) } });
+        files.push({ name: `${row.fileName}.${extension}`, data: new Uint8Array(await blob.arrayBuffer()) });
+      }
+      const manifest = formatBatchManifest(state.items.map(item => ({
+        row: item.row,
+        status: item.status,
+        duration: item.samples && item.sampleRate ? item.samples.length / item.sampleRate : undefined,
+        error: item.error,
+      })), extension);
+      files.push({ name: 'manifest.csv', data: new TextEncoder().encode(manifest) });
+      downloadBlob(new Blob([createZip(files)], { type: 'application/zip' }), 'batch.zip');
+    } catch (e) {
+      console.error(e);
+      onError(`Batch export failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [state, format, onError]);
+
+  return {
+    state,
+    importErrors,
+    format,
+    setFormat,
+    isExporting,
+    importFile,
+    start: () => queue?.start(),
+    pause: () => queue?.pause(),
+    retry: (index: number) => queue?.retry(index),
+    setConcurrency: (concurrency: number) => queue?.setConcurrency(concurrency),
+    download,
+    clear,
+  };
+};
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from 'react';
+import { createDubSession, DubSession, DubState } from '../services/dubbing';
+import { exportAudio } from '../services/exportService';
+import { formatCaptions } from '../utils/captions';
+import { downloadBlob } from '../utils/download';
+import { ExportFormat, getExportFormat, textComment } from '../utils/exportFormats';
+import { languageName } from '../utils/languages';
+import { createZip } from '../utils/zip';
+
+interface DubbingOptions {
+  text: string;
+  voice: string;
+  tone: string;
+  // Names the exported zip and titles each track.
+  baseName: string;
+  onError: (message: string) => void;
+}
+
+// Dub mode translates the editor text and synthesizes each language on its own.
+export const useDubbing = ({ text, voice, tone, baseName, onError }: DubbingOptions) => {
+  const [session, setSession] = useState<DubSession | null>(null);
+  const [state, setState] = useState<DubState | null>(null);
+  const [format, setFormat] = useState<ExportFormat>('wav');
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+
+  useEffect(() => {
+    setState(session?.state() ?? null);
+    return session?.subscribe(() => setState(session.state()));
+  }, [session]);
+
+  // Every language starts with the editor's voice; each can be changed while
+  // reviewing the translations.
+  const start = useCallback((languages: string[]) => {
+    session?.cancel();
+    const next = createDubSession(text, languages.map(language => ({ language, voice })), tone);
+    setSession(next);
+    next.translate();
+  }, [session, text, voice, tone]);
+
+  const clear = useCallback(() => {
+    session?.cancel();
+    setSession(null);
+  }, [session]);
+
+  // One audio file and one SRT per dubbed language, named by language tag.
+  const download = useCallback(async () => {
+    if (!state) return;
+    const { extension } = getExportFormat(format);
+    setIsExporting(true);
+    try {
+      const files = [];
+      for (const { language, translation, samples, sampleRate, timings } of state.tracks) {
+        if (!samples || !sampleRate) continue;
+        const blob = await exportAudio(samples, sampleRate, format, {
+          metadata: { title: `${baseName} (${languageName(language)})`, comment: textComment(translation) },
+        });
+        files.push({ name: `${language}.${extension}`, data: new Uint8Array(await blob.arrayBuffer()) });
+        if (timings) files.push({ name: `${language}.srt`, data: new TextEncoder().encode(formatCaptions(timings, 'srt')) });
+      }
+      downloadBlob(new Blob([createZip(files)], { type: 'application/zip' }), `${baseName}-dubs.zip`);
+    } catch (e) {
+      console.error(e);
+      onError(`Dub export failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [state, format, baseName, onError]);
+
+  return {
+    state,
+    format,
+    setFormat,
+    isExporting,
+    start,
+    retranslate: (index: number) => session?.translate(index),
+    editTranslation: (index: number, translation: string) => session?.editTranslation(index, translation),
+    setVoice: (index: number, trackVoice: string) => session?.setVoice(index, trackVoice),
+    synthesize: (index?: number) => session?.synthesize(index),
+    cancel: () => session?.cancel(),
+    download,
+    clear,
+  };
+};
@@ -0,0 +1,29 @@
+import { useCallback, useState } from 'react';
+import { getLexicon, setLexicon } from '../services/geminiService';
+import { downloadBlob } from '../utils/download';
+import { LexiconEntry, mergeLexicons, parseLexicon, serializeLexicon } from '../utils/lexicon';
+
+// The pronunciation lexicon edited in LexiconPanel. Changes apply to the next
+// request; audio already generated stays.
+export const useLexicon = ({ onError }: { onError: (message: string) => void }) => {
+  const [entries, setEntries] = useState<LexiconEntry[]>(() => getLexicon());
+
+  const change = useCallback((next: LexiconEntry[]) => {
+    setLexicon(next);
+    setEntries(next);
+  }, []);
+
+  const importFile = useCallback(async (file: File) => {
+    try {
+      change(mergeLexicons(entries, parseLexicon(await file.text())));
+    } catch (e) {
+      onError(`Could not import "${file.name}": ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, [entries, change, onError]);
+
+  const exportFile = useCallback(() => {
+    downloadBlob(new Blob([serializeLexicon(entries)], { type: 'application/json' }), 'lexicon.json');
+  }, [entries]);
+
+  return { entries, change, importFile, exportFile };
+};
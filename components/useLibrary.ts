@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from 'react';
+import { exportAudio } from '../services/exportService';
+import { deleteLibraryItem, getLibraryUsage, LibraryItem, LibraryUsage, listLibraryItems, loadLibraryAudio, renameLibraryItem, saveLibraryItem } from '../services/libraryService';
+import { downloadBlob } from '../utils/download';
+import { textComment } from '../utils/exportFormats';
+
+interface LibraryOptions {
+  // Puts a saved item's audio back into the player.
+  onOpen: (item: LibraryItem, samples: Float32Array) => Promise<void>;
+  onError: (message: string) => void;
+}
+
+// The saved generations listed in LibraryPanel, and the item now playing.
+export const useLibrary = ({ onOpen, onError }: LibraryOptions) => {
+  const [items, setItems] = useState<LibraryItem[]>([]);
+  const [usage, setUsage] = useState<LibraryUsage | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, libraryUsage] = await Promise.all([listLibraryItems(), getLibraryUsage()]);
+      setItems(list);
+      setUsage(libraryUsage);
+    } catch (e) {
+      console.warn("Library unavailable:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Saving is best effort; the audio stays playable if the library is full or missing.
+  const save = useCallback((item: Omit<LibraryItem, 'sizeBytes' | 'duration'>, samples: Float32Array) => {
+    saveLibraryItem(item, samples)
+      .then(refresh)
+      .catch(e => console.warn("Could not save to library:", e));
+  }, [refresh]);
+
+  const open = useCallback(async (item: LibraryItem) => {
+    try {
+      await onOpen(item, await loadLibraryAudio(item.id));
+      setActiveId(item.id);
+    } catch (e) {
+      console.error(e);
+      onError(`Could not open "${item.name}": ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, [onOpen, onError]);
+
+  const download = useCallback(async (item: LibraryItem) => {
+    try {
+      const samples = await loadLibraryAudio(item.id);
+      const blob = await exportAudio(samples, item.sampleRate, 'wav', { metadata: { title: item.name, comment: textComment(item.text) } });
+      downloadBlob(blob, `${item.name.replace(/[^\w\- ]+/g, '').trim() || 'generated-speech'}.wav`);
+    } catch (e) {
+      console.error(e);
+      onError(`Could not download "${item.name}": ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, [onError]);
+
+  const rename = useCallback(async (item: LibraryItem, name: string) => {
+    await renameLibraryItem(item.id, name).catch(e => console.warn("Rename failed:", e));
+    refresh();
+  }, [refresh]);
+
+  const remove = useCallback(async (item: LibraryItem) => {
+    if (!window.confirm(`Delete "${item.name}" from the library?`)) return;
+    await deleteLibraryItem(item.id).catch(e => console.warn("Delete failed:", e));
+    refresh();
+  }, [refresh]);
+
+  return { items, usage, activeId, setActiveId, save, open, download, rename, remove };
+};
@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import type { PlaybackEngine } from '../services/playbackEngine';
+import { concatenateChunks } from '../utils/audio';
+import { DEFAULT_MASTERING_SETTINGS, masterAudio, MasteringSettings, SilenceCut } from '../utils/mastering';
+import { mixWithBed, MusicBed, MusicBedSettings } from '../utils/musicBed';
+
+// Mastered audio and/or the music bed mix for a finished chunk list. While it
+// exists, it is what plays and what timeline positions refer to.
+export interface ProcessedTimeline {
+  source: AudioBuffer[];
+  buffer: AudioBuffer;
+  cuts: SilenceCut[];
+  // Where the speech starts in `buffer`, after the music bed intro.
+  speechOffset: number;
+  // Only measured when mastering is on.
+  loudness: { input: number; output: number } | null;
+}
+
+interface MasteringOptions {
+  engine: PlaybackEngine;
+  audioChunks: AudioBuffer[];
+  // False while the audio is still streaming.
+  isFinished: boolean;
+  musicBed: MusicBed | null;
+  musicBedSettings: MusicBedSettings;
+}
+
+// The settings in MasteringPanel and the processed timeline they produce
+// together with the music bed.
+export const useMastering = ({ engine, audioChunks, isFinished, musicBed, musicBedSettings }: MasteringOptions) => {
+  const [settings, setSettings] = useState<MasteringSettings>(DEFAULT_MASTERING_SETTINGS);
+  const [processed, setProcessed] = useState<ProcessedTimeline | null>(null);
+
+  // Mastering and the music bed mix run over the complete audio, so they start
+  // once the stream has finished and are redone whenever the audio or the
+  // settings change.
+  useEffect(() => {
+    const ctx = engine.context;
+    const bedActive = musicBed !== null && musicBedSettings.enabled;
+    const active = (settings.enabled || bedActive) && isFinished && audioChunks.length > 0 && ctx !== null;
+    if (!active) {
+      engine.setProcessed(null);
+      setProcessed(null);
+      return;
+    }
+
+    const sampleRate = audioChunks[0].sampleRate;
+    let samples = concatenateChunks(audioChunks);
+    let cuts: SilenceCut[] = [];
+    let loudness: ProcessedTimeline['loudness'] = null;
+    if (settings.enabled) {
+      const result = masterAudio(samples, sampleRate, settings);
+      samples = result.samples;
+      cuts = result.cuts;
+      loudness = { input: result.inputLufs, output: result.outputLufs };
+    }
+    if (bedActive) {
+      samples = mixWithBed(samples, sampleRate, musicBed, musicBedSettings);
+    }
+    const buffer = ctx.createBuffer(1, Math.max(1, samples.length), sampleRate);
+    buffer.copyToChannel(samples, 0);
+    const speechOffset = bedActive ? Math.round(musicBedSettings.introSeconds * sampleRate) / sampleRate : 0;
+    const timeline = { source: audioChunks, buffer, cuts, speechOffset, loudness };
+    engine.setProcessed(timeline);
+    setProcessed(timeline);
+  }, [engine, settings, musicBed, musicBedSettings, isFinished, audioChunks]);
+
+  return { settings, setSettings, processed };
+};
@@ -0,0 +1,28 @@
+import { useCallback, useState } from 'react';
+import { getActiveProvider } from '../services/geminiService';
+import { decodeAudioFile } from '../utils/audio';
+import { DEFAULT_MUSIC_BED_SETTINGS, MusicBed, MusicBedSettings } from '../utils/musicBed';
+
+// The background track chosen in MusicBedPanel. Loading one turns it on.
+export const useMusicBed = ({ onError }: { onError: (message: string) => void }) => {
+  const [bed, setBed] = useState<MusicBed | null>(null);
+  const [settings, setSettings] = useState<MusicBedSettings>(DEFAULT_MUSIC_BED_SETTINGS);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const load = useCallback(async (file: File) => {
+    setIsLoading(true);
+    try {
+      const sampleRate = getActiveProvider().capabilities.outputSampleRate;
+      const samples = await decodeAudioFile(file, sampleRate);
+      setBed({ name: file.name, samples, sampleRate });
+      setSettings(current => ({ ...current, enabled: true }));
+    } catch (e) {
+      console.error(e);
+      onError(`Could not read "${file.name}" as audio.`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onError]);
+
+  return { bed, settings, setSettings, isLoading, load, remove: () => setBed(null) };
+};
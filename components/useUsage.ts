@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { usageLog } from '../services/geminiService';
+import { downloadBlob } from '../utils/download';
+import { budgetLevel, formatUsageCsv, formatUsageMetric, summarizeUsage, UsageBudget, UsageRecord, usageDay, usageMetricValue } from '../utils/usage';
+
+// The usage log as UsagePanel shows it, kept in sync with every request.
+export const useUsage = () => {
+  const [records, setRecords] = useState<UsageRecord[]>(() => usageLog.records());
+  const [budget, setBudget] = useState<UsageBudget>(() => usageLog.budget());
+
+  useEffect(() => usageLog.subscribe(() => {
+    setRecords(usageLog.records());
+    setBudget(usageLog.budget());
+  }), []);
+
+  // Shown while the session is past either budget limit; a hard limit also
+  // makes the service refuse new requests.
+  const warning = useMemo(() => {
+    const session = summarizeUsage(records.filter(record => record.time >= usageLog.sessionStart));
+    const level = budgetLevel(session, budget);
+    if (level === 'ok') return null;
+    const used = formatUsageMetric(usageMetricValue(session, budget.metric), budget.metric);
+    return level === 'hard'
+      ? `Usage budget reached (${used}). Generation is blocked until the limit is raised.`
+      : `This session has used ${used}, past its warning limit of ${formatUsageMetric(budget.soft!, budget.metric)}.`;
+  }, [records, budget]);
+
+  const exportCsv = useCallback(() => {
+    downloadBlob(new Blob([formatUsageCsv(records)], { type: 'text/csv' }), `usage-${usageDay(Date.now())}.csv`);
+  }, [records]);
+
+  return {
+    records,
+    budget,
+    warning,
+    sessionStart: usageLog.sessionStart,
+    setBudget: usageLog.setBudget,
+    clear: usageLog.clear,
+    exportCsv,
+  };
+};
@@ -0,0 +1,59 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import type { WordTiming } from '../types';
+import { AudiogramSettings, renderAudiogram } from '../utils/audiogram';
+import { scaleWordTimings } from '../utils/captions';
+import { downloadBlob } from '../utils/download';
+import { applyTimeStretch, isNeutralTimeStretch, TimeStretchSettings } from '../utils/timeStretch';
+import type { ProcessedTimeline } from './useMastering';
+
+interface VideoExportOptions {
+  // The unprocessed audio, or null while there is none to render.
+  samples: Float32Array | null;
+  sampleRate: number;
+  processed: ProcessedTimeline | null;
+  timeStretch: TimeStretchSettings;
+  // Timings on the processed timeline, at normal speed.
+  timings: WordTiming[];
+  baseName: string;
+  onError: (message: string | null) => void;
+}
+
+// Renders the audiogram from VideoExportPanel. The video shows what the player
+// plays: the processed audio when mastering or a music bed is on, at the
+// chosen speed.
+export const useVideoExport = ({ samples, sampleRate, processed, timeStretch, timings, baseName, onError }: VideoExportOptions) => {
+  // Fraction of video frames rendered, while an export runs.
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const videoSamples = useMemo(
+    () => processed ? processed.buffer.getChannelData(0) : samples,
+    [processed, samples]
+  );
+
+  const render = useCallback(async (settings: AudiogramSettings) => {
+    if (!videoSamples) return;
+    const stretched = isNeutralTimeStretch(timeStretch) ? videoSamples : applyTimeStretch(videoSamples, sampleRate, timeStretch);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    onError(null);
+    try {
+      const blob = await renderAudiogram(stretched, sampleRate, scaleWordTimings(timings, timeStretch.speed), settings, {
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      downloadBlob(blob, `${baseName}.webm`);
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        console.error(e);
+        onError(`Video export failed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  }, [videoSamples, sampleRate, timeStretch, timings, baseName, onError]);
+
+  return { samples: videoSamples, progress, render, cancel: () => abortRef.current?.abort() };
+};
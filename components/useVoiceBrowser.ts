@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { TONES, VOICES } from '../constants';
+import { describeSpeechError, getActiveProvider, VoiceOption } from '../services/geminiService';
+import type { PlaybackEngine } from '../services/playbackEngine';
+import { auditionVoice, getCustomStyles, getFavouriteVoices, setCustomStyles, setFavouriteVoices } from '../services/voiceCatalog';
+
+interface VoiceBrowserOptions {
+  engine: PlaybackEngine;
+  // Voices are listed again whenever the provider changes.
+  providerId: string;
+  tone: string;
+  onError: (message: string) => void;
+}
+
+// Voices the active provider offers, with favourites and saved styles kept
+// locally, and the audition playing from VoiceBrowser.
+export const useVoiceBrowser = ({ engine, providerId, tone, onError }: VoiceBrowserOptions) => {
+  const [voices, setVoices] = useState<VoiceOption[]>(VOICES);
+  const [favourites, setFavourites] = useState<string[]>(() => getFavouriteVoices());
+  const [customStyles, setCustomStylesState] = useState<string[]>(() => getCustomStyles());
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [auditioning, setAuditioning] = useState<string | null>(null);
+  const auditionSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const auditionRequestRef = useRef<number>(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    getActiveProvider().listVoices()
+      .then(list => { if (!cancelled) setVoices(list); })
+      .catch(e => console.warn("Could not list voices:", e));
+    return () => { cancelled = true; };
+  }, [providerId]);
+
+  const toggleFavourite = useCallback((voice: string) => {
+    const next = favourites.includes(voice) ? favourites.filter(v => v !== voice) : [...favourites, voice];
+    setFavouriteVoices(next);
+    setFavourites(next);
+  }, [favourites]);
+
+  const saveCustomStyle = useCallback((style: string, saved: boolean) => {
+    const next = saved ? [...customStyles.filter(s => s !== style), style] : customStyles.filter(s => s !== style);
+    setCustomStyles(next);
+    setCustomStylesState(next);
+  }, [customStyles]);
+
+  // Plays a short sample in the current tone, straight to the speakers so it
+  // does not disturb the generated audio. Playing the same voice again stops it.
+  const audition = useCallback(async (voice: string) => {
+    const request = ++auditionRequestRef.current;
+    auditionSourceRef.current?.stop();
+    auditionSourceRef.current = null;
+    if (auditioning === voice) {
+      setAuditioning(null);
+      return;
+    }
+    setAuditioning(voice);
+    try {
+      const ctx = await engine.ensureContext();
+      const { samples, sampleRate } = await auditionVoice(voice, tone.trim() || TONES[0].value);
+      if (request !== auditionRequestRef.current) return;
+      const buffer = ctx.createBuffer(1, samples.length, sampleRate);
+      buffer.copyToChannel(samples, 0);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => {
+        if (auditionSourceRef.current !== source) return;
+        auditionSourceRef.current = null;
+        setAuditioning(null);
+      };
+      auditionSourceRef.current = source;
+      source.start();
+    } catch (e) {
+      if (request !== auditionRequestRef.current) return;
+      setAuditioning(null);
+      onError(`Could not audition ${voice}: ${describeSpeechError(e)}`);
+    }
+  }, [auditioning, tone, engine, onError]);
+
+  return { voices, favourites, customStyles, isOpen, setIsOpen, auditioning, toggleFavourite, saveCustomStyle, audition };
+};
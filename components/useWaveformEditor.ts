@@ -0,0 +1,150 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { EDIT_HISTORY_LIMIT } from '../constants';
+import { describeSpeechError, getActiveProvider, synthesizeSegment } from '../services/geminiService';
+import type { PlaybackEngine } from '../services/playbackEngine';
+import type { WordTiming } from '../types';
+import { alignWords } from '../utils/alignment';
+import { concatenateChunks, decode, decodeAudioData } from '../utils/audio';
+import { formatMarkupPosition, parseMarkup, planMarkupRequests } from '../utils/markup';
+import { buildSentenceRegions, SentenceRegion, spliceLineWords, spliceSamples, spliceWordTimings } from '../utils/sentenceEditor';
+import { resampleByStep } from '../utils/timeStretch';
+import type { RegionEdit } from './WaveformEditor';
+
+// Audio, timings and spoken words as they were before or after one editor
+// change, for undo and redo.
+export interface EditSnapshot {
+  chunks: AudioBuffer[];
+  timings: WordTiming[];
+  lineWords: string[][];
+}
+
+interface WaveformEditorOptions {
+  engine: PlaybackEngine;
+  audioChunks: AudioBuffer[];
+  wordTimings: WordTiming[];
+  // Words as the text reads them, before any sentence was re-recorded.
+  sourceLineWords: string[][];
+  // The unprocessed audio, or null while there is none to edit.
+  samples: Float32Array | null;
+  canEdit: boolean;
+  bypassCache: boolean;
+  // Makes a snapshot's audio and timings the current ones.
+  onApply: (snapshot: EditSnapshot) => void;
+  onError: (message: string | null) => void;
+}
+
+// Sentence editing in WaveformEditor, with its undo history. Sentences
+// re-recorded in the editor replace words without touching the text.
+export const useWaveformEditor = ({
+  engine, audioChunks, wordTimings, sourceLineWords, samples, canEdit, bypassCache, onApply, onError,
+}: WaveformEditorOptions) => {
+  const [editedLineWords, setEditedLineWords] = useState<string[][] | null>(null);
+  const [history, setHistory] = useState<{ undo: EditSnapshot[]; redo: EditSnapshot[] }>({ undo: [], redo: [] });
+  const [isRegenerating, setIsRegenerating] = useState<boolean>(false);
+  // Bumped on reset, so a sentence still being synthesized is not spliced
+  // into audio it no longer belongs to.
+  const epochRef = useRef<number>(0);
+
+  const lineWords = editedLineWords ?? sourceLineWords;
+  const words = useMemo(() => lineWords.flat(), [lineWords]);
+  const regions = useMemo(
+    () => samples && wordTimings.length > 0 && wordTimings.length === words.length
+      ? buildSentenceRegions(lineWords, wordTimings, samples.length / audioChunks[0].sampleRate)
+      : [],
+    [samples, wordTimings, words, lineWords, audioChunks]
+  );
+
+  const apply = useCallback((snapshot: EditSnapshot) => {
+    setEditedLineWords(snapshot.lineWords);
+    onApply(snapshot);
+  }, [onApply]);
+
+  // Synthesizes the new sentence on its own and splices it over the old one.
+  // Its markup is read like the main editor's; the editor refuses text with
+  // markup errors, so they are only reported here as a fallback.
+  const regenerate = useCallback(async (region: SentenceRegion, edit: RegionEdit) => {
+    if (!samples || !canEdit || isRegenerating) return;
+    const parsed = parseMarkup(edit.text, { voice: edit.voice, tone: edit.tone });
+    if (parsed.errors.length > 0) {
+      onError(`Fix the markup first. ${parsed.errors.map(e => `Line ${formatMarkupPosition(edit.text, e.offset)}: ${e.message}`).join(' ')}`);
+      return;
+    }
+    const epoch = epochRef.current;
+    const sampleRate = audioChunks[0].sampleRate;
+    const providerRate = getActiveProvider().capabilities.outputSampleRate;
+    const ctx = await engine.ensureContext();
+    const decoded: Promise<AudioBuffer>[] = [];
+
+    setIsRegenerating(true);
+    onError(null);
+    try {
+      // A retry restarts only its own request, so only that request's chunks are dropped.
+      for (const request of planMarkupRequests(parsed.segments)) {
+        const requestStart = decoded.length;
+        await synthesizeSegment(request, chunk => {
+          decoded.push(decodeAudioData(decode(chunk), ctx, providerRate, 1));
+        }, { bypassCache, onRetry: () => { decoded.length = requestStart; } });
+      }
+      let replacement = concatenateChunks(await Promise.all(decoded));
+      if (epoch !== epochRef.current) return;
+      if (providerRate !== sampleRate) replacement = resampleByStep(replacement, providerRate / sampleRate);
+
+      const spliced = spliceSamples(
+        samples, Math.round(region.start * sampleRate), Math.round(region.end * sampleRate), replacement, sampleRate
+      );
+      const newWords = parsed.plainText.split(/\s+/).filter(word => word.length > 0);
+      const timings = spliceWordTimings(
+        wordTimings, region, alignWords(replacement, sampleRate, newWords),
+        spliced.replacementStart / sampleRate, (spliced.samples.length - samples.length) / sampleRate
+      );
+      const buffer = ctx.createBuffer(1, spliced.samples.length, sampleRate);
+      buffer.copyToChannel(spliced.samples, 0);
+
+      const current = { chunks: audioChunks, timings: wordTimings, lineWords };
+      setHistory(previous => ({ undo: [...previous.undo, current].slice(-EDIT_HISTORY_LIMIT), redo: [] }));
+      apply({ chunks: [buffer], timings, lineWords: spliceLineWords(lineWords, region, newWords) });
+    } catch (e) {
+      if (epoch !== epochRef.current) return;
+      console.error(e);
+      onError(`Could not regenerate the sentence. ${describeSpeechError(e)}`);
+    } finally {
+      setIsRegenerating(false);
+    }
+  }, [samples, canEdit, isRegenerating, audioChunks, wordTimings, lineWords, bypassCache, engine, apply, onError]);
+
+  const undo = useCallback(() => {
+    const previous = history.undo[history.undo.length - 1];
+    if (!previous || !canEdit) return;
+    const current = { chunks: audioChunks, timings: wordTimings, lineWords };
+    setHistory({ undo: history.undo.slice(0, -1), redo: [...history.redo, current] });
+    apply(previous);
+  }, [history, canEdit, audioChunks, wordTimings, lineWords, apply]);
+
+  const redo = useCallback(() => {
+    const next = history.redo[history.redo.length - 1];
+    if (!next || !canEdit) return;
+    const current = { chunks: audioChunks, timings: wordTimings, lineWords };
+    setHistory({ undo: [...history.undo, current], redo: history.redo.slice(0, -1) });
+    apply(next);
+  }, [history, canEdit, audioChunks, wordTimings, lineWords, apply]);
+
+  // Forgets every edit, for new audio.
+  const reset = useCallback(() => {
+    epochRef.current++;
+    setEditedLineWords(null);
+    setHistory({ undo: [], redo: [] });
+  }, []);
+
+  return {
+    lineWords,
+    words,
+    regions,
+    isRegenerating,
+    canUndo: history.undo.length > 0,
+    canRedo: history.redo.length > 0,
+    regenerate,
+    undo,
+    redo,
+    reset,
+  };
+};
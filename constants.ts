@@ -1,10 +1,42 @@
+import type { VoiceOption } from './services/speechProvider';
 
-export const VOICES = [
-  { value: 'Kore', label: 'Kore (Female)' },
-  { value: 'Puck', label: 'Puck (Male)' },
-  { value: 'Charon', label: 'Charon (Male, Deep)' },
-  { value: 'Fenrir', label: 'Fenrir (Male, Aged)' },
-  { value: 'Zephyr', label: 'Zephyr (Female)' },
+// Every prebuilt voice speaks every supported language; the language is
+// detected from the text.
+export const GEMINI_LANGUAGES = ['ar-EG', 'bn-BD', 'de-DE', 'en-IN', 'en-US', 'es-US', 'fr-FR', 'hi-IN', 'id-ID', 'it-IT', 'ja-JP', 'ko-KR', 'mr-IN', 'nl-NL', 'pl-PL', 'pt-BR', 'ro-RO', 'ru-RU', 'ta-IN', 'te-IN', 'th-TH', 'tr-TR', 'uk-UA', 'vi-VN'];
+
+// The first five keep their order: dialogue speakers are assigned voices
+// round-robin from the start of this list.
+export const VOICES: VoiceOption[] = [
+  { value: 'Kore', label: 'Kore (Female, Firm)', gender: 'female', description: 'Firm', languages: GEMINI_LANGUAGES },
+  { value: 'Puck', label: 'Puck (Male, Upbeat)', gender: 'male', description: 'Upbeat', languages: GEMINI_LANGUAGES },
+  { value: 'Charon', label: 'Charon (Male, Informative)', gender: 'male', description: 'Informative', languages: GEMINI_LANGUAGES },
+  { value: 'Fenrir', label: 'Fenrir (Male, Excitable)', gender: 'male', description: 'Excitable', languages: GEMINI_LANGUAGES },
+  { value: 'Zephyr', label: 'Zephyr (Female, Bright)', gender: 'female', description: 'Bright', languages: GEMINI_LANGUAGES },
+  { value: 'Leda', label: 'Leda (Female, Youthful)', gender: 'female', description: 'Youthful', languages: GEMINI_LANGUAGES },
+  { value: 'Orus', label: 'Orus (Male, Firm)', gender: 'male', description: 'Firm', languages: GEMINI_LANGUAGES },
+  { value: 'Aoede', label: 'Aoede (Female, Breezy)', gender: 'female', description: 'Breezy', languages: GEMINI_LANGUAGES },
+  { value: 'Callirrhoe', label: 'Callirrhoe (Female, Easy-going)', gender: 'female', description: 'Easy-going', languages: GEMINI_LANGUAGES },
+  { value: 'Autonoe', label: 'Autonoe (Female, Bright)', gender: 'female', description: 'Bright', languages: GEMINI_LANGUAGES },
+  { value: 'Enceladus', label: 'Enceladus (Male, Breathy)', gender: 'male', description: 'Breathy', languages: GEMINI_LANGUAGES },
+  { value: 'Iapetus', label: 'Iapetus (Male, Clear)', gender: 'male', description: 'Clear', languages: GEMINI_LANGUAGES },
+  { value: 'Umbriel', label: 'Umbriel (Male, Easy-going)', gender: 'male', description: 'Easy-going', languages: GEMINI_LANGUAGES },
+  { value: 'Algieba', label: 'Algieba (Male, Smooth)', gender: 'male', description: 'Smooth', languages: GEMINI_LANGUAGES },
+  { value: 'Despina', label: 'Despina (Female, Smooth)', gender: 'female', description: 'Smooth', languages: GEMINI_LANGUAGES },
+  { value: 'Erinome', label: 'Erinome (Female, Clear)', gender: 'female', description: 'Clear', languages: GEMINI_LANGUAGES },
+  { value: 'Algenib', label: 'Algenib (Male, Gravelly)', gender: 'male', description: 'Gravelly', languages: GEMINI_LANGUAGES },
+  { value: 'Rasalgethi', label: 'Rasalgethi (Male, Informative)', gender: 'male', description: 'Informative', languages: GEMINI_LANGUAGES },
+  { value: 'Laomedeia', label: 'Laomedeia (Female, Upbeat)', gender: 'female', description: 'Upbeat', languages: GEMINI_LANGUAGES },
+  { value: 'Achernar', label: 'Achernar (Female, Soft)', gender: 'female', description: 'Soft', languages: GEMINI_LANGUAGES },
+  { value: 'Alnilam', label: 'Alnilam (Male, Firm)', gender: 'male', description: 'Firm', languages: GEMINI_LANGUAGES },
+  { value: 'Schedar', label: 'Schedar (Male, Even)', gender: 'male', description: 'Even', languages: GEMINI_LANGUAGES },
+  { value: 'Gacrux', label: 'Gacrux (Female, Mature)', gender: 'female', description: 'Mature', languages: GEMINI_LANGUAGES },
+  { value: 'Pulcherrima', label: 'Pulcherrima (Female, Forward)', gender: 'female', description: 'Forward', languages: GEMINI_LANGUAGES },
+  { value: 'Achird', label: 'Achird (Male, Friendly)', gender: 'male', description: 'Friendly', languages: GEMINI_LANGUAGES },
+  { value: 'Zubenelgenubi', label: 'Zubenelgenubi (Male, Casual)', gender: 'male', description: 'Casual', languages: GEMINI_LANGUAGES },
+  { value: 'Vindemiatrix', label: 'Vindemiatrix (Female, Gentle)', gender: 'female', description: 'Gentle', languages: GEMINI_LANGUAGES },
+  { value: 'Sadachbia', label: 'Sadachbia (Male, Lively)', gender: 'male', description: 'Lively', languages: GEMINI_LANGUAGES },
+  { value: 'Sadaltager', label: 'Sadaltager (Male, Knowledgeable)', gender: 'male', description: 'Knowledgeable', languages: GEMINI_LANGUAGES },
+  { value: 'Sulafat', label: 'Sulafat (Female, Warm)', gender: 'female', description: 'Warm', languages: GEMINI_LANGUAGES },
 ];
 
 export const TONES = [
@@ -15,3 +47,69 @@ export const TONES = [
   { value: 'whispering', label: 'Whisper' },
   { value: 'excitedly', label: 'Excited' },
 ];
+
+// Long texts are split into segments of at most this many characters and
+// synthesized in parallel, at most SYNTHESIS_CONCURRENCY requests at a time.
+export const SEGMENT_MAX_CHARS = 800;
+export const SYNTHESIS_CONCURRENCY = 3;
+
+// Upper bound on decoded PCM kept by the synthesis cache; least recently used
+// entries are dropped first. 48 MB holds about 17 minutes of 24 kHz speech.
+export const SYNTHESIS_CACHE_MAX_BYTES = 48 * 1024 * 1024;
+
+// Label colours for speakers in dialogue scripts, assigned in order of appearance.
+export const SPEAKER_COLORS = [
+  { text: 'text-cyan-300', border: 'border-cyan-400', bg: 'bg-cyan-500/10' },
+  { text: 'text-amber-300', border: 'border-amber-400', bg: 'bg-amber-500/10' },
+  { text: 'text-fuchsia-300', border: 'border-fuchsia-400', bg: 'bg-fuchsia-500/10' },
+  { text: 'text-emerald-300', border: 'border-emerald-400', bg: 'bg-emerald-500/10' },
+];
+
+// Saved generations beyond either limit are evicted oldest first. The byte
+// budget is this fraction of the storage quota the browser grants the origin.
+export const LIBRARY_MAX_ITEMS = 100;
+export const LIBRARY_QUOTA_FRACTION = 0.5;
+
+// Transient synthesis failures (rate limits, 5xx, dropped streams) are retried
+// up to SYNTHESIS_MAX_ATTEMPTS times in total with exponential backoff.
+export const SYNTHESIS_MAX_ATTEMPTS = 4;
+export const RETRY_BASE_DELAY_MS = 500;
+export const RETRY_MAX_DELAY_MS = 8000;
+
+export const PLAYBACK_SPEEDS = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+export const MAX_PITCH_SEMITONES = 12;
+
+// Undo steps kept by the waveform editor; each one holds a full copy of the audio.
+export const EDIT_HISTORY_LIMIT = 20;
+export const WAVEFORM_ZOOM_LEVELS = [10, 25, 50, 100, 200];
+
+// Silence between chapters of an imported document.
+export const CHAPTER_PAUSE_SECONDS = 1.5;
+
+// Batch mode: rows synthesized at once, adjustable up to the maximum.
+export const BATCH_CONCURRENCY = 2;
+export const BATCH_MAX_CONCURRENCY = 6;
+
+// What a voice reads when auditioned; {voice} is replaced by its name.
+export const AUDITION_TEXT = 'Hello, this is {voice}. Here is how I sound reading a short passage aloud.';
+
+// Estimated prices in US dollars per million tokens, by provider id. Gemini
+// bills text in and audio out, and audio is counted at a fixed token rate.
+// Providers without an entry are free.
+export const USAGE_PRICING: Record<string, { inputPerMillionTokens: number; outputPerMillionTokens: number }> = {
+  gemini: { inputPerMillionTokens: 0.5, outputPerMillionTokens: 10 },
+  proxy: { inputPerMillionTokens: 0.5, outputPerMillionTokens: 10 },
+};
+export const AUDIO_TOKENS_PER_SECOND = 25;
+// Rough size of a text token, used where the provider does not report counts.
+export const CHARS_PER_TOKEN = 4;
+// Usage records kept in localStorage; the oldest are dropped first.
+export const USAGE_HISTORY_LIMIT = 5000;
+
+// Dub mode: target languages translated at once. Synthesis runs one language
+// at a time, each through the segment pool.
+export const DUB_TRANSLATION_CONCURRENCY = 3;
+
+// Playback: how often the position is reported while playing. Word highlight
+// changes are reported as they happen.
+export const PLAYBACK_TIME_UPDATE_MS = 250;
@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+// Runs the synthesis proxy. Configuration comes from the environment:
+//   GEMINI_API_KEY        key for the Gemini upstream, never sent to clients
+//   TTS_UPSTREAM          "gemini" (default) or "mock" for a fake upstream
+//   PORT                  default 8787
+//   ALLOWED_ORIGINS       comma separated browser origins, or "*" for any;
+//                         default none, so only same-origin pages can call it
+//   RATE_LIMIT_PER_MINUTE requests per client per minute, default 30
+//   RATE_LIMIT_BURST      default 10
+//   MAX_TEXT_CHARS        default 5000
+//   TRUST_PROXY           "1" to key clients by X-Forwarded-For
+import { geminiProvider } from "../services/geminiProvider";
+import { mockProvider } from "../services/mockProvider";
+import { createProxyServer } from "./proxy";
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const upstreamId = process.env.TTS_UPSTREAM ?? "gemini";
+const upstream = upstreamId === "mock" ? mockProvider : geminiProvider;
+if (upstreamId !== "mock" && upstreamId !== "gemini") {
+  console.error(`Unknown TTS_UPSTREAM "${upstreamId}", expected gemini or mock`);
+  process.exit(1);
+}
+if (!upstream.isAvailable()) {
+  console.error(`The ${upstream.label} upstream is not configured; set GEMINI_API_KEY or TTS_UPSTREAM=mock`);
+  process.exit(1);
+}
+
+const maxTextChars = numberFromEnv("MAX_TEXT_CHARS", 5000);
+const port = numberFromEnv("PORT", 8787);
+const server = createProxyServer({
+  upstream,
+  rateLimit: { requestsPerMinute: numberFromEnv("RATE_LIMIT_PER_MINUTE", 30), burst: numberFromEnv("RATE_LIMIT_BURST", 10) },
+  // The text may be JSON-escaped and comes with voice, tone and speakers.
+  maxBodyBytes: maxTextChars * 6 + 4096,
+  maxTextChars,
+  allowedOrigins: (process.env.ALLOWED_ORIGINS ?? "").split(",").map(origin => origin.trim()).filter(Boolean),
+  trustProxy: process.env.TRUST_PROXY === "1",
+  log: entry => console.log(JSON.stringify(entry)),
+});
+
+server.listen(port, () => {
+  console.error(`Synthesis proxy for ${upstream.label} listening on http://localhost:${port}`);
+  if (!process.env.ALLOWED_ORIGINS) console.error("ALLOWED_ORIGINS is not set, so browsers on other origins are refused");
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
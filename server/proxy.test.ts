@@ -0,0 +1,139 @@
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { afterEach, describe, expect, it } from "vitest";
+import { createMockProvider } from "../services/mockProvider";
+import { createProxyServer, HEALTH_PATH, ProxyLogEntry, ProxyOptions, SPEECH_PATH, TRANSLATE_PATH } from "./proxy";
+
+const SPEECH = { text: "Hello there.", voice: "Kore", tone: "cheerfully" };
+
+let server: Server | null = null;
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve));
+  server = null;
+});
+
+// Starts a proxy in front of the mock upstream on a free port.
+const startProxy = async (options: Partial<ProxyOptions> = {}) => {
+  const log: ProxyLogEntry[] = [];
+  server = createProxyServer({
+    upstream: createMockProvider({ chunkDelayMs: 0 }),
+    rateLimit: { requestsPerMinute: 60, burst: 2 },
+    maxBodyBytes: 1024,
+    maxTextChars: 200,
+    allowedOrigins: [],
+    trustProxy: false,
+    log: entry => log.push(entry),
+    ...options,
+  });
+  await new Promise<void>(resolve => server!.listen(0, "127.0.0.1", resolve));
+  const base = `http://127.0.0.1:${(server!.address() as AddressInfo).port}`;
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) => fetch(`${base}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+  return { base, post, log };
+};
+
+// Splits a server-sent event stream into its events.
+const readEvents = (body: string) => body.trim().split("\n\n").map(block => {
+  const [event, data] = block.split("\n");
+  return { event: event.replace(/^event: /, ""), data: data.replace(/^data: /, "") };
+});
+
+describe("synthesis proxy", () => {
+  it("streams upstream audio as server-sent events", async () => {
+    const { post } = await startProxy();
+    const response = await post(SPEECH_PATH, SPEECH);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+
+    const events = readEvents(await response.text());
+    expect(events.length).toBeGreaterThan(1);
+    expect(events.slice(0, -1).every(({ event, data }) => event === "audio" && /^[A-Za-z0-9+/]+=*$/.test(data))).toBe(true);
+    expect(events[events.length - 1]).toEqual({ event: "end", data: "{}" });
+  });
+
+  it("sends a failure after the stream started as an error event", async () => {
+    const { post } = await startProxy({
+      upstream: createMockProvider({ chunkDelayMs: 0, fault: (_, chunk) => chunk === 1 ? new Error("upstream dropped") : undefined }),
+    });
+    const events = readEvents(await (await post(SPEECH_PATH, SPEECH)).text());
+    expect(events[0].event).toBe("audio");
+    const last = events[events.length - 1];
+    expect(last.event).toBe("error");
+    expect(JSON.parse(last.data)).toMatchObject({ message: "upstream dropped" });
+  });
+
+  it("rejects invalid requests with 400 without charging the rate limit", async () => {
+    const { post } = await startProxy();
+    for (let i = 0; i < 5; i++) {
+      const response = await post(SPEECH_PATH, { text: "Hello" });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toMatchObject({ kind: "invalid_input", message: "voice is required" });
+    }
+    expect((await post(SPEECH_PATH, "not json")).status).toBe(400);
+    expect((await post(SPEECH_PATH, SPEECH)).status).toBe(200);
+  });
+
+  it("answers 413 for a body over the size limit", async () => {
+    const { post } = await startProxy();
+    const response = await post(SPEECH_PATH, { ...SPEECH, text: "x".repeat(2000) });
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.status).toBe(413);
+  });
+
+  it("answers 413 for text over the character limit", async () => {
+    const { post } = await startProxy({ maxBodyBytes: 4096 });
+    expect((await post(SPEECH_PATH, { ...SPEECH, text: "x".repeat(300) })).status).toBe(413);
+  });
+
+  it("answers 429 with Retry-After once the bucket is empty", async () => {
+    const { post } = await startProxy();
+    await (await post(SPEECH_PATH, SPEECH)).text();
+    await (await post(TRANSLATE_PATH, { text: "Hi", targetLanguage: "fr" })).text();
+    const response = await post(SPEECH_PATH, SPEECH);
+    expect(response.status).toBe(429);
+    expect(response.headers.get("retry-after")).toBe("1");
+    const { error } = await response.json();
+    expect(error).toMatchObject({ kind: "rate_limit", retryable: true });
+  });
+
+  it("translates through the upstream", async () => {
+    const { post } = await startProxy();
+    const response = await post(TRANSLATE_PATH, { text: "Hello", targetLanguage: "de" });
+    expect(await response.json()).toEqual({ translation: "(de) Hello" });
+    expect((await post(TRANSLATE_PATH, { text: "Hello", targetLanguage: "not a tag" })).status).toBe(400);
+  });
+
+  it("only allows listed origins", async () => {
+    const { base, post } = await startProxy({ allowedOrigins: ["https://app.example"] });
+    const allowed = await fetch(`${base}${SPEECH_PATH}`, { method: "OPTIONS", headers: { Origin: "https://app.example" } });
+    expect(allowed.status).toBe(204);
+    expect(allowed.headers.get("access-control-allow-origin")).toBe("https://app.example");
+    expect(allowed.headers.get("vary")).toBe("Origin");
+
+    const other = await post(SPEECH_PATH, SPEECH, { Origin: "https://evil.example" });
+    expect(other.headers.get("access-control-allow-origin")).toBeNull();
+    await other.text();
+  });
+
+  it("sends no CORS origin by default and any origin for *", async () => {
+    const closed = await startProxy();
+    expect((await fetch(`${closed.base}${HEALTH_PATH}`, { headers: { Origin: "https://app.example" } })).headers.get("access-control-allow-origin")).toBeNull();
+    await new Promise(resolve => server!.close(resolve));
+
+    const open = await startProxy({ allowedOrigins: ["*"] });
+    expect((await fetch(`${open.base}${HEALTH_PATH}`, { headers: { Origin: "https://app.example" } })).headers.get("access-control-allow-origin")).toBe("*");
+  });
+
+  it("logs one line per request", async () => {
+    const { post, log } = await startProxy();
+    await (await post(SPEECH_PATH, SPEECH)).text();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(log).toHaveLength(1);
+    expect(log[0]).toMatchObject({ method: "POST", path: SPEECH_PATH, status: 200, chars: SPEECH.text.length });
+    expect(log[0].audioChars).toBeGreaterThan(0);
+  });
+});
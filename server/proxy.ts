@@ -0,0 +1,236 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { CancelledError, InvalidInputError, RateLimitError, serializeSpeechError, SpeechError } from "../services/speechErrors";
+import type { SpeakerVoice, SpeechProvider, SpeechRequest, TranslationRequest } from "../services/speechProvider";
+import { createRateLimiter, RateLimitOptions } from "./rateLimiter";
+
+export const SPEECH_PATH = "/api/speech";
+export const TRANSLATE_PATH = "/api/translate";
+export const HEALTH_PATH = "/api/health";
+
+export interface ProxyLogEntry {
+  time: string;
+  client: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  // Characters of text requested, and base64 characters of audio sent back.
+  chars?: number;
+  audioChars?: number;
+  error?: string;
+}
+
+export interface ProxyOptions {
+  // Where synthesis actually happens; the key stays in this process.
+  upstream: SpeechProvider;
+  rateLimit: RateLimitOptions;
+  maxBodyBytes: number;
+  maxTextChars: number;
+  // Origins allowed to call the proxy from a browser; "*" allows any. With
+  // none, only pages served from the proxy's own origin can call it.
+  allowedOrigins: string[];
+  // Take the client address from X-Forwarded-For, when behind a trusted proxy.
+  trustProxy: boolean;
+  log: (entry: ProxyLogEntry) => void;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, readonly error: SpeechError) {
+    super(error.message);
+  }
+}
+
+const clientAddress = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = trustProxy ? String(req.headers["x-forwarded-for"] ?? "").split(",")[0].trim() : "";
+  return forwarded || req.socket.remoteAddress || "unknown";
+};
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on("data", (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      reject(new HttpError(413, new InvalidInputError(`Request body is larger than ${maxBytes} bytes`, 413)));
+      // Discard the rest so the response can still be read.
+      req.removeAllListeners("data");
+      req.resume();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+  req.on("error", reject);
+});
+
+const isString = (value: unknown, maxLength: number): value is string =>
+  typeof value === "string" && value.length > 0 && value.length <= maxLength;
+
+// Accepts exactly the fields of a SpeechRequest, so nothing else reaches the
+// upstream prompt.
+const parseSpeechRequest = (body: string, upstream: SpeechProvider, maxTextChars: number): SpeechRequest => {
+  const invalid = (message: string) => new HttpError(400, new InvalidInputError(message, 400));
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw invalid("Request body is not valid JSON");
+  }
+  if (typeof data.text !== "string" || !data.text.trim()) throw invalid("text is required");
+  if (data.text.length > maxTextChars) throw new HttpError(413, new InvalidInputError(`text is longer than ${maxTextChars} characters`, 413));
+  if (!isString(data.voice, 64)) throw invalid("voice is required");
+  if (!isString(data.tone, 200)) throw invalid("tone is required");
+
+  const request: SpeechRequest = { text: data.text, voice: data.voice, tone: data.tone };
+  if (data.speakers !== undefined) {
+    const speakers = data.speakers;
+    if (!Array.isArray(speakers) || !upstream.capabilities.multiSpeaker || speakers.length > upstream.capabilities.maxSpeakers) {
+      throw invalid(`speakers must list at most ${upstream.capabilities.maxSpeakers} speakers`);
+    }
+    if (!speakers.every((s: Partial<SpeakerVoice>) => isString(s?.speaker, 64) && isString(s?.voice, 64) && isString(s?.tone, 200))) {
+      throw invalid("every speaker needs a speaker, voice and tone");
+    }
+    request.speakers = speakers.map(({ speaker, voice, tone }: SpeakerVoice) => ({ speaker, voice, tone }));
+  }
+  if (data.emphasis !== undefined) {
+    if (!Array.isArray(data.emphasis) || data.emphasis.length > 50 || !data.emphasis.every(phrase => isString(phrase, 200))) {
+      throw invalid("emphasis must be a list of phrases");
+    }
+    request.emphasis = data.emphasis;
+  }
+  return request;
+};
+
+const LANGUAGE_TAG = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+const parseTranslationRequest = (body: string, maxTextChars: number): TranslationRequest => {
+  const invalid = (message: string) => new HttpError(400, new InvalidInputError(message, 400));
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw invalid("Request body is not valid JSON");
+  }
+  if (typeof data.text !== "string" || !data.text.trim()) throw invalid("text is required");
+  if (data.text.length > maxTextChars) throw new HttpError(413, new InvalidInputError(`text is longer than ${maxTextChars} characters`, 413));
+  if (typeof data.targetLanguage !== "string" || !LANGUAGE_TAG.test(data.targetLanguage)) throw invalid("targetLanguage must be a BCP 47 language tag");
+  return { text: data.text, targetLanguage: data.targetLanguage };
+};
+
+// Streams synthesis as server-sent events: `audio` events carry the base64
+// PCM chunks exactly as the upstream produced them, then either `end` or an
+// `error` with a serialized SpeechError. Failures before the stream starts
+// are plain JSON responses with a matching HTTP status. Translation is a
+// single JSON request and response, under the same rate limit.
+export const createProxyServer = ({ upstream, rateLimit, maxBodyBytes, maxTextChars, allowedOrigins, trustProxy, log }: ProxyOptions): Server => {
+  const limiter = createRateLimiter(rateLimit);
+
+  const setCors = (req: IncomingMessage, res: ServerResponse) => {
+    const origin = req.headers.origin;
+    if (allowedOrigins.includes("*")) {
+      res.setHeader("Access-Control-Allow-Origin", "*");
+    } else if (origin && allowedOrigins.includes(origin)) {
+      res.setHeader("Access-Control-Allow-Origin", origin);
+      res.setHeader("Vary", "Origin");
+    }
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    res.setHeader("Access-Control-Expose-Headers", "Retry-After");
+  };
+
+  const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+
+  const takeToken = (res: ServerResponse, client: string) => {
+    const limit = limiter.take(client);
+    if (!limit.allowed) {
+      res.setHeader("Retry-After", String(Math.ceil(limit.retryAfterMs / 1000)));
+      throw new HttpError(429, new RateLimitError(`Too many requests, retry in ${Math.ceil(limit.retryAfterMs / 1000)}s`, limit.retryAfterMs, 429));
+    }
+  };
+
+  // Requests are validated before they are charged, so a malformed one does
+  // not use up the client's allowance.
+  const handleSpeech = async (req: IncomingMessage, res: ServerResponse, client: string, entry: Partial<ProxyLogEntry>) => {
+    const request = parseSpeechRequest(await readBody(req, maxBodyBytes), upstream, maxTextChars);
+    takeToken(res, client);
+    entry.chars = request.text.length;
+
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", "X-Accel-Buffering": "no" });
+    entry.status = 200;
+    entry.audioChars = 0;
+    try {
+      await upstream.streamSpeech(request, chunk => {
+        entry.audioChars! += chunk.length;
+        res.write(`event: audio\ndata: ${chunk}\n\n`);
+      }, controller.signal);
+      res.end("event: end\ndata: {}\n\n");
+    } catch (error) {
+      const payload = serializeSpeechError(controller.signal.aborted ? new CancelledError() : error);
+      entry.error = `${payload.kind}: ${payload.message}`;
+      if (!controller.signal.aborted) res.end(`event: error\ndata: ${JSON.stringify(payload)}\n\n`);
+    }
+  };
+
+  const handleTranslate = async (req: IncomingMessage, res: ServerResponse, client: string, entry: Partial<ProxyLogEntry>) => {
+    if (!upstream.translate) throw new HttpError(404, new InvalidInputError(`${upstream.label} cannot translate`, 404));
+    const request = parseTranslationRequest(await readBody(req, maxBodyBytes), maxTextChars);
+    takeToken(res, client);
+    entry.chars = request.text.length;
+
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    const translation = await upstream.translate(request, controller.signal);
+    sendJson(res, 200, { translation });
+    entry.status = 200;
+  };
+
+  return createServer(async (req, res) => {
+    const started = Date.now();
+    const client = clientAddress(req, trustProxy);
+    const path = (req.url ?? "/").split("?")[0];
+    const entry: Partial<ProxyLogEntry> = {};
+    setCors(req, res);
+
+    try {
+      if (req.method === "OPTIONS") {
+        res.writeHead(204).end();
+        entry.status = 204;
+      } else if (req.method === "GET" && path === HEALTH_PATH) {
+        sendJson(res, 200, { ok: true, upstream: { id: upstream.id, model: upstream.model }, translation: Boolean(upstream.translate), maxTextChars });
+        entry.status = 200;
+      } else if (req.method === "POST" && path === SPEECH_PATH) {
+        await handleSpeech(req, res, client, entry);
+      } else if (req.method === "POST" && path === TRANSLATE_PATH) {
+        await handleTranslate(req, res, client, entry);
+      } else {
+        sendJson(res, 404, { error: { kind: "invalid_input", message: "Not found", retryable: false, status: 404 } });
+        entry.status = 404;
+      }
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      const payload = serializeSpeechError(error instanceof HttpError ? error.error : error);
+      entry.status = status;
+      entry.error = `${payload.kind}: ${payload.message}`;
+      if (!res.headersSent) sendJson(res, status, { error: payload });
+    }
+
+    log({
+      time: new Date(started).toISOString(),
+      client,
+      method: req.method ?? "",
+      path,
+      durationMs: Date.now() - started,
+      status: entry.status ?? 500,
+      ...entry,
+    });
+  });
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "./rateLimiter";
+
+describe("createRateLimiter", () => {
+  it("allows a burst, then one request per refill interval", () => {
+    let time = 0;
+    const limiter = createRateLimiter({ requestsPerMinute: 60, burst: 2, now: () => time });
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a")).toEqual({ allowed: false, retryAfterMs: 1000 });
+
+    time = 400;
+    expect(limiter.take("a")).toEqual({ allowed: false, retryAfterMs: 600 });
+    time = 1000;
+    expect(limiter.take("a").allowed).toBe(true);
+  });
+
+  it("keeps a bucket per client", () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 60, burst: 1, now: () => 0 });
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a").allowed).toBe(false);
+    expect(limiter.take("b").allowed).toBe(true);
+  });
+
+  it("refills no further than the burst", () => {
+    let time = 0;
+    const limiter = createRateLimiter({ requestsPerMinute: 60, burst: 2, now: () => time });
+    limiter.take("a");
+    time = 3_600_000;
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a").allowed).toBe(false);
+  });
+});
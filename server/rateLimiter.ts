@@ -0,0 +1,49 @@
+export interface RateLimitOptions {
+  // Sustained requests per minute for one client.
+  requestsPerMinute: number;
+  // Requests a client may make at once after being idle.
+  burst: number;
+  now?: () => number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // How long until the next request would be allowed, when it is not.
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take: (client: string) => RateLimitResult;
+}
+
+// A token bucket per client. Buckets that have refilled completely carry no
+// state, so they are dropped on the next sweep.
+export const createRateLimiter = ({ requestsPerMinute, burst, now = Date.now }: RateLimitOptions): RateLimiter => {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const refillPerMs = requestsPerMinute / 60000;
+  let lastSweep = now();
+
+  const sweep = (time: number) => {
+    if (time - lastSweep < 60000) return;
+    lastSweep = time;
+    for (const [client, bucket] of buckets) {
+      if (bucket.tokens + (time - bucket.updatedAt) * refillPerMs >= burst) buckets.delete(client);
+    }
+  };
+
+  return {
+    take: (client) => {
+      const time = now();
+      sweep(time);
+      const bucket = buckets.get(client) ?? { tokens: burst, updatedAt: time };
+      bucket.tokens = Math.min(burst, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = time;
+      buckets.set(client, bucket);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterMs: 0 };
+      }
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    },
+  };
+};
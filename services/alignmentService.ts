@@ -0,0 +1,18 @@
+import type { WordTiming } from "../types";
+import { AlignmentSegment, alignSegments } from "../utils/alignment";
+import type { AlignmentJob, AlignmentJobResult } from "../utils/alignmentWorker";
+import { createWorkerRunner } from "../utils/workerRunner";
+
+const runAlignment = createWorkerRunner<AlignmentJob, AlignmentJobResult, WordTiming[]>({
+  name: "Alignment",
+  activity: "aligning",
+  createWorker: () => new Worker(new URL("../utils/alignmentWorker.ts", import.meta.url), { type: "module" }),
+  runOnMainThread: ({ segments, sampleRate }) => alignSegments(segments, sampleRate),
+  readResult: result => result.timings,
+});
+
+// Aligns words to speech off the main thread when a worker can be started,
+// so a long generation does not freeze playback or the UI while it aligns.
+// Each segment is aligned on its own; see `alignSegments`.
+export const alignSpeech = (segments: AlignmentSegment[], sampleRate: number): Promise<WordTiming[]> =>
+  runAlignment({ segments, sampleRate });
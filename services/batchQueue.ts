@@ -0,0 +1,151 @@
+import { BATCH_CONCURRENCY } from "../constants";
+import { decode, pcm16ToSamples } from "../utils/audio";
+import type { BatchRow } from "../utils/batch";
+import { parseMarkup, planMarkupRequests } from "../utils/markup";
+import { CancelledError, classifyError, getActiveProvider, SegmentStatus, synthesizeSegment } from "./geminiService";
+
+export interface BatchItem {
+  row: BatchRow;
+  status: SegmentStatus;
+  error?: string;
+  // Set once the row is done.
+  samples?: Float32Array;
+  sampleRate?: number;
+}
+
+export interface BatchQueueState {
+  items: BatchItem[];
+  paused: boolean;
+  // Rows currently being synthesized.
+  active: number;
+  concurrency: number;
+}
+
+export interface BatchQueue {
+  state: () => BatchQueueState;
+  // Starts or resumes taking pending rows.
+  start: () => void;
+  // Stops taking new rows; rows already in flight still finish.
+  pause: () => void;
+  // Puts a failed row back in line.
+  retry: (index: number) => void;
+  setConcurrency: (concurrency: number) => void;
+  // Aborts rows in flight and pauses; they return to pending.
+  cancel: () => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export interface BatchQueueOptions {
+  concurrency?: number;
+  bypassCache?: boolean;
+}
+
+// Each row is one prompt: its markup is planned like the editor's text and
+// the pieces are synthesized one after another into a single clip.
+const synthesizeRow = async (row: BatchRow, bypassCache: boolean, signal: AbortSignal): Promise<{ samples: Float32Array; sampleRate: number }> => {
+  const sampleRate = getActiveProvider().capabilities.outputSampleRate;
+  const markup = parseMarkup(row.text, { voice: row.voice, tone: row.tone });
+  const chunks: Uint8Array[] = [];
+  for (const request of planMarkupRequests(markup.segments)) {
+    const requestStart = chunks.length;
+    await synthesizeSegment(request, chunk => chunks.push(decode(chunk)), {
+      bypassCache,
+      signal,
+      onRetry: () => { chunks.length = requestStart; },
+    });
+  }
+  const pcm = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    pcm.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { samples: pcm16ToSamples(pcm), sampleRate };
+};
+
+// Rows are taken in order whenever a slot is free. Unlike the segment pool,
+// the queue can pause and grow again after retries, so it schedules itself
+// instead of running a fixed list through runWithConcurrency.
+export const createBatchQueue = (rows: BatchRow[], { concurrency = BATCH_CONCURRENCY, bypassCache = false }: BatchQueueOptions = {}): BatchQueue => {
+  const listeners = new Set<() => void>();
+  let items: BatchItem[] = rows.map(row => ({ row, status: "pending" }));
+  let paused = true;
+  let active = 0;
+  let limit = concurrency;
+  let controller = new AbortController();
+  let snapshot: BatchQueueState = { items, paused, active, concurrency: limit };
+
+  const notify = () => {
+    snapshot = { items, paused, active, concurrency: limit };
+    listeners.forEach(listener => listener());
+  };
+
+  const update = (index: number, patch: Partial<BatchItem>) => {
+    items = items.map((item, i) => i === index ? { ...item, ...patch } : item);
+  };
+
+  const run = async (index: number) => {
+    const { signal } = controller;
+    active++;
+    update(index, { status: "synthesizing", error: undefined });
+    notify();
+    try {
+      const result = await synthesizeRow(items[index].row, bypassCache, signal);
+      update(index, { status: "done", ...result });
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        update(index, { status: "pending" });
+      } else {
+        console.error(`Batch row "${items[index].row.id}" failed:`, error);
+        update(index, { status: "failed", error: classifyError(error).message });
+      }
+    }
+    active--;
+    pump();
+    notify();
+  };
+
+  const pump = () => {
+    while (!paused && active < limit) {
+      const next = items.findIndex(item => item.status === "pending");
+      if (next === -1) break;
+      void run(next);
+    }
+  };
+
+  return {
+    state: () => snapshot,
+    start: () => {
+      paused = false;
+      pump();
+      notify();
+    },
+    pause: () => {
+      paused = true;
+      notify();
+    },
+    retry: (index) => {
+      if (items[index]?.status !== "failed") return;
+      update(index, { status: "pending", error: undefined });
+      pump();
+      notify();
+    },
+    setConcurrency: (concurrency) => {
+      limit = Math.max(1, concurrency);
+      pump();
+      notify();
+    },
+    cancel: () => {
+      paused = true;
+      controller.abort();
+      controller = new AbortController();
+      notify();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
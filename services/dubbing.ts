@@ -0,0 +1,163 @@
+import { DUB_TRANSLATION_CONCURRENCY } from "../constants";
+import type { WordTiming } from "../types";
+import { concatenateSamples, decode, pcm16ToSamples } from "../utils/audio";
+import { runWithConcurrency } from "../utils/concurrency";
+import { formatMarkupPosition, parseMarkup, planMarkupRequests } from "../utils/markup";
+import { requestWords } from "../utils/script";
+import { alignSpeech } from "./alignmentService";
+import { CancelledError, classifyError, generateSegmentedSpeech, getActiveProvider, InvalidInputError, translateText } from "./geminiService";
+
+export type DubStatus = "pending" | "translating" | "translated" | "synthesizing" | "done" | "failed";
+
+export interface DubTarget {
+  // BCP 47 tag.
+  language: string;
+  voice: string;
+}
+
+export interface DubTrack extends DubTarget {
+  // Empty until translated; editable once it is.
+  translation: string;
+  status: DubStatus;
+  error?: string;
+  // Set once the track is dubbed.
+  samples?: Float32Array;
+  sampleRate?: number;
+  timings?: WordTiming[];
+}
+
+export interface DubState {
+  source: string;
+  tone: string;
+  tracks: DubTrack[];
+  busy: boolean;
+}
+
+export interface DubSession {
+  state: () => DubState;
+  // Translates every track without a translation, or only the one at `index`.
+  translate: (index?: number) => Promise<void>;
+  // Replaces a translation after review; any audio made from it is dropped.
+  editTranslation: (index: number, text: string) => void;
+  setVoice: (index: number, voice: string) => void;
+  // Dubs every translated track without audio, or only the one at `index`.
+  synthesize: (index?: number) => Promise<void>;
+  // Aborts work in flight; interrupted tracks keep their translations.
+  cancel: () => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// The translation is planned like editor text, synthesized through the
+// segment pool and aligned for captions one request at a time.
+const dubTrack = async (track: DubTrack, tone: string, signal: AbortSignal): Promise<Pick<DubTrack, "samples" | "sampleRate" | "timings">> => {
+  const markup = parseMarkup(track.translation, { voice: track.voice, tone });
+  if (markup.errors.length > 0) {
+    const { message, offset } = markup.errors[0];
+    throw new InvalidInputError(`Line ${formatMarkupPosition(track.translation, offset)}: ${message}`);
+  }
+  const requests = planMarkupRequests(markup.segments);
+  if (requests.length === 0) throw new InvalidInputError("The translation has nothing to say.");
+
+  const sampleRate = getActiveProvider().capabilities.outputSampleRate;
+  const parts: Float32Array[][] = requests.map(() => []);
+  let failure: Error | undefined;
+  await generateSegmentedSpeech(requests, {
+    onAudioChunk: (index, chunk) => parts[index].push(pcm16ToSamples(decode(chunk))),
+    onSegmentStatus: (_, status, error) => {
+      if (status === "failed") failure ??= error;
+    },
+    onStreamEnd: () => {},
+    onSegmentRetry: index => {
+      parts[index] = [];
+    },
+  }, { signal });
+  if (failure) throw failure;
+
+  const segments = requests.map((request, index) => ({ samples: concatenateSamples(parts[index]), words: requestWords(request) }));
+  const timings = await alignSpeech(segments, sampleRate);
+  return { samples: concatenateSamples(segments.map(segment => segment.samples)), sampleRate, timings };
+};
+
+// One source text dubbed into several languages: every target is translated
+// first, the translations are reviewed and edited, then each is synthesized
+// with its own voice and the shared tone.
+export const createDubSession = (source: string, targets: DubTarget[], tone: string): DubSession => {
+  const listeners = new Set<() => void>();
+  let tracks: DubTrack[] = targets.map(target => ({ ...target, translation: "", status: "pending" }));
+  let busy = false;
+  let controller = new AbortController();
+  let snapshot: DubState = { source, tone, tracks, busy };
+
+  const notify = () => {
+    snapshot = { source, tone, tracks, busy };
+    listeners.forEach(listener => listener());
+  };
+
+  const update = (index: number, patch: Partial<DubTrack>) => {
+    tracks = tracks.map((track, i) => i === index ? { ...track, ...patch } : track);
+    notify();
+  };
+
+  // Runs one step over the chosen tracks, one batch of work at a time.
+  const run = async (indices: number[], concurrency: number, step: (index: number, signal: AbortSignal) => Promise<void>) => {
+    if (busy || indices.length === 0) return;
+    busy = true;
+    notify();
+    const { signal } = controller;
+    await runWithConcurrency(indices, concurrency, index => step(index, signal));
+    busy = false;
+    notify();
+  };
+
+  const fail = (index: number, error: unknown, fallback: DubStatus) => {
+    if (error instanceof CancelledError) {
+      update(index, { status: fallback, error: undefined });
+    } else {
+      console.error(`Dubbing into ${tracks[index].language} failed:`, error);
+      update(index, { status: "failed", error: classifyError(error).message });
+    }
+  };
+
+  return {
+    state: () => snapshot,
+    translate: (index) => {
+      const indices = index !== undefined ? [index] : tracks.flatMap((track, i) => track.translation ? [] : [i]);
+      return run(indices, DUB_TRANSLATION_CONCURRENCY, async (i, signal) => {
+        update(i, { status: "translating", error: undefined, samples: undefined, sampleRate: undefined, timings: undefined });
+        try {
+          update(i, { status: "translated", translation: await translateText(source, tracks[i].language, { signal }) });
+        } catch (error) {
+          fail(i, error, tracks[i].translation ? "translated" : "pending");
+        }
+      });
+    },
+    editTranslation: (index, text) => {
+      update(index, { translation: text, status: text.trim() ? "translated" : "pending", error: undefined, samples: undefined, sampleRate: undefined, timings: undefined });
+    },
+    setVoice: (index, voice) => {
+      const track = tracks[index];
+      update(index, { voice, ...(track.samples ? { status: "translated", samples: undefined, sampleRate: undefined, timings: undefined } : {}) });
+    },
+    synthesize: (index) => {
+      const indices = index !== undefined ? [index] : tracks.flatMap((track, i) => track.translation.trim() && !track.samples ? [i] : []);
+      return run(indices, 1, async (i, signal) => {
+        update(i, { status: "synthesizing", error: undefined });
+        try {
+          update(i, { status: "done", ...await dubTrack(tracks[i], tone, signal) });
+        } catch (error) {
+          fail(i, error, "translated");
+        }
+      });
+    },
+    cancel: () => {
+      controller.abort();
+      controller = new AbortController();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
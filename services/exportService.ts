@@ -0,0 +1,24 @@
+import { encodeAudio, ExportFormat, ExportOptions, getExportFormat } from "../utils/exportFormats";
+import type { ExportJob, ExportJobResult } from "../utils/exportWorker";
+import { createWorkerRunner } from "../utils/workerRunner";
+
+const runExport = createWorkerRunner<ExportJob, ExportJobResult, Uint8Array>({
+  name: "Export",
+  activity: "encoding",
+  createWorker: () => new Worker(new URL("../utils/exportWorker.ts", import.meta.url), { type: "module" }),
+  runOnMainThread: ({ samples, sampleRate, format, options }) => encodeAudio(samples, sampleRate, format, options),
+  readResult: result => result.data,
+});
+
+// Encodes off the main thread when a worker can be started, so long exports
+// do not freeze playback or the UI.
+export const exportAudio = async (
+  samples: Float32Array,
+  sampleRate: number,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<Blob> => {
+  const { mimeType } = getExportFormat(format);
+  const data = await runExport({ samples, sampleRate, format, options });
+  return new Blob([data], { type: mimeType });
+};
@@ -0,0 +1,116 @@
+import { GoogleGenAI, Modality, SpeechConfig } from "@google/genai";
+import { VOICES } from "../constants";
+import { languageName } from "../utils/languages";
+import { AuthError, CancelledError, NetworkError, SafetyBlockError } from "./speechErrors";
+import { SpeechProvider, SpeechRequest, TranslationRequest } from "./speechProvider";
+
+export const GEMINI_TTS_MODEL = "gemini-2.5-flash-preview-tts";
+// Text model used to translate scripts before dubbing.
+export const GEMINI_TEXT_MODEL = "gemini-2.5-flash";
+
+// Replaced at build time in the browser; read from the environment in Node.
+const API_KEY = process.env.API_KEY || process.env.GEMINI_API_KEY;
+
+let ai: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  if (!API_KEY) {
+    throw new AuthError("API_KEY environment variable is not set");
+  }
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: API_KEY });
+  }
+  return ai;
+};
+
+const buildPrompt = ({ text, tone, speakers, emphasis }: SpeechRequest): string => {
+  if (!speakers) {
+    const stress = emphasis?.length ? `, stressing ${emphasis.map(phrase => `"${phrase}"`).join(" and ")}` : "";
+    return `Say ${tone}${stress}: ${text}`;
+  }
+  const names = speakers.map(s => s.speaker).join(" and ");
+  const styles = speakers.map(s => `${s.speaker} speaks ${s.tone}`).join(", ");
+  return `TTS the following conversation between ${names} (${styles}):\n${text}`;
+};
+
+// The markup must survive translation so the dub keeps its pauses, tones
+// and emphasis.
+const TRANSLATION_INSTRUCTION = [
+  "You translate scripts that will be read aloud by a text-to-speech voice.",
+  "Translate naturally for speech, keeping the meaning, register and line breaks.",
+  "Leave markup exactly as written: tags in square brackets such as [pause 1s], [whisper]...[/whisper] or [voice Puck]...[/voice] stay untranslated and in place, and *asterisks* go around the translation of the words they enclosed.",
+  "Reply with the translated script only, without notes or quotation marks.",
+].join("\n");
+
+const buildTranslationPrompt = ({ text, targetLanguage }: TranslationRequest): string =>
+  `Translate into ${languageName(targetLanguage)} (${targetLanguage}):\n\n${text}`;
+
+const buildSpeechConfig = ({ voice, speakers }: SpeechRequest): SpeechConfig => {
+  if (!speakers) {
+    return { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } };
+  }
+  return {
+    multiSpeakerVoiceConfig: {
+      speakerVoiceConfigs: speakers.map(s => ({
+        speaker: s.speaker,
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: s.voice } },
+      })),
+    },
+  };
+};
+
+export const geminiProvider: SpeechProvider = {
+  id: "gemini",
+  label: "Google Gemini",
+  model: GEMINI_TTS_MODEL,
+  capabilities: {
+    multiSpeaker: true,
+    maxSpeakers: 2,
+    sampleRates: [24000],
+    outputSampleRate: 24000,
+    requiresApiKey: true,
+  },
+  isAvailable: () => Boolean(API_KEY),
+  listVoices: async () => VOICES,
+  streamSpeech: async (request, onAudioChunk, signal) => {
+    const response = await getClient().models.generateContentStream({
+      model: GEMINI_TTS_MODEL,
+      contents: [{ parts: [{ text: buildPrompt(request) }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: buildSpeechConfig(request),
+        abortSignal: signal,
+      },
+    });
+
+    let receivedAudio = false;
+    let blockReason: string | undefined;
+    for await (const chunk of response) {
+      if (signal?.aborted) throw new CancelledError();
+      const candidate = chunk.candidates?.[0];
+      const base64Audio = candidate?.content?.parts?.[0]?.inlineData?.data;
+      if (base64Audio) {
+        receivedAudio = true;
+        onAudioChunk(base64Audio);
+      }
+      blockReason = chunk.promptFeedback?.blockReason ?? (candidate?.finishReason === "SAFETY" ? "SAFETY" : blockReason);
+    }
+
+    // A blocked prompt comes back as an empty, successful stream.
+    if (blockReason) throw new SafetyBlockError(`Speech was blocked by the safety filter (${blockReason}).`);
+    if (!receivedAudio) throw new NetworkError("The speech stream ended without any audio.");
+  },
+  translate: async (request, signal) => {
+    const response = await getClient().models.generateContent({
+      model: GEMINI_TEXT_MODEL,
+      contents: [{ parts: [{ text: buildTranslationPrompt(request) }] }],
+      config: { systemInstruction: TRANSLATION_INSTRUCTION, temperature: 0.2, abortSignal: signal },
+    });
+    if (signal?.aborted) throw new CancelledError();
+    const blockReason = response.promptFeedback?.blockReason ?? (response.candidates?.[0]?.finishReason === "SAFETY" ? "SAFETY" : undefined);
+    if (blockReason) throw new SafetyBlockError(`Translation was blocked by the safety filter (${blockReason}).`);
+    const translation = response.text?.trim();
+    if (!translation) throw new NetworkError("The translation came back empty.");
+    return translation;
+  },
+};
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS, SYNTHESIS_MAX_ATTEMPTS } from "../constants";
+import { AuthError, CancelledError, generateSegmentedSpeech, SegmentStatus, ServerError, SpeechError, synthesisCache, synthesizeSegment } from "./geminiService";
+import { createMockProvider, MockProviderOptions } from "./mockProvider";
+import { registerProvider, setActiveProvider, SpeechRequest } from "./speechProvider";
+
+const speech = (text: string): SpeechRequest => ({ text, voice: "Kore", tone: "calmly" });
+
+const TEXT = "Hello there, my patient friend. This takes a few chunks.";
+
+// Replaces the active provider with a mock that throws what `fault` returns,
+// and counts how often each text was requested.
+const useMockProvider = (fault?: MockProviderOptions["fault"]) => {
+  const requests = new Map<string, number>();
+  registerProvider(createMockProvider({
+    chunkDelayMs: 0,
+    fault: (request, chunkIndex) => {
+      if (chunkIndex === 0) requests.set(request.text, (requests.get(request.text) ?? 0) + 1);
+      return fault?.(request, chunkIndex);
+    },
+  }));
+  setActiveProvider("mock");
+  return requests;
+};
+
+// Collects the chunks a clean synthesis of `request` streams.
+const cleanChunks = async (request: SpeechRequest) => {
+  const chunks: string[] = [];
+  await createMockProvider({ chunkDelayMs: 0 }).streamSpeech(request, chunk => chunks.push(chunk));
+  return chunks;
+};
+
+// Backoff sleeps run on fake timers; everything else (hashing, streaming)
+// gets a real turn of the event loop between advances.
+const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  let done = false;
+  promise.then(() => { done = true; }, () => { done = true; });
+  while (!done) {
+    await new Promise(resolve => setImmediate(resolve));
+    vi.advanceTimersByTime(RETRY_MAX_DELAY_MS);
+  }
+  return promise;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  synthesisCache.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("synthesizeSegment", () => {
+  it("retries a dropped stream and keeps only the final attempt's audio", async () => {
+    let failures = 1;
+    const requests = useMockProvider((_, chunk) => chunk === 1 && failures-- > 0 ? new Error("stream reset by peer") : undefined);
+    const delivered: string[] = [];
+    const onRetry = vi.fn((_: SpeechError) => { delivered.length = 0; });
+
+    await settle(synthesizeSegment(speech(TEXT), chunk => delivered.push(chunk), { onRetry }));
+
+    expect(requests.get(TEXT)).toBe(2);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onRetry.mock.calls[0][0]).toMatchObject({ kind: "network" });
+    expect(delivered).toEqual(await cleanChunks(speech(TEXT)));
+    expect(synthesisCache.stats().entries).toBe(1);
+  });
+
+  it("gives up on a fatal error without retrying", async () => {
+    const requests = useMockProvider(() => Object.assign(new Error("Forbidden"), { status: 403 }));
+    const onRetry = vi.fn();
+    await expect(settle(synthesizeSegment(speech(TEXT), () => {}, { onRetry }))).rejects.toBeInstanceOf(AuthError);
+    expect(requests.get(TEXT)).toBe(1);
+    expect(onRetry).not.toHaveBeenCalled();
+    expect(synthesisCache.stats().entries).toBe(0);
+  });
+
+  it("backs off exponentially until the attempts run out", async () => {
+    const requests = useMockProvider(() => Object.assign(new Error("Service Unavailable"), { status: 503 }));
+    const delays: number[] = [];
+    const failure = settle(synthesizeSegment(speech(TEXT), () => {}, { onRetry: (_, __, delayMs) => delays.push(delayMs) }));
+
+    await expect(failure).rejects.toBeInstanceOf(ServerError);
+    await expect(failure).rejects.toMatchObject({ status: 503, retryable: true });
+    expect(requests.get(TEXT)).toBe(SYNTHESIS_MAX_ATTEMPTS);
+    expect(delays).toHaveLength(SYNTHESIS_MAX_ATTEMPTS - 1);
+    delays.forEach((delay, i) => {
+      const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** i);
+      expect(delay).toBeGreaterThanOrEqual(ceiling / 2);
+      expect(delay).toBeLessThanOrEqual(ceiling);
+    });
+  });
+
+  it("waits as long as a rate limit asks", async () => {
+    let failures = 1;
+    useMockProvider(() => failures-- > 0 ? new Error("429 RESOURCE_EXHAUSTED: please retry in 6s") : undefined);
+    const onRetry = vi.fn();
+    await settle(synthesizeSegment(speech(TEXT), () => {}, { onRetry }));
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ kind: "rate_limit", retryAfterMs: 6000 }), 1, 6000);
+  });
+
+  it("reports an abort during backoff as cancelled and stops retrying", async () => {
+    const requests = useMockProvider(() => Object.assign(new Error("Bad Gateway"), { status: 502 }));
+    const controller = new AbortController();
+    const failure = synthesizeSegment(speech(TEXT), () => {}, { signal: controller.signal, onRetry: () => controller.abort() });
+    await expect(settle(failure)).rejects.toBeInstanceOf(CancelledError);
+    expect(requests.get(TEXT)).toBe(1);
+  });
+});
+
+describe("generateSegmentedSpeech", () => {
+  const TEXTS = ["First part of the text.", "Second part, which fails.", "Third part, which drops once."];
+
+  const run = (options: Parameters<typeof generateSegmentedSpeech>[2] = {}, onStatus?: (index: number, status: SegmentStatus) => void) => {
+    const audio: string[][] = TEXTS.map(() => []);
+    const statuses: SegmentStatus[] = TEXTS.map(() => "pending");
+    const errors: (Error | undefined)[] = [];
+    const retried: number[] = [];
+    const done = settle(generateSegmentedSpeech(TEXTS.map(speech), {
+      onAudioChunk: (index, chunk) => audio[index].push(chunk),
+      onSegmentStatus: (index, status, error) => {
+        statuses[index] = status;
+        errors[index] = error;
+        onStatus?.(index, status);
+      },
+      onStreamEnd: () => {},
+      onSegmentRetry: index => {
+        retried.push(index);
+        audio[index] = [];
+      },
+    }, options));
+    return { done, audio, statuses, errors, retried };
+  };
+
+  it("skips a failed segment, retries a transient one and keeps the rest", async () => {
+    let drops = 1;
+    useMockProvider((request, chunk) => {
+      if (request.text === TEXTS[1]) return new Error("INVALID_ARGUMENT: unsupported text");
+      if (request.text === TEXTS[2] && chunk === 1 && drops-- > 0) return new Error("network error");
+      return undefined;
+    });
+
+    const { done, audio, statuses, errors, retried } = run();
+    await done;
+
+    expect(statuses).toEqual(["done", "failed", "done"]);
+    expect(errors[1]).toMatchObject({ kind: "invalid_input" });
+    expect(retried).toEqual([2]);
+    expect(audio[0]).toEqual(await cleanChunks(speech(TEXTS[0])));
+    expect(audio[1]).toEqual([]);
+    expect(audio[2]).toEqual(await cleanChunks(speech(TEXTS[2])));
+  });
+
+  it("resumes after a cancel from the last completed segment", async () => {
+    const requests = useMockProvider();
+    const controller = new AbortController();
+    const cancelled = run({ concurrency: 1, signal: controller.signal }, (index, status) => {
+      if (index === 0 && status === "done") controller.abort();
+    });
+    await cancelled.done;
+
+    expect(cancelled.statuses[0]).toBe("done");
+    expect(cancelled.statuses.slice(1)).toEqual(["failed", "failed"]);
+    expect(cancelled.errors.slice(1).every(error => error instanceof CancelledError)).toBe(true);
+
+    const resumed = run({ concurrency: 1 });
+    await resumed.done;
+    expect(resumed.statuses).toEqual(["done", "done", "done"]);
+    expect(TEXTS.map(text => requests.get(text) ?? 0)).toEqual([1, 1, 1]);
+    expect(resumed.audio[0]).toEqual(await cleanChunks(speech(TEXTS[0])));
+  });
+});
@@ -1,49 +1,232 @@
+import { geminiProvider } from "./geminiProvider";
+import { applyLexiconToRequest } from "./lexiconService";
+import { mockProvider } from "./mockProvider";
+import { proxyProvider } from "./proxyProvider";
+import { getActiveProvider, registerProvider, SpeechRequest } from "./speechProvider";
+import { BudgetExceededError, CancelledError, classifyError, InvalidInputError, RateLimitError, SpeechError } from "./speechErrors";
+import { synthesisCache, synthesisCacheKey } from "./synthesisCache";
+import { usageLog } from "./usageLog";
+import { RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS, SYNTHESIS_CONCURRENCY, SYNTHESIS_MAX_ATTEMPTS } from "../constants";
+import { createSilenceChunk, decode, encode } from "../utils/audio";
+import { runWithConcurrency } from "../utils/concurrency";
+import { retryWithBackoff } from "../utils/retry";
+import { estimateTokens, UsageOutcome } from "../utils/usage";
 
-import { GoogleGenAI, Modality } from "@google/genai";
+registerProvider(geminiProvider);
+registerProvider(proxyProvider);
+registerProvider(mockProvider);
 
-const API_KEY = process.env.API_KEY;
+export { getActiveProvider, listProviders, setActiveProvider } from "./speechProvider";
+export type { SpeakerVoice, SpeechProvider, SpeechCapabilities, SpeechRequest, TranslationRequest, VoiceGender, VoiceOption } from "./speechProvider";
+export { synthesisCache } from "./synthesisCache";
+export { usageLog } from "./usageLog";
+export type { UsageLog } from "./usageLog";
+export type { SynthesisCacheStats } from "./synthesisCache";
+export * from "./speechErrors";
+export { getLexicon, setLexicon } from "./lexiconService";
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
+// A stretch of explicit silence in a segment list, rendered locally rather
+// than requested from the provider.
+export interface PauseRequest {
+  pauseSeconds: number;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+export type SegmentRequest = SpeechRequest | PauseRequest;
 
-export const generateSpeechStream = async (
-  text: string,
-  voice: string,
-  tone: string,
+export const isPauseRequest = (request: SegmentRequest): request is PauseRequest => 'pauseSeconds' in request;
+
+export type SegmentStatus = 'pending' | 'synthesizing' | 'done' | 'failed';
+
+export interface SegmentCallbacks {
+  // Chunks are delivered in segment order, regardless of which request finishes first.
+  onAudioChunk: (segmentIndex: number, chunk: string) => void;
+  onSegmentStatus: (segmentIndex: number, status: SegmentStatus, error?: Error) => void;
+  onStreamEnd: () => void;
+  // A transient failure is about to be retried after `delayMs`. The segment
+  // starts over, so any audio it already delivered must be discarded.
+  onSegmentRetry?: (segmentIndex: number, error: SpeechError, attempt: number, delayMs: number) => void;
+}
+
+export interface SynthesisOptions {
+  concurrency?: number;
+  // Always call the provider; the fresh result still replaces the cached one.
+  bypassCache?: boolean;
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  // The request is about to start over; audio delivered so far is void.
+  onRetry?: (error: SpeechError, attempt: number, delayMs: number) => void;
+}
+
+// The text is first rewritten by the pronunciation lexicon. Identical requests
+// are answered from the synthesis cache without calling the provider. Only
+// complete streams are cached.
+//
+// Transient failures are retried with backoff. Every attempt regenerates the
+// whole segment, since a new stream need not match the one that dropped, so a
+// caller that keeps streamed audio must discard it in `onRetry`. Only the
+// final attempt's audio is cached. Failures are always thrown as SpeechError.
+//
+// Each provider request is recorded in the usage log, whatever its outcome.
+// Once the session's hard budget is spent, new requests are refused with a
+// BudgetExceededError; requests already in flight are allowed to finish.
+export const synthesizeSegment = async (
+  request: SegmentRequest,
   onAudioChunk: (chunk: string) => void,
-  onStreamEnd: () => void,
-  onError: (error: Error) => void
+  { bypassCache = false, signal, maxAttempts = SYNTHESIS_MAX_ATTEMPTS, onRetry }: SynthesisOptions = {}
 ): Promise<void> => {
+  const provider = getActiveProvider();
+  if (signal?.aborted) throw new CancelledError();
+  if (isPauseRequest(request)) {
+    onAudioChunk(createSilenceChunk(request.pauseSeconds, provider.capabilities.outputSampleRate));
+    return;
+  }
+
+  request = applyLexiconToRequest(request);
+  const key = await synthesisCacheKey(provider, request);
+  const cached = bypassCache ? undefined : synthesisCache.get(key);
+  if (cached) {
+    cached.forEach(chunk => onAudioChunk(encode(chunk)));
+    return;
+  }
+
+  if (usageLog.budgetLevel() === "hard") throw new BudgetExceededError();
+
+  let chunks: Uint8Array[] = [];
+  let deliveredBytes = 0;
+  const started = Date.now();
+  let firstAudioAt: number | null = null;
+  let attempts = 1;
+  const recordUsage = (outcome: UsageOutcome, error?: SpeechError) => usageLog.record({
+    time: started,
+    provider: provider.id,
+    model: provider.model,
+    voice: request.speakers?.map(speaker => speaker.voice).join("+") ?? request.voice,
+    inputChars: request.text.length,
+    inputTokens: estimateTokens(request.text.length),
+    audioSeconds: deliveredBytes / 2 / provider.capabilities.outputSampleRate,
+    latencyMs: firstAudioAt !== null ? firstAudioAt - started : null,
+    durationMs: Date.now() - started,
+    attempts,
+    outcome,
+    error: error?.kind,
+  });
+
   try {
-    const response = await ai.models.generateContentStream({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: `Say ${tone}: ${text}` }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voice },
-          },
-        },
+    await retryWithBackoff(async () => {
+      chunks = [];
+      await provider.streamSpeech(request, chunk => {
+        const bytes = decode(chunk);
+        chunks.push(bytes);
+        deliveredBytes += bytes.length;
+        firstAudioAt ??= Date.now();
+        onAudioChunk(chunk);
+      }, signal);
+    }, {
+      maxAttempts,
+      baseDelayMs: RETRY_BASE_DELAY_MS,
+      maxDelayMs: RETRY_MAX_DELAY_MS,
+      signal,
+      shouldRetry: error => classifyError(error).retryable,
+      minDelayMs: error => {
+        const classified = classifyError(error);
+        return classified instanceof RateLimitError ? classified.retryAfterMs : undefined;
+      },
+      onRetry: (error, attempt, delayMs) => {
+        console.warn(`Retrying speech request (attempt ${attempt + 1}) in ${delayMs}ms:`, error);
+        attempts = attempt + 1;
+        onRetry?.(classifyError(error), attempt, delayMs);
       },
     });
+  } catch (error) {
+    const failure = signal?.aborted ? new CancelledError() : classifyError(error);
+    recordUsage(failure instanceof CancelledError ? "cancelled" : "failure", failure);
+    throw failure;
+  }
+  recordUsage("success");
+  synthesisCache.set(key, chunks);
+};
+
+// Synthesizes segments through a bounded pool. The earliest unfinished segment
+// streams straight through; later ones are buffered until it completes, so the
+// caller can append chunks to a single timeline. A failed segment is reported
+// and skipped rather than aborting the rest. Once `signal` aborts, every
+// unfinished segment fails with a CancelledError, so completed segments are
+// kept and the rest can be retried later.
+export const generateSegmentedSpeech = async (
+  segments: SegmentRequest[],
+  { onAudioChunk, onSegmentStatus, onStreamEnd, onSegmentRetry }: SegmentCallbacks,
+  { concurrency = SYNTHESIS_CONCURRENCY, ...options }: SynthesisOptions = {}
+): Promise<void> => {
+  const buffered: string[][] = segments.map(() => []);
+  const finished: boolean[] = segments.map(() => false);
+  let cursor = 0;
 
-    for await (const chunk of response) {
-      const base64Audio = chunk.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (base64Audio) {
-        onAudioChunk(base64Audio);
+  const advance = () => {
+    while (cursor < segments.length && finished[cursor]) {
+      cursor++;
+      if (cursor < segments.length) {
+        buffered[cursor].forEach(chunk => onAudioChunk(cursor, chunk));
+        buffered[cursor] = [];
       }
     }
-    onStreamEnd();
-  } catch (error) {
-    console.error("Error generating speech with Gemini API:", error);
-    if (error instanceof Error) {
-        onError(error);
-    } else {
-        onError(new Error('An unknown error occurred during speech generation.'));
+  };
+
+  segments.forEach((_, index) => onSegmentStatus(index, 'pending'));
+
+  await runWithConcurrency(segments, concurrency, async (segment, index) => {
+    onSegmentStatus(index, 'synthesizing');
+    try {
+      await synthesizeSegment(segment, chunk => {
+        if (index === cursor) {
+          onAudioChunk(index, chunk);
+        } else {
+          buffered[index].push(chunk);
+        }
+      }, {
+        ...options,
+        onRetry: (error, attempt, delayMs) => {
+          buffered[index] = [];
+          onSegmentRetry?.(index, error, attempt, delayMs);
+        },
+      });
+      onSegmentStatus(index, 'done');
+    } catch (error) {
+      if (!(error instanceof CancelledError)) {
+        console.error(`Error generating speech for segment ${index}:`, error);
+      }
+      buffered[index] = [];
+      onSegmentStatus(index, 'failed', classifyError(error));
     }
+    finished[index] = true;
+    advance();
+  });
+
+  onStreamEnd();
+};
+
+// Translates editor text with the active provider, retrying transient
+// failures like synthesis does. Failures are thrown as SpeechError.
+export const translateText = async (
+  text: string,
+  targetLanguage: string,
+  { signal, maxAttempts = SYNTHESIS_MAX_ATTEMPTS }: Pick<SynthesisOptions, "signal" | "maxAttempts"> = {}
+): Promise<string> => {
+  const provider = getActiveProvider();
+  if (!provider.translate) throw new InvalidInputError(`${provider.label} cannot translate text.`);
+  const translate = provider.translate;
+  try {
+    return await retryWithBackoff(() => translate({ text, targetLanguage }, signal), {
+      maxAttempts,
+      baseDelayMs: RETRY_BASE_DELAY_MS,
+      maxDelayMs: RETRY_MAX_DELAY_MS,
+      signal,
+      shouldRetry: error => classifyError(error).retryable,
+      minDelayMs: error => {
+        const classified = classifyError(error);
+        return classified instanceof RateLimitError ? classified.retryAfterMs : undefined;
+      },
+    });
+  } catch (error) {
+    throw signal?.aborted ? new CancelledError() : classifyError(error);
   }
 };
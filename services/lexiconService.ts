@@ -0,0 +1,32 @@
+import type { SpeechRequest } from "./speechProvider";
+import { loadJson, saveJson } from "./localStore";
+import { applyLexicon, LexiconEntry, readLexiconEntries, toLexiconFile } from "../utils/lexicon";
+
+const STORAGE_KEY = "text-to-audio-lexicon";
+
+// The lexicon is small and read synchronously on every request, so it lives
+// in localStorage rather than next to the library in IndexedDB.
+let activeLexicon: LexiconEntry[] = loadJson(STORAGE_KEY, [], readLexiconEntries);
+
+export const getLexicon = (): LexiconEntry[] => activeLexicon;
+
+export const setLexicon = (entries: LexiconEntry[]): void => {
+  activeLexicon = entries;
+  saveJson(STORAGE_KEY, toLexiconFile(entries));
+};
+
+// Rewrites what the provider will say. Speaker labels in a multi-speaker
+// script are left alone so the provider can still match them to voices, and
+// emphasis phrases are rewritten the same way so they still occur in the text.
+export const applyLexiconToRequest = (request: SpeechRequest, entries: LexiconEntry[] = activeLexicon): SpeechRequest => {
+  if (entries.length === 0) return request;
+  const labels = (request.speakers ?? []).map(({ speaker }) => `${speaker}: `);
+  const text = request.text
+    .split("\n")
+    .map(line => {
+      const label = labels.find(prefix => line.startsWith(prefix)) ?? "";
+      return label + applyLexicon(line.slice(label.length), entries);
+    })
+    .join("\n");
+  return { ...request, text, emphasis: request.emphasis?.map(phrase => applyLexicon(phrase, entries)) };
+};
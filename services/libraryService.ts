@@ -0,0 +1,183 @@
+import { LIBRARY_MAX_ITEMS, LIBRARY_QUOTA_FRACTION } from "../constants";
+import type { WordTiming } from "../types";
+import type { SpeakerSetting } from "../utils/script";
+
+// Everything needed to show a past generation and restore its settings. The
+// PCM lives in a separate store so listing the library stays cheap.
+export interface LibraryItem {
+  id: string;
+  name: string;
+  text: string;
+  voice: string;
+  tone: string;
+  providerId: string;
+  scriptMode: boolean;
+  speakerSettings: Record<string, SpeakerSetting>;
+  sampleRate: number;
+  duration: number;
+  wordTimings: WordTiming[];
+  createdAt: number;
+  sizeBytes: number;
+}
+
+export interface LibraryUsage {
+  itemCount: number;
+  itemBytes: number;
+  // Origin-wide figures from the Storage API, when the browser reports them.
+  usage?: number;
+  quota?: number;
+}
+
+interface LibraryAudio {
+  id: string;
+  pcm: ArrayBuffer;
+}
+
+const DB_NAME = "text-to-audio-library";
+const DB_VERSION = 1;
+const ITEMS_STORE = "items";
+const AUDIO_STORE = "audio";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Library transaction aborted"));
+  });
+
+const openLibrary = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available in this browser."));
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+      db.createObjectStore(ITEMS_STORE, { keyPath: "id" }).createIndex("createdAt", "createdAt");
+    }
+    if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+      db.createObjectStore(AUDIO_STORE, { keyPath: "id" });
+    }
+  };
+  dbPromise = promisify(request).catch(error => {
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+};
+
+// Stored as 16-bit PCM, which is what providers deliver, so the round trip is exact.
+const toPcm16 = (samples: Float32Array): Int16Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    pcm[i] = Math.max(-32768, Math.min(32767, Math.round(samples[i] * 32768)));
+  }
+  return pcm;
+};
+
+const fromPcm16 = (pcm: Int16Array): Float32Array => {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    samples[i] = pcm[i] / 32768.0;
+  }
+  return samples;
+};
+
+export const createLibraryId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Newest first.
+export const listLibraryItems = async (): Promise<LibraryItem[]> => {
+  const db = await openLibrary();
+  const items = await promisify(db.transaction(ITEMS_STORE).objectStore(ITEMS_STORE).getAll() as IDBRequest<LibraryItem[]>);
+  return items.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Saving under an existing id replaces that item's audio and timings but keeps
+// its name and creation date.
+export const saveLibraryItem = async (
+  item: Omit<LibraryItem, "sizeBytes" | "duration">,
+  samples: Float32Array
+): Promise<LibraryItem> => {
+  const db = await openLibrary();
+  const pcm = toPcm16(samples);
+  const tx = db.transaction([ITEMS_STORE, AUDIO_STORE], "readwrite");
+  const items = tx.objectStore(ITEMS_STORE);
+  const existing = await promisify(items.get(item.id) as IDBRequest<LibraryItem | undefined>);
+  const saved: LibraryItem = {
+    ...item,
+    name: existing?.name ?? item.name,
+    createdAt: existing?.createdAt ?? item.createdAt,
+    duration: samples.length / item.sampleRate,
+    sizeBytes: pcm.byteLength,
+  };
+  items.put(saved);
+  tx.objectStore(AUDIO_STORE).put({ id: item.id, pcm: pcm.buffer } as LibraryAudio);
+  await transactionDone(tx);
+  await enforceLibraryLimits();
+  return saved;
+};
+
+export const loadLibraryAudio = async (id: string): Promise<Float32Array> => {
+  const db = await openLibrary();
+  const audio = await promisify(db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).get(id) as IDBRequest<LibraryAudio | undefined>);
+  if (!audio) throw new Error("The audio for this library item is missing.");
+  return fromPcm16(new Int16Array(audio.pcm));
+};
+
+export const renameLibraryItem = async (id: string, name: string): Promise<void> => {
+  const db = await openLibrary();
+  const tx = db.transaction(ITEMS_STORE, "readwrite");
+  const store = tx.objectStore(ITEMS_STORE);
+  const item = await promisify(store.get(id) as IDBRequest<LibraryItem | undefined>);
+  if (item) store.put({ ...item, name });
+  await transactionDone(tx);
+};
+
+export const deleteLibraryItem = async (id: string): Promise<void> => {
+  const db = await openLibrary();
+  const tx = db.transaction([ITEMS_STORE, AUDIO_STORE], "readwrite");
+  tx.objectStore(ITEMS_STORE).delete(id);
+  tx.objectStore(AUDIO_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const getLibraryUsage = async (): Promise<LibraryUsage> => {
+  const items = await listLibraryItems();
+  const estimate = typeof navigator !== "undefined" && navigator.storage?.estimate
+    ? await navigator.storage.estimate().catch(() => undefined)
+    : undefined;
+  return {
+    itemCount: items.length,
+    itemBytes: items.reduce((sum, item) => sum + item.sizeBytes, 0),
+    usage: estimate?.usage,
+    quota: estimate?.quota,
+  };
+};
+
+// Deletes the oldest items until the library fits both the item limit and its
+// share of the origin quota. Returns the ids that were evicted.
+export const enforceLibraryLimits = async (): Promise<string[]> => {
+  const { quota } = await getLibraryUsage();
+  const byteBudget = quota ? quota * LIBRARY_QUOTA_FRACTION : Infinity;
+  const items = await listLibraryItems();
+  let totalBytes = items.reduce((sum, item) => sum + item.sizeBytes, 0);
+  const evicted: string[] = [];
+  for (let i = items.length - 1; i > 0 && (items.length - evicted.length > LIBRARY_MAX_ITEMS || totalBytes > byteBudget); i--) {
+    await deleteLibraryItem(items[i].id);
+    totalBytes -= items[i].sizeBytes;
+    evicted.push(items[i].id);
+  }
+  return evicted;
+};
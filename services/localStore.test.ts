@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { loadJson, saveJson } from "./localStore";
+
+// A Map behind the parts of the Storage API the store uses.
+const stubStorage = ({ full = false } = {}) => {
+  const items = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (full) throw new DOMException("Quota exceeded", "QuotaExceededError");
+      items.set(key, value);
+    },
+  });
+  return items;
+};
+
+const readNumbers = (stored: unknown): number[] => {
+  if (!Array.isArray(stored)) throw new Error("Expected a list");
+  return stored.filter((item): item is number => typeof item === "number");
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("localStore", () => {
+  it("round-trips a value through its decoder", () => {
+    const items = stubStorage();
+    saveJson("numbers", [1, 2, 3]);
+    expect(items.get("numbers")).toBe("[1,2,3]");
+    expect(loadJson("numbers", [], readNumbers)).toEqual([1, 2, 3]);
+  });
+
+  it("returns the fallback for a missing, unparsable or malformed value", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const items = stubStorage();
+    expect(loadJson("numbers", [0], readNumbers)).toEqual([0]);
+    items.set("numbers", "{not json");
+    expect(loadJson("numbers", [0], readNumbers)).toEqual([0]);
+    items.set("numbers", '{"a":1}');
+    expect(loadJson("numbers", [0], readNumbers)).toEqual([0]);
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("warns instead of throwing when storage is full", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    stubStorage({ full: true });
+    expect(() => saveJson("numbers", [1])).not.toThrow();
+    expect(warn).toHaveBeenCalledWith("Could not save numbers:", expect.any(DOMException));
+  });
+
+  it("works without storage", () => {
+    vi.stubGlobal("localStorage", undefined);
+    expect(loadJson("numbers", [7], readNumbers)).toEqual([7]);
+    expect(() => saveJson("numbers", [1])).not.toThrow();
+  });
+});
@@ -0,0 +1,24 @@
+// Small settings kept as JSON in localStorage, read synchronously. Where
+// storage is missing (Node, some private modes) reads return the fallback and
+// writes are dropped; an unreadable or malformed value is ignored with a
+// warning rather than breaking the app.
+
+// `decode` checks what was stored and throws on anything malformed.
+export const loadJson = <T>(key: string, fallback: T, decode: (stored: unknown) => T): T => {
+  try {
+    const stored = typeof localStorage !== "undefined" ? localStorage.getItem(key) : null;
+    return stored ? decode(JSON.parse(stored)) : fallback;
+  } catch (error) {
+    console.warn(`Ignoring unreadable ${key}:`, error);
+    return fallback;
+  }
+};
+
+export const saveJson = (key: string, value: unknown): void => {
+  if (typeof localStorage === "undefined") return;
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save ${key}:`, error);
+  }
+};
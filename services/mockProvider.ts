@@ -0,0 +1,137 @@
+import { VOICES } from "../constants";
+import { encode } from "../utils/audio";
+import { CancelledError } from "./speechErrors";
+import { SpeechProvider, SpeechRequest } from "./speechProvider";
+
+const SAMPLE_RATE = 24000;
+const CHUNK_SECONDS = 0.5;
+const WORD_GAP_SECONDS = 0.06;
+const CLAUSE_PAUSE_SECONDS = 0.2;
+const SENTENCE_PAUSE_SECONDS = 0.4;
+const RAMP_SECONDS = 0.01;
+
+// Base pitch per voice so switching voices is audible offline.
+const VOICE_PITCH: Record<string, number> = {
+  Kore: 220,
+  Puck: 150,
+  Charon: 110,
+  Fenrir: 130,
+  Zephyr: 240,
+};
+
+export interface MockProviderOptions {
+  // Delay between emitted chunks, simulating network streaming. Use 0 in tests.
+  chunkDelayMs?: number;
+  // Called before each chunk is emitted; a returned error is thrown instead,
+  // which lets tests simulate rate limits, outages and dropped streams.
+  fault?: (request: SpeechRequest, chunkIndex: number) => Error | undefined;
+}
+
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small seeded PRNG so the same request always yields the same PCM.
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const pauseAfter = (word: string): number => {
+  if (/[.!?]["')\]]*$/.test(word)) return SENTENCE_PAUSE_SECONDS;
+  if (/[,;:]["')\]]*$/.test(word)) return CLAUSE_PAUSE_SECONDS;
+  return WORD_GAP_SECONDS;
+};
+
+// Renders each word as an enveloped tone burst with a little noise, followed by
+// a silence whose length depends on trailing punctuation.
+export const synthesizeMockPcm = (text: string, voice: string, tone: string, sampleRate = SAMPLE_RATE): Int16Array => {
+  const words = text.split(/\s+/).filter(word => word.length > 0);
+  const random = createRandom(hashString(`${voice}|${tone}|${text}`));
+  const basePitch = VOICE_PITCH[voice] ?? (VOICES.find(option => option.value === voice)?.gender === "male" ? 125 : 210);
+  const amplitude = tone === "whispering" ? 0.15 : 0.45;
+  const noiseLevel = tone === "whispering" ? 0.6 : 0.08;
+
+  const segments: Float32Array[] = [];
+  let totalLength = 0;
+
+  for (const word of words) {
+    const letters = word.replace(/[^\p{L}\p{N}]/gu, "").length || 1;
+    const toneLength = Math.round((0.08 + letters * 0.05) * sampleRate);
+    const gapLength = Math.round(pauseAfter(word) * sampleRate);
+    const segment = new Float32Array(toneLength + gapLength);
+    const frequency = basePitch * (1 + (hashString(word) % 7) / 12);
+    const ramp = Math.round(RAMP_SECONDS * sampleRate);
+
+    for (let i = 0; i < toneLength; i++) {
+      const envelope = Math.min(1, i / ramp, (toneLength - i) / ramp);
+      const sine = Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+      const noise = random() * 2 - 1;
+      segment[i] = amplitude * envelope * ((1 - noiseLevel) * sine + noiseLevel * noise);
+    }
+    segments.push(segment);
+    totalLength += segment.length;
+  }
+
+  const pcm = new Int16Array(totalLength);
+  let offset = 0;
+  for (const segment of segments) {
+    for (let i = 0; i < segment.length; i++) {
+      const s = Math.max(-1, Math.min(1, segment[i]));
+      pcm[offset + i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    }
+    offset += segment.length;
+  }
+  return pcm;
+};
+
+// Offline stand-in for translation: every non-empty line is tagged with the
+// target language and otherwise left alone, so markup stays valid and each
+// dub is still told apart from the others.
+export const mockTranslate = (text: string, targetLanguage: string): string =>
+  text.split("\n").map(line => line.trim() ? `(${targetLanguage}) ${line}` : line).join("\n");
+
+export const createMockProvider = ({ chunkDelayMs = 40, fault }: MockProviderOptions = {}): SpeechProvider => ({
+  id: "mock",
+  label: "Offline Mock",
+  model: "mock-tones-1",
+  capabilities: {
+    multiSpeaker: false,
+    maxSpeakers: 1,
+    sampleRates: [SAMPLE_RATE],
+    outputSampleRate: SAMPLE_RATE,
+    requiresApiKey: false,
+  },
+  isAvailable: () => true,
+  listVoices: async () => VOICES,
+  streamSpeech: async (request, onAudioChunk, signal) => {
+    const { text, voice, tone } = request;
+    const pcm = synthesizeMockPcm(text, voice, tone);
+    const samplesPerChunk = Math.round(CHUNK_SECONDS * SAMPLE_RATE);
+
+    for (let start = 0; start < pcm.length; start += samplesPerChunk) {
+      if (signal?.aborted) throw new CancelledError();
+      const error = fault?.(request, start / samplesPerChunk);
+      if (error) throw error;
+      const chunk = pcm.slice(start, start + samplesPerChunk);
+      onAudioChunk(encode(new Uint8Array(chunk.buffer)));
+      if (chunkDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, chunkDelayMs));
+      }
+    }
+  },
+  translate: async ({ text, targetLanguage }, signal) => {
+    if (chunkDelayMs > 0) await new Promise(resolve => setTimeout(resolve, chunkDelayMs * 5));
+    if (signal?.aborted) throw new CancelledError();
+    return mockTranslate(text, targetLanguage);
+  },
+});
+
+export const mockProvider = createMockProvider();
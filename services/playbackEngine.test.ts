@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import { PlaybackEngine } from "./playbackEngine";
+
+const SAMPLE_RATE = 1000;
+
+interface FakeSource {
+  buffer: AudioBuffer | null;
+  when: number;
+  offset: number;
+  stopped: boolean;
+  onended: (() => void) | null;
+}
+
+// Just enough of AudioContext for the engine: time only moves when a test
+// sets `currentTime`, and sources record how they were started.
+const createFakeContext = ({ failResume = false } = {}) => {
+  const started: FakeSource[] = [];
+  const node = () => ({ connect: () => {}, disconnect: () => {} });
+  const createBuffer = (_channels: number, length: number, sampleRate: number) => {
+    const data = new Float32Array(length);
+    return {
+      length,
+      sampleRate,
+      duration: length / sampleRate,
+      numberOfChannels: 1,
+      getChannelData: () => data,
+      copyToChannel: (source: Float32Array) => data.set(source),
+    } as unknown as AudioBuffer;
+  };
+  const context = {
+    currentTime: 0,
+    state: failResume ? "suspended" : "running",
+    destination: node(),
+    resume: () => failResume ? Promise.reject(new Error("Not allowed to start")) : Promise.resolve(),
+    close: () => Promise.resolve(),
+    createGain: node,
+    createAnalyser: () => ({ ...node(), fftSize: 0, frequencyBinCount: 0, getByteFrequencyData: () => {} }),
+    createBuffer,
+    createBufferSource: () => {
+      const source: FakeSource & ReturnType<typeof node> & { start: (when: number, offset: number) => void; stop: () => void } = {
+        ...node(),
+        buffer: null,
+        when: 0,
+        offset: 0,
+        stopped: false,
+        onended: null,
+        start: (when, offset) => {
+          source.when = when;
+          source.offset = offset;
+          started.push(source);
+        },
+        stop: () => {
+          source.stopped = true;
+        },
+      };
+      return source;
+    },
+  };
+  return { context, started, createBuffer };
+};
+
+// Frames only run when a test calls `frame`.
+const setup = (options: { failResume?: boolean } = {}) => {
+  const fake = createFakeContext(options);
+  let pending: ((now: number) => void)[] = [];
+  let now = 0;
+  const engine = new PlaybackEngine({
+    createContext: () => fake.context as unknown as AudioContext,
+    requestFrame: callback => pending.push(callback),
+    cancelFrame: () => {},
+  });
+  const frame = (time: number) => {
+    fake.context.currentTime = time;
+    now += 1000;
+    const callbacks = pending;
+    pending = [];
+    callbacks.forEach(callback => callback(now));
+  };
+  const events: [string, unknown][] = [];
+  (["playingchange", "timeupdate", "wordchange", "durationchange", "error"] as const).forEach(event =>
+    engine.on(event, (value: unknown) => events.push([event, value]))
+  );
+  const tone = (seconds: number) => {
+    const buffer = fake.createBuffer(1, seconds * SAMPLE_RATE, SAMPLE_RATE);
+    buffer.getChannelData(0).fill(0.25);
+    return buffer;
+  };
+  return { engine, fake, frame, events, tone };
+};
+
+describe("PlaybackEngine", () => {
+  it("plays loaded chunks back to back", async () => {
+    const { engine, fake, events, tone } = setup();
+    await engine.ensureContext();
+    const chunks = [tone(1), tone(2)];
+    engine.load(chunks);
+    expect(engine.duration).toBe(3);
+    expect(events).toContainEqual(["durationchange", 3]);
+
+    await engine.play();
+    expect(engine.isPlaying).toBe(true);
+    expect(fake.started.map(source => [source.buffer, source.when, source.offset])).toEqual([[chunks[0], 0, 0], [chunks[1], 1, 0]]);
+  });
+
+  it("pauses where it is and resumes from there", async () => {
+    const { engine, fake, frame, events, tone } = setup();
+    await engine.ensureContext();
+    engine.load([tone(1), tone(2)]);
+    await engine.play();
+
+    frame(1.5);
+    engine.pause();
+    expect(engine.isPlaying).toBe(false);
+    expect(engine.position).toBe(1.5);
+    expect(events).toContainEqual(["timeupdate", 1.5]);
+    expect(fake.started.every(source => source.stopped)).toBe(true);
+
+    fake.started.length = 0;
+    await engine.play();
+    expect(fake.started).toHaveLength(1);
+    expect(fake.started[0]).toMatchObject({ when: 1.5, offset: 0.5 });
+  });
+
+  it("seeks while paused without starting", async () => {
+    const { engine, fake, events, tone } = setup();
+    await engine.ensureContext();
+    engine.load([tone(2)]);
+    engine.setWordTimings([{ word: "one", start: 0, end: 0.8 }, { word: "two", start: 1, end: 1.8 }]);
+
+    engine.seek(1.2);
+    expect(engine.isPlaying).toBe(false);
+    expect(engine.position).toBe(1.2);
+    expect(events).toContainEqual(["wordchange", 1]);
+    expect(fake.started).toHaveLength(0);
+
+    engine.seek(10);
+    expect(engine.position).toBe(2);
+  });
+
+  it("restarts from the new spot when seeking while playing", async () => {
+    const { engine, fake, tone } = setup();
+    await engine.ensureContext();
+    engine.load([tone(1), tone(2)]);
+    await engine.play();
+
+    fake.started.length = 0;
+    engine.seek(2.25);
+    await Promise.resolve();
+    expect(engine.isPlaying).toBe(true);
+    expect(fake.started).toHaveLength(1);
+    expect(fake.started[0].offset).toBeCloseTo(1.25);
+  });
+
+  it("follows the words and stops at the end", async () => {
+    const { engine, frame, events, tone } = setup();
+    await engine.ensureContext();
+    engine.load([tone(2)]);
+    engine.setWordTimings([{ word: "one", start: 0.1, end: 0.8 }, { word: "two", start: 1, end: 1.8 }]);
+    await engine.play();
+
+    frame(0.5);
+    frame(1.2);
+    frame(1.9);
+    expect(events.filter(([event]) => event === "wordchange").map(([, index]) => index)).toEqual([0, 1]);
+    frame(2);
+    expect(engine.isPlaying).toBe(false);
+    expect(engine.position).toBe(2);
+    expect(events[events.length - 1]).toEqual(["timeupdate", 2]);
+  });
+
+  it("keeps source time under time-stretch", async () => {
+    const { engine, fake, frame, tone } = setup();
+    await engine.ensureContext();
+    engine.load([tone(1), tone(1)]);
+    engine.setTimeStretch({ speed: 2, semitones: 0 });
+    await engine.play();
+
+    // The complete timeline is stretched as one buffer at half its length.
+    expect(fake.started).toHaveLength(1);
+    expect(fake.started[0].buffer!.duration).toBeCloseTo(1, 1);
+
+    frame(0.5);
+    expect(engine.position).toBeCloseTo(1);
+    expect(engine.duration).toBe(2);
+
+    // Changing speed mid-way carries on from the same source position.
+    fake.started.length = 0;
+    engine.setTimeStretch({ speed: 1, semitones: 0 });
+    await Promise.resolve();
+    expect(engine.position).toBeCloseTo(1);
+    expect(fake.started[0].offset).toBeCloseTo(0);
+    expect(fake.started[0].when).toBe(0.5);
+  });
+
+  it("reports a context that will not start as an error event", async () => {
+    const { engine, events, tone } = setup({ failResume: true });
+    await engine.ensureContext().catch(() => {});
+    engine.load([tone(1)]);
+    await expect(engine.play()).resolves.toBeUndefined();
+    expect(engine.isPlaying).toBe(false);
+    expect(events).toContainEqual(["error", new Error("Not allowed to start")]);
+  });
+});
@@ -0,0 +1,454 @@
+import { PLAYBACK_TIME_UPDATE_MS } from "../constants";
+import type { WordTiming } from "../types";
+import { wordIndexAt } from "../utils/alignment";
+import { concatenateChunks } from "../utils/audio";
+import { applyTimeStretch, isNeutralTimeStretch, NEUTRAL_TIME_STRETCH, TimeStretchSettings } from "../utils/timeStretch";
+
+export interface PlaybackEventMap {
+  // Playback started, paused, stopped or reached the end.
+  playingchange: boolean;
+  // Position in source seconds: throttled while playing, sent at once on
+  // seeks, pauses and stops.
+  timeupdate: number;
+  // Index into the word timings, -1 when no word is being spoken.
+  wordchange: number;
+  // Length of what plays, in source seconds.
+  durationchange: number;
+  // Playback could not start, e.g. the context refused to resume.
+  error: Error;
+}
+
+export type PlaybackEvent = keyof PlaybackEventMap;
+
+// Everything the engine takes from the browser, so tests can supply a fake
+// context and drive frames by hand.
+export interface PlaybackEnvironment {
+  createContext: () => AudioContext;
+  requestFrame: (callback: (now: number) => void) => number;
+  cancelFrame: (id: number) => void;
+}
+
+// A rendering of a whole chunk list (mastered, mixed) that plays in its
+// place for as long as that chunk list is loaded.
+export interface ProcessedAudio {
+  source: AudioBuffer[];
+  buffer: AudioBuffer;
+}
+
+// Older Safari only has the prefixed constructor.
+interface LegacyAudioWindow {
+  webkitAudioContext?: typeof AudioContext;
+}
+
+const browserEnvironment: PlaybackEnvironment = {
+  createContext: () => {
+    const AudioContextClass = window.AudioContext ?? (window as Window & LegacyAudioWindow).webkitAudioContext;
+    if (!AudioContextClass) throw new Error("This browser does not support Web Audio");
+    return new AudioContextClass({ sampleRate: 24000 });
+  },
+  requestFrame: (callback) => requestAnimationFrame(callback),
+  cancelFrame: (id) => cancelAnimationFrame(id),
+};
+
+// A source that ends within this much of the end of the timeline ends playback.
+const END_TOLERANCE_SECONDS = 0.1;
+// Lower FFT size for chunkier bars.
+const VISUALIZER_FFT_SIZE = 64;
+
+const drawFrequencyBars = (canvas: HTMLCanvasElement, data: Uint8Array) => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
+  gradient.addColorStop(0, "#22d3ee"); // Cyan 400
+  gradient.addColorStop(1, "#0891b2"); // Cyan 600
+  ctx.fillStyle = gradient;
+  const barWidth = (canvas.width / data.length) * 2.5;
+  for (let i = 0, x = 0; i < data.length; i++, x += barWidth + 1) {
+    const barHeight = data[i] / 2;
+    ctx.fillRect(x, canvas.height - barHeight, barWidth, barHeight);
+  }
+};
+
+// Plays a timeline of audio chunks that may still be growing while it plays,
+// at any speed and pitch, and reports position and the spoken word.
+//
+// Positions (seeking, word timings, the reported time) are in source time;
+// only what is scheduled on the context runs at the time-stretch speed.
+export class PlaybackEngine {
+  private readonly environment: PlaybackEnvironment;
+  private readonly listeners: { [K in PlaybackEvent]: Set<(value: PlaybackEventMap[K]) => void> } = {
+    playingchange: new Set(),
+    timeupdate: new Set(),
+    wordchange: new Set(),
+    durationchange: new Set(),
+    error: new Set(),
+  };
+
+  private audioContext: AudioContext | null = null;
+  private masterGain: GainNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private sources: AudioBufferSourceNode[] = [];
+
+  private sourceChunks: AudioBuffer[] = [];
+  private chunksDuration = 0;
+  private processed: ProcessedAudio | null = null;
+  private timings: WordTiming[] = [];
+  private stretch: TimeStretchSettings = NEUTRAL_TIME_STRETCH;
+  private streaming = false;
+  private playing = false;
+
+  // Context time at which `startOffset` (source time) was heard.
+  private startTime = 0;
+  private startOffset = 0;
+  // Context time at which the next appended chunk starts.
+  private nextChunkStart = 0;
+  private wordIndex = -1;
+  private lastTimeUpdate = -Infinity;
+  private progressFrame: number | null = null;
+  private visualizerFrame: number | null = null;
+
+  private readonly renderedChunks = new WeakMap<AudioBuffer, { key: string; buffer: AudioBuffer }>();
+  private mergedTimeline: { source: AudioBuffer[]; buffer: AudioBuffer } | null = null;
+
+  constructor(environment: Partial<PlaybackEnvironment> = {}) {
+    this.environment = { ...browserEnvironment, ...environment };
+  }
+
+  on<K extends PlaybackEvent>(event: K, listener: (value: PlaybackEventMap[K]) => void): () => void {
+    const listeners = this.listeners[event] as Set<(value: PlaybackEventMap[K]) => void>;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private emit<K extends PlaybackEvent>(event: K, value: PlaybackEventMap[K]) {
+    (this.listeners[event] as Set<(value: PlaybackEventMap[K]) => void>).forEach(listener => listener(value));
+  }
+
+  // Null until the first call to ensureContext.
+  get context(): AudioContext | null {
+    return this.audioContext;
+  }
+
+  get chunks(): AudioBuffer[] {
+    return this.sourceChunks;
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  get duration(): number {
+    return this.activeProcessed()?.buffer.duration ?? this.chunksDuration;
+  }
+
+  get position(): number {
+    return Math.min(this.elapsed(), this.duration);
+  }
+
+  // Creates the context and its output graph on first use. Browsers only let
+  // a context start after a user gesture, so this is called from handlers.
+  async ensureContext(): Promise<AudioContext> {
+    if (!this.audioContext) {
+      const ctx = this.environment.createContext();
+      const masterGain = ctx.createGain();
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = VISUALIZER_FFT_SIZE;
+      masterGain.connect(analyser);
+      analyser.connect(ctx.destination);
+      this.audioContext = ctx;
+      this.masterGain = masterGain;
+      this.analyser = analyser;
+    }
+    if (this.audioContext.state === "suspended") {
+      await this.audioContext.resume();
+    }
+    return this.audioContext;
+  }
+
+  // Frequency bars are drawn on the canvas while playing.
+  setVisualizer(canvas: HTMLCanvasElement | null) {
+    this.canvas = canvas;
+    if (this.playing) this.startVisualizer();
+  }
+
+  // Replaces the timeline and stops at the start.
+  load(chunks: AudioBuffer[]) {
+    this.stop();
+    this.sourceChunks = chunks;
+    this.chunksDuration = chunks.reduce((sum, buffer) => sum + buffer.duration, 0);
+    this.emit("durationchange", this.duration);
+  }
+
+  // Adds a streamed chunk to the end, scheduling it at once when playing.
+  append(buffer: AudioBuffer) {
+    this.sourceChunks = [...this.sourceChunks, buffer];
+    this.chunksDuration += buffer.duration;
+    this.emit("durationchange", this.duration);
+    if (this.playing) this.schedule(buffer);
+  }
+
+  // While streaming, running past the received audio is a buffer underrun
+  // rather than the end of playback.
+  setStreaming(streaming: boolean) {
+    this.streaming = streaming;
+  }
+
+  // Stops playback only if it changes what plays.
+  setProcessed(processed: ProcessedAudio | null) {
+    const previous = this.activeProcessed();
+    this.processed = processed;
+    if (this.activeProcessed() === previous) return;
+    this.stop();
+    this.emit("durationchange", this.duration);
+  }
+
+  setWordTimings(timings: WordTiming[]) {
+    this.timings = timings;
+  }
+
+  // Playback continues from the same spot in the text at the new settings.
+  setTimeStretch(settings: TimeStretchSettings) {
+    const position = this.position;
+    this.stretch = settings;
+    if (this.playing) {
+      this.play(position);
+    } else {
+      this.startOffset = position;
+    }
+  }
+
+  // Never rejects: a failure to start is reported as an `error` event, so
+  // callers need not await it.
+  async play(from = this.position) {
+    try {
+      await this.start(from);
+    } catch (error) {
+      this.emit("error", error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private async start(from: number) {
+    const ctx = this.audioContext;
+    const chunks = this.timelineChunks();
+    if (!ctx || chunks.length === 0) return;
+    if (from >= this.duration && !this.streaming) from = 0;
+    if (ctx.state === "suspended") await ctx.resume();
+    this.stopSources();
+
+    let accumulated = 0;
+    let startIndex = chunks.length;
+    let startChunkOffset = 0;
+    for (let i = 0; i < chunks.length; i++) {
+      if (accumulated + chunks[i].duration > from) {
+        startIndex = i;
+        startChunkOffset = from - accumulated;
+        break;
+      }
+      accumulated += chunks[i].duration;
+    }
+
+    this.startTime = ctx.currentTime;
+    this.startOffset = from;
+    this.nextChunkStart = this.startTime;
+    for (let i = startIndex; i < chunks.length; i++) {
+      this.schedule(chunks[i], i === startIndex ? startChunkOffset : 0);
+    }
+
+    this.setPlaying(true);
+    this.lastTimeUpdate = -Infinity;
+    if (this.progressFrame !== null) this.environment.cancelFrame(this.progressFrame);
+    this.progressFrame = this.environment.requestFrame(this.tick);
+    this.startVisualizer();
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.startOffset = this.position;
+    this.stopSources();
+    this.cancelFrames();
+    this.setPlaying(false);
+    this.emit("timeupdate", this.startOffset);
+  }
+
+  seek(time: number) {
+    const position = Math.max(0, Math.min(time, this.duration));
+    if (this.playing) {
+      this.play(position);
+      return;
+    }
+    this.startOffset = position;
+    this.emit("timeupdate", position);
+    this.setWordIndex(wordIndexAt(this.timings, position));
+  }
+
+  // Stops and rewinds to the start.
+  stop() {
+    this.stopSources();
+    this.cancelFrames();
+    this.setPlaying(false);
+    this.startTime = 0;
+    this.startOffset = 0;
+    this.setWordIndex(-1);
+    this.emit("timeupdate", 0);
+    this.clearCanvas();
+  }
+
+  // Stops and closes the context; the next ensureContext opens a new one.
+  dispose() {
+    this.stop();
+    this.audioContext?.close();
+    this.audioContext = null;
+    this.masterGain = null;
+    this.analyser = null;
+  }
+
+  private elapsed(): number {
+    if (!this.playing || !this.audioContext) return this.startOffset;
+    return this.startOffset + (this.audioContext.currentTime - this.startTime) * this.stretch.speed;
+  }
+
+  private activeProcessed(): ProcessedAudio | null {
+    return this.processed?.source === this.sourceChunks ? this.processed : null;
+  }
+
+  private setPlaying(playing: boolean) {
+    if (playing === this.playing) return;
+    this.playing = playing;
+    this.emit("playingchange", playing);
+  }
+
+  private setWordIndex(index: number) {
+    if (index === this.wordIndex) return;
+    this.wordIndex = index;
+    this.emit("wordchange", index);
+  }
+
+  // Between words the last one stays highlighted, so it does not flicker.
+  private readonly tick = (now: number) => {
+    this.progressFrame = null;
+    if (!this.playing) return;
+    const elapsed = this.elapsed();
+    const index = wordIndexAt(this.timings, elapsed);
+    if (index !== -1) this.setWordIndex(index);
+
+    if (elapsed < this.duration || this.streaming) {
+      if (now - this.lastTimeUpdate >= PLAYBACK_TIME_UPDATE_MS) {
+        this.lastTimeUpdate = now;
+        this.emit("timeupdate", Math.min(elapsed, this.duration));
+      }
+      this.progressFrame = this.environment.requestFrame(this.tick);
+    } else {
+      this.finish();
+    }
+  };
+
+  // Reaching the end leaves the position there, so playing again restarts.
+  private finish() {
+    this.stopSources();
+    this.cancelFrames();
+    this.startOffset = this.duration;
+    this.setPlaying(false);
+    this.emit("timeupdate", this.duration);
+    this.clearCanvas();
+  }
+
+  private startVisualizer() {
+    const analyser = this.analyser;
+    if (!analyser || !this.canvas || this.visualizerFrame !== null) return;
+    const data = new Uint8Array(analyser.frequencyBinCount);
+    const draw = () => {
+      this.visualizerFrame = null;
+      if (!this.playing || !this.canvas) return;
+      analyser.getByteFrequencyData(data);
+      drawFrequencyBars(this.canvas, data);
+      this.visualizerFrame = this.environment.requestFrame(draw);
+    };
+    draw();
+  }
+
+  private clearCanvas() {
+    this.canvas?.getContext("2d")?.clearRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  private cancelFrames() {
+    if (this.progressFrame !== null) this.environment.cancelFrame(this.progressFrame);
+    if (this.visualizerFrame !== null) this.environment.cancelFrame(this.visualizerFrame);
+    this.progressFrame = null;
+    this.visualizerFrame = null;
+  }
+
+  private stopSources() {
+    this.sources.forEach(source => {
+      source.onended = null;
+      try { source.stop(); } catch (e) {}
+      source.disconnect();
+    });
+    this.sources = [];
+  }
+
+  // Chunks are stretched independently while streaming. Once the stream is
+  // complete, a stretched timeline is rendered as one buffer instead so there
+  // are no seams at chunk boundaries.
+  private timelineChunks(): AudioBuffer[] {
+    const processed = this.activeProcessed();
+    if (processed) return [processed.buffer];
+    const chunks = this.sourceChunks;
+    const ctx = this.audioContext;
+    if (!ctx || chunks.length <= 1 || this.streaming || isNeutralTimeStretch(this.stretch)) return chunks;
+    if (this.mergedTimeline?.source !== chunks) {
+      const samples = concatenateChunks(chunks);
+      const buffer = ctx.createBuffer(1, samples.length, chunks[0].sampleRate);
+      buffer.copyToChannel(samples, 0);
+      this.mergedTimeline = { source: chunks, buffer };
+    }
+    return [this.mergedTimeline.buffer];
+  }
+
+  // The buffer actually scheduled for a source chunk at the current speed and
+  // pitch, rendered once per chunk and setting.
+  private renderChunk(buffer: AudioBuffer): AudioBuffer {
+    const ctx = this.audioContext;
+    if (!ctx || isNeutralTimeStretch(this.stretch)) return buffer;
+    const key = `${this.stretch.speed}|${this.stretch.semitones}`;
+    const cached = this.renderedChunks.get(buffer);
+    if (cached?.key === key) return cached.buffer;
+    const samples = applyTimeStretch(buffer.getChannelData(0), buffer.sampleRate, this.stretch);
+    const rendered = ctx.createBuffer(1, Math.max(1, samples.length), buffer.sampleRate);
+    rendered.copyToChannel(samples, 0);
+    this.renderedChunks.set(buffer, { key, buffer: rendered });
+    return rendered;
+  }
+
+  // Schedules a buffer right after everything already queued, starting
+  // `offset` seconds (source time) into it. If the queue ran dry (the stream
+  // fell behind playback), the timeline is shifted so elapsed time keeps
+  // matching the audio that is actually heard.
+  private schedule(buffer: AudioBuffer, offset = 0) {
+    const ctx = this.audioContext;
+    if (!ctx || !this.masterGain) return;
+
+    const speed = this.stretch.speed;
+    const rendered = this.renderChunk(buffer);
+    const now = ctx.currentTime;
+    if (this.nextChunkStart < now) {
+      this.startTime += now - this.nextChunkStart;
+      this.nextChunkStart = now;
+    }
+
+    const source = ctx.createBufferSource();
+    source.buffer = rendered;
+    source.connect(this.masterGain);
+    source.start(this.nextChunkStart, offset / speed);
+    this.nextChunkStart += rendered.duration - offset / speed;
+
+    source.onended = () => {
+      if (!this.playing || this.streaming || this.sources[this.sources.length - 1] !== source) return;
+      if (this.elapsed() >= this.duration - END_TOLERANCE_SECONDS) this.finish();
+    };
+    this.sources.push(source);
+  }
+}
@@ -0,0 +1,105 @@
+import { VOICES } from "../constants";
+import { GEMINI_TTS_MODEL } from "./geminiProvider";
+import { CancelledError, classifyError, deserializeSpeechError, NetworkError, SpeechErrorPayload } from "./speechErrors";
+import { SpeechProvider } from "./speechProvider";
+
+// Base URL of the synthesis proxy (server/main.ts). Replaced at build time in
+// the browser; read from the environment in Node.
+const PROXY_URL = (process.env.TTS_PROXY_URL ?? "").replace(/\/+$/, "");
+
+interface ServerEvent {
+  event: string;
+  data: string;
+}
+
+// Splits a server-sent event stream into events as they arrive.
+async function* readServerEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        let event = "message";
+        const data: string[] = [];
+        for (const line of block.split("\n")) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+        }
+        yield { event, data: data.join("\n") };
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const readErrorResponse = async (response: Response): Promise<Error> => {
+  try {
+    const { error } = await response.json() as { error: SpeechErrorPayload };
+    return deserializeSpeechError({ ...error, status: error.status ?? response.status });
+  } catch {
+    return classifyError(Object.assign(new Error(`The synthesis proxy answered ${response.status} ${response.statusText}`), { status: response.status }));
+  }
+};
+
+// Synthesizes and translates through the proxy, which holds the API key and
+// forwards the request to Gemini. The audio is the upstream's, chunk for chunk.
+export const proxyProvider: SpeechProvider = {
+  id: "proxy",
+  label: "Gemini (server proxy)",
+  model: GEMINI_TTS_MODEL,
+  capabilities: {
+    multiSpeaker: true,
+    maxSpeakers: 2,
+    sampleRates: [24000],
+    outputSampleRate: 24000,
+    requiresApiKey: false,
+  },
+  isAvailable: () => Boolean(PROXY_URL),
+  listVoices: async () => VOICES,
+  streamSpeech: async ({ text, voice, tone, speakers, emphasis }, onAudioChunk, signal) => {
+    let response: Response;
+    try {
+      response = await fetch(`${PROXY_URL}/api/speech`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text, voice, tone, speakers, emphasis }),
+        signal,
+      });
+    } catch (error) {
+      throw signal?.aborted ? new CancelledError() : new NetworkError(`Could not reach the synthesis proxy: ${(error as Error).message}`, error);
+    }
+    if (!response.ok || !response.body) throw await readErrorResponse(response);
+
+    for await (const { event, data } of readServerEvents(response.body)) {
+      if (signal?.aborted) throw new CancelledError();
+      if (event === "audio") onAudioChunk(data);
+      else if (event === "error") throw deserializeSpeechError(JSON.parse(data));
+      else if (event === "end") return;
+    }
+    throw signal?.aborted ? new CancelledError() : new NetworkError("The synthesis proxy closed the stream early.");
+  },
+  translate: async ({ text, targetLanguage }, signal) => {
+    let response: Response;
+    try {
+      response = await fetch(`${PROXY_URL}/api/translate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text, targetLanguage }),
+        signal,
+      });
+    } catch (error) {
+      throw signal?.aborted ? new CancelledError() : new NetworkError(`Could not reach the synthesis proxy: ${(error as Error).message}`, error);
+    }
+    if (!response.ok) throw await readErrorResponse(response);
+    const { translation } = await response.json() as { translation: string };
+    return translation;
+  },
+};
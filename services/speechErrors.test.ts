@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { CancelledError, classifyError, deserializeSpeechError, QuotaError, RateLimitError, serializeSpeechError } from "./speechErrors";
+
+const withStatus = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+describe("classifyError", () => {
+  it.each([
+    [withStatus("Forbidden", 403), "auth", false],
+    [new Error("API key not valid. Please pass a valid API key."), "auth", false],
+    [withStatus("Too Many Requests", 429), "rate_limit", true],
+    [new Error("429 RESOURCE_EXHAUSTED: quota exceeded for requests per day"), "quota", false],
+    [new Error("Response was blocked due to SAFETY"), "safety", false],
+    [withStatus("Service Unavailable", 503), "server", true],
+    [withStatus("Bad Request", 400), "invalid_input", false],
+    [new Error("INVALID_ARGUMENT: text is empty"), "invalid_input", false],
+    [new TypeError("Failed to fetch"), "network", true],
+    [new Error("read ECONNRESET"), "network", true],
+    [new Error("something odd"), "unknown", false],
+    ["not even an error", "unknown", false],
+  ])("classifies %s as %s", (error, kind, retryable) => {
+    const classified = classifyError(error);
+    expect(classified.kind).toBe(kind);
+    expect(classified.retryable).toBe(retryable);
+  });
+
+  it("lets the HTTP status win over the message", () => {
+    expect(classifyError(withStatus("stream closed", 500)).kind).toBe("server");
+    expect(classifyError(withStatus("rate limit", 401)).kind).toBe("auth");
+  });
+
+  it("maps aborts to cancellation and passes speech errors through", () => {
+    expect(classifyError(new DOMException("The operation was aborted.", "AbortError"))).toBeInstanceOf(CancelledError);
+    const quota = new QuotaError("out of quota");
+    expect(classifyError(quota)).toBe(quota);
+  });
+
+  it("reads the server's retry hint from a rate limit", () => {
+    const fromText = classifyError(new Error("RESOURCE_EXHAUSTED, please retry in 7.5s"));
+    expect(fromText).toBeInstanceOf(RateLimitError);
+    expect((fromText as RateLimitError).retryAfterMs).toBe(7500);
+    const fromDetails = classifyError(withStatus('{"retryDelay":"12s"}', 429));
+    expect((fromDetails as RateLimitError).retryAfterMs).toBe(12000);
+    expect((classifyError(withStatus("slow down", 429)) as RateLimitError).retryAfterMs).toBeUndefined();
+  });
+});
+
+describe("serializeSpeechError", () => {
+  it("round-trips the kind, status and retry hint", () => {
+    const payload = serializeSpeechError(new RateLimitError("slow down", 2000, 429));
+    expect(payload).toEqual({ kind: "rate_limit", message: "slow down", retryable: true, status: 429, retryAfterMs: 2000 });
+    const restored = deserializeSpeechError(payload);
+    expect(restored).toBeInstanceOf(RateLimitError);
+    expect(restored).toMatchObject({ kind: "rate_limit", status: 429, retryAfterMs: 2000, retryable: true });
+  });
+});
@@ -0,0 +1,179 @@
+export type SpeechErrorKind =
+  | "auth"
+  | "quota"
+  | "rate_limit"
+  | "safety"
+  | "network"
+  | "server"
+  | "invalid_input"
+  | "cancelled"
+  | "budget"
+  | "unknown";
+
+// Base class for every failure the speech service reports. `retryable` marks
+// transient failures that are worth another attempt after a backoff.
+export class SpeechError extends Error {
+  readonly kind: SpeechErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(kind: SpeechErrorKind, message: string, { retryable = false, status, cause }: { retryable?: boolean; status?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = "SpeechError";
+    this.kind = kind;
+    this.retryable = retryable;
+    this.status = status;
+    if (cause !== undefined) (this as { cause?: unknown }).cause = cause;
+  }
+}
+
+export class AuthError extends SpeechError {
+  constructor(message: string, status?: number, cause?: unknown) {
+    super("auth", message, { status, cause });
+    this.name = "AuthError";
+  }
+}
+
+export class QuotaError extends SpeechError {
+  constructor(message: string, status?: number, cause?: unknown) {
+    super("quota", message, { status, cause });
+    this.name = "QuotaError";
+  }
+}
+
+export class RateLimitError extends SpeechError {
+  // Server-suggested wait before the next attempt, when it sent one.
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, status?: number, cause?: unknown) {
+    super("rate_limit", message, { retryable: true, status, cause });
+    this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class SafetyBlockError extends SpeechError {
+  constructor(message: string, cause?: unknown) {
+    super("safety", message, { cause });
+    this.name = "SafetyBlockError";
+  }
+}
+
+// Connection failures and streams that end before any audio arrives.
+export class NetworkError extends SpeechError {
+  constructor(message: string, cause?: unknown) {
+    super("network", message, { retryable: true, cause });
+    this.name = "NetworkError";
+  }
+}
+
+export class ServerError extends SpeechError {
+  constructor(message: string, status?: number, cause?: unknown) {
+    super("server", message, { retryable: true, status, cause });
+    this.name = "ServerError";
+  }
+}
+
+export class InvalidInputError extends SpeechError {
+  constructor(message: string, status?: number, cause?: unknown) {
+    super("invalid_input", message, { status, cause });
+    this.name = "InvalidInputError";
+  }
+}
+
+export class CancelledError extends SpeechError {
+  constructor(message = "Generation was cancelled.") {
+    super("cancelled", message);
+    this.name = "CancelledError";
+  }
+}
+
+// Refused locally because the session's hard usage budget is spent.
+export class BudgetExceededError extends SpeechError {
+  constructor(message = "The session's usage budget is spent.") {
+    super("budget", message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+const parseRetryAfterMs = (message: string): number | undefined => {
+  const match = message.match(/retry(?:Delay"?:\s*"| in )(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// Maps whatever a provider threw onto the error model. HTTP status wins when
+// the error carries one (the Gemini SDK's ApiError does); otherwise the
+// message is matched against the wording the API and browsers use.
+export const classifyError = (error: unknown): SpeechError => {
+  if (error instanceof SpeechError) return error;
+  if (error instanceof DOMException && error.name === "AbortError") return new CancelledError();
+
+  const message = error instanceof Error ? error.message : String(error ?? "Unknown error");
+  const status = typeof (error as { status?: unknown })?.status === "number" ? (error as { status: number }).status : undefined;
+
+  if (status === 401 || status === 403 || /API[_ ]?key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AuthError(message, status, error);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit/i.test(message)) {
+    return /billing|per ?day/i.test(message)
+      ? new QuotaError(message, status, error)
+      : new RateLimitError(message, parseRetryAfterMs(message), status, error);
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|blocked/i.test(message)) {
+    return new SafetyBlockError(message, error);
+  }
+  if (status !== undefined && status >= 500) {
+    return new ServerError(message, status, error);
+  }
+  if (status === 400 || status === 404 || status === 413 || /INVALID_ARGUMENT/i.test(message)) {
+    return new InvalidInputError(message, status, error);
+  }
+  if (error instanceof TypeError || /network|fetch|ECONNRESET|ETIMEDOUT|socket|stream/i.test(message)) {
+    return new NetworkError(message, error);
+  }
+  return new SpeechError("unknown", message, { cause: error });
+};
+
+// One sentence telling the user what went wrong and what to do about it.
+export const describeSpeechError = (error: unknown): string => {
+  const classified = classifyError(error);
+  switch (classified.kind) {
+    case "auth": return "The API key was rejected. Check GEMINI_API_KEY in .env.local, or switch to the Offline Mock engine.";
+    case "quota": return "The API quota is used up. Wait for it to reset or check the project's billing settings.";
+    case "rate_limit": return "The API is still rate limiting after several retries. Wait a minute, then retry the failed segments.";
+    case "safety": return "The provider blocked this text with its safety filters. Rephrase it and try again.";
+    case "network": return "The connection to the speech service dropped. Check your network and retry.";
+    case "server": return `The speech service is having trouble (${classified.status ?? "server error"}). Try again shortly.`;
+    case "invalid_input": return `The request was rejected as invalid: ${classified.message}`;
+    case "cancelled": return "Generation was cancelled.";
+    case "budget": return "This session has reached its hard usage budget. Raise the limit in the Usage panel to keep generating.";
+    default: return `Speech generation failed: ${classified.message}`;
+  }
+};
+
+// How an error crosses the wire between the synthesis proxy and its clients.
+export interface SpeechErrorPayload {
+  kind: SpeechErrorKind;
+  message: string;
+  retryable: boolean;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+export const serializeSpeechError = (error: unknown): SpeechErrorPayload => {
+  const classified = classifyError(error);
+  return {
+    kind: classified.kind,
+    message: classified.message,
+    retryable: classified.retryable,
+    status: classified.status,
+    retryAfterMs: classified instanceof RateLimitError ? classified.retryAfterMs : undefined,
+  };
+};
+
+// Rate limits come back as RateLimitError so the retry loop honours the wait.
+export const deserializeSpeechError = ({ kind, message, retryable, status, retryAfterMs }: SpeechErrorPayload): SpeechError => {
+  if (kind === "rate_limit") return new RateLimitError(message, retryAfterMs, status);
+  if (kind === "cancelled") return new CancelledError(message);
+  return new SpeechError(kind, message, { retryable, status });
+};
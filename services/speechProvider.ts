@@ -0,0 +1,99 @@
+export type VoiceGender = "female" | "male";
+
+// A voice as the catalog shows it. Providers fill in what they know.
+export interface VoiceOption {
+  value: string;
+  label: string;
+  gender?: VoiceGender;
+  // A word or two on the voice's character, e.g. "Firm" or "Breezy".
+  description?: string;
+  // BCP 47 tags of the languages the voice can speak.
+  languages?: string[];
+}
+
+export interface SpeechCapabilities {
+  multiSpeaker: boolean;
+  // Number of distinct speakers a single multi-speaker request may use.
+  maxSpeakers: number;
+  sampleRates: number[];
+  outputSampleRate: number;
+  requiresApiKey: boolean;
+}
+
+export interface SpeakerVoice {
+  speaker: string;
+  voice: string;
+  tone: string;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voice: string;
+  tone: string;
+  // When set, `text` is a `Speaker: line` script and each label is voiced
+  // natively by the provider. Only valid if `capabilities.multiSpeaker`.
+  speakers?: SpeakerVoice[];
+  // Words or phrases inside `text` that should be stressed.
+  emphasis?: string[];
+}
+
+export interface TranslationRequest {
+  // Editor text, markup included.
+  text: string;
+  // BCP 47 tag of the language to translate into.
+  targetLanguage: string;
+}
+
+// A speech provider turns a request into a stream of base64 encoded 16-bit
+// little-endian mono PCM chunks at `capabilities.outputSampleRate`. It should
+// stop promptly and reject once `signal` aborts.
+export interface SpeechProvider {
+  id: string;
+  label: string;
+  // Identifies the model behind the provider, so cached audio from one model
+  // is never served for another.
+  model: string;
+  capabilities: SpeechCapabilities;
+  isAvailable: () => boolean;
+  listVoices: () => Promise<VoiceOption[]>;
+  streamSpeech: (request: SpeechRequest, onAudioChunk: (chunk: string) => void, signal?: AbortSignal) => Promise<void>;
+  // Translates text for dubbing, keeping its markup. Providers without it
+  // cannot dub.
+  translate?: (request: TranslationRequest, signal?: AbortSignal) => Promise<string>;
+}
+
+const providers = new Map<string, SpeechProvider>();
+let activeProviderId: string | null = null;
+
+export const registerProvider = (provider: SpeechProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const listProviders = (): SpeechProvider[] => Array.from(providers.values());
+
+export const getProvider = (id: string): SpeechProvider => {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown speech provider: ${id}`);
+  }
+  return provider;
+};
+
+export const setActiveProvider = (id: string): void => {
+  getProvider(id);
+  activeProviderId = id;
+};
+
+// Falls back to the first available provider so a missing API key degrades
+// to the offline provider instead of breaking the app.
+export const getActiveProvider = (): SpeechProvider => {
+  if (activeProviderId) {
+    return getProvider(activeProviderId);
+  }
+  const all = listProviders();
+  const provider = all.find(p => p.isAvailable()) ?? all[0];
+  if (!provider) {
+    throw new Error("No speech providers are registered");
+  }
+  return provider;
+};
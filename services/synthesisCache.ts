@@ -0,0 +1,105 @@
+import { SYNTHESIS_CACHE_MAX_BYTES } from "../constants";
+import type { SpeechProvider, SpeechRequest } from "./speechProvider";
+
+export interface SynthesisCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+// Maps a request hash to the raw PCM chunks the provider streamed for it.
+export interface SynthesisCache {
+  get: (key: string) => Uint8Array[] | undefined;
+  set: (key: string, chunks: Uint8Array[]) => void;
+  clear: () => void;
+  stats: () => SynthesisCacheStats;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// Whitespace and Unicode composition do not change what is spoken, so they do
+// not change the key either.
+const normalizeText = (text: string): string => text.normalize("NFC").replace(/\s+/g, " ").trim();
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, "0")).join("");
+
+// SHA-256 over everything that affects the audio. Outside secure contexts,
+// where SubtleCrypto is missing, the canonical string itself is the key.
+export const synthesisCacheKey = async (provider: SpeechProvider, request: SpeechRequest): Promise<string> => {
+  const canonical = JSON.stringify([
+    provider.id,
+    provider.model,
+    normalizeText(request.text),
+    request.voice,
+    request.tone,
+    request.speakers ?? null,
+    request.emphasis ?? null,
+  ]);
+  if (typeof crypto === "undefined" || !crypto.subtle) return canonical;
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonical)));
+};
+
+// Least recently used entries are evicted once the total exceeds `maxBytes`;
+// a Map keeps insertion order, so re-inserting on access is enough.
+export const createSynthesisCache = (maxBytes = SYNTHESIS_CACHE_MAX_BYTES): SynthesisCache => {
+  const entries = new Map<string, { chunks: Uint8Array[]; bytes: number }>();
+  const listeners = new Set<() => void>();
+  let hits = 0;
+  let misses = 0;
+  let bytes = 0;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    bytes -= entry.bytes;
+  };
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (entry) {
+        hits++;
+        entries.delete(key);
+        entries.set(key, entry);
+      } else {
+        misses++;
+      }
+      notify();
+      return entry?.chunks;
+    },
+    set: (key, chunks) => {
+      remove(key);
+      const size = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+      if (size <= maxBytes) {
+        entries.set(key, { chunks, bytes: size });
+        bytes += size;
+        for (const oldest of entries.keys()) {
+          if (bytes <= maxBytes) break;
+          remove(oldest);
+        }
+      }
+      notify();
+    },
+    clear: () => {
+      entries.clear();
+      bytes = 0;
+      hits = 0;
+      misses = 0;
+      notify();
+    },
+    stats: () => ({ hits, misses, entries: entries.size, bytes, maxBytes }),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+export const synthesisCache = createSynthesisCache();
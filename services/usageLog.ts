@@ -0,0 +1,65 @@
+import { USAGE_HISTORY_LIMIT } from "../constants";
+import { loadJson, saveJson } from "./localStore";
+import { budgetLevel, BudgetLevel, DEFAULT_USAGE_BUDGET, summarizeUsage, UsageBudget, UsageRecord, UsageTotals } from "../utils/usage";
+
+const RECORDS_KEY = "text-to-audio-usage";
+const BUDGET_KEY = "text-to-audio-usage-budget";
+
+// Every provider request, persisted across reloads, plus the budget that
+// applies to the current session (the records made since this page loaded).
+export interface UsageLog {
+  records: () => UsageRecord[];
+  record: (record: UsageRecord) => void;
+  clear: () => void;
+  sessionStart: number;
+  sessionTotals: () => UsageTotals;
+  budget: () => UsageBudget;
+  setBudget: (budget: UsageBudget) => void;
+  budgetLevel: () => BudgetLevel;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// Records are written by this module only, so a list is trusted as is.
+const readRecords = (stored: unknown): UsageRecord[] => Array.isArray(stored) ? stored : [];
+
+const readBudget = (stored: unknown): Partial<UsageBudget> =>
+  typeof stored === "object" && stored !== null && !Array.isArray(stored) ? stored : {};
+
+export const createUsageLog = (now: () => number = Date.now): UsageLog => {
+  let records = loadJson(RECORDS_KEY, [], readRecords);
+  let budget: UsageBudget = { ...DEFAULT_USAGE_BUDGET, ...loadJson(BUDGET_KEY, {}, readBudget) };
+  const sessionStart = now();
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(listener => listener());
+  const sessionTotals = () => summarizeUsage(records.filter(record => record.time >= sessionStart));
+
+  return {
+    records: () => records,
+    record: (record) => {
+      records = [...records, record].slice(-USAGE_HISTORY_LIMIT);
+      saveJson(RECORDS_KEY, records);
+      notify();
+    },
+    clear: () => {
+      records = [];
+      saveJson(RECORDS_KEY, records);
+      notify();
+    },
+    sessionStart,
+    sessionTotals,
+    budget: () => budget,
+    setBudget: (next) => {
+      budget = next;
+      saveJson(BUDGET_KEY, budget);
+      notify();
+    },
+    budgetLevel: () => budgetLevel(sessionTotals(), budget),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+export const usageLog = createUsageLog();
@@ -0,0 +1,49 @@
+import { AUDITION_TEXT } from "../constants";
+import { concatenateSamples, decode, pcm16ToSamples } from "../utils/audio";
+import { getActiveProvider, synthesizeSegment } from "./geminiService";
+import { loadJson, saveJson } from "./localStore";
+
+const FAVOURITES_KEY = "text-to-audio-favourite-voices";
+const STYLES_KEY = "text-to-audio-custom-styles";
+
+// Small lists of names, kept in localStorage like the lexicon.
+const readNames = (stored: unknown): string[] =>
+  Array.isArray(stored) ? stored.filter((item): item is string => typeof item === "string") : [];
+
+const loadList = (key: string): string[] => loadJson(key, [], readNames);
+
+export const getFavouriteVoices = (): string[] => loadList(FAVOURITES_KEY);
+export const setFavouriteVoices = (voices: string[]): void => saveJson(FAVOURITES_KEY, voices);
+
+// Free-text delivery instructions saved next to the fixed tones, e.g.
+// "like a sports commentator".
+export const getCustomStyles = (): string[] => loadList(STYLES_KEY);
+export const setCustomStyles = (styles: string[]): void => saveJson(STYLES_KEY, styles);
+
+export interface Audition {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+// Decoded samples per provider, voice and tone, so a voice is synthesized
+// once per session however often it is played. A failed request is not kept.
+const auditions = new Map<string, Promise<Audition>>();
+
+export const auditionVoice = (voice: string, tone: string): Promise<Audition> => {
+  const provider = getActiveProvider();
+  const key = JSON.stringify([provider.id, voice, tone]);
+  let audition = auditions.get(key);
+  if (!audition) {
+    audition = (async () => {
+      const parts: Float32Array[] = [];
+      const text = AUDITION_TEXT.replace("{voice}", voice);
+      await synthesizeSegment({ text, voice, tone }, chunk => parts.push(pcm16ToSamples(decode(chunk))), {
+        onRetry: () => { parts.length = 0; },
+      });
+      return { samples: concatenateSamples(parts), sampleRate: provider.capabilities.outputSampleRate };
+    })();
+    auditions.set(key, audition);
+    audition.catch(() => auditions.delete(key));
+  }
+  return audition;
+};
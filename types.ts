@@ -0,0 +1,20 @@
+export interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface AudioChapter {
+  title: string;
+  // Seconds from the start of the file.
+  start: number;
+}
+
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  // Free-form comment; the export menu fills it with the source text.
+  comment?: string;
+  // Chapter markers, in order.
+  chapters?: AudioChapter[];
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { alignSegments, alignWords, computeEnergyEnvelope, detectSpeechRegions, proportionalTimings, wordIndexAt } from './alignment';
+
+const SAMPLE_RATE = 8000;
+
+// A tone for each [start, end) burst, silence elsewhere.
+const bursts = (spans: [number, number][], duration: number): Float32Array => {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  for (const [start, end] of spans) {
+    for (let i = Math.round(start * SAMPLE_RATE); i < Math.round(end * SAMPLE_RATE); i++) {
+      samples[i] = 0.5 * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE);
+    }
+  }
+  return samples;
+};
+
+// Does each word fall inside the burst it was spoken in, give or take a frame?
+const expectWithin = (timings: { start: number; end: number }[], spans: [number, number][]) => {
+  expect(timings).toHaveLength(spans.length);
+  timings.forEach((timing, index) => {
+    expect(timing.start).toBeGreaterThanOrEqual(spans[index][0] - 0.02);
+    expect(timing.end).toBeLessThanOrEqual(spans[index][1] + 0.02);
+  });
+};
+
+describe('detectSpeechRegions', () => {
+  it('finds each burst and ignores short gaps', () => {
+    const samples = bursts([[0.1, 0.4], [0.42, 0.6], [1, 1.3]], 1.5);
+    const regions = detectSpeechRegions(computeEnergyEnvelope(samples, SAMPLE_RATE));
+    expect(regions).toHaveLength(2);
+    expect(regions[0].start).toBeCloseTo(0.1, 1);
+    expect(regions[0].end).toBeCloseTo(0.6, 1);
+    expect(regions[1].start).toBeCloseTo(1, 1);
+  });
+});
+
+describe('alignWords', () => {
+  it('puts one word in each region when the counts match', () => {
+    const spans: [number, number][] = [[0.1, 0.35], [0.6, 0.9], [1.2, 1.7]];
+    const timings = alignWords(bursts(spans, 2), SAMPLE_RATE, ['one', 'two', 'elephant.']);
+    expectWithin(timings, spans);
+    expect(timings.map(timing => timing.word)).toEqual(['one', 'two', 'elephant.']);
+  });
+
+  it('splits a region between the words run together in it', () => {
+    const timings = alignWords(bursts([[0.1, 0.7], [1.2, 1.5]], 2), SAMPLE_RATE, ['hello', 'there,', 'friend.']);
+    expect(timings[0].start).toBeCloseTo(0.1, 1);
+    expect(timings[1].end).toBeCloseTo(0.7, 1);
+    expect(timings[1].start).toBe(timings[0].end);
+    expect(timings[2].start).toBeCloseTo(1.2, 1);
+  });
+
+  it('falls back to proportional timings on silence', () => {
+    const words = ['a', 'longer', 'phrase'];
+    expect(alignWords(new Float32Array(SAMPLE_RATE), SAMPLE_RATE, words)).toEqual(proportionalTimings(words, 1));
+  });
+
+  it('keeps long texts aligned inside the search band', () => {
+    const spans: [number, number][] = [];
+    for (let i = 0; i < 400; i++) spans.push([i * 0.5 + 0.1, i * 0.5 + 0.35]);
+    const words = spans.map((_, i) => (i % 10 === 9 ? 'word.' : 'word'));
+    expectWithin(alignWords(bursts(spans, 200), SAMPLE_RATE, words), spans);
+  });
+});
+
+describe('alignSegments', () => {
+  it('offsets each segment by the audio before it', () => {
+    const first: [number, number][] = [[0.1, 0.4], [0.6, 0.9]];
+    const second: [number, number][] = [[0.2, 0.5]];
+    const timings = alignSegments([
+      { samples: bursts(first, 1), words: ['one', 'two'] },
+      { samples: bursts(second, 1), words: ['three'] },
+    ], SAMPLE_RATE);
+    expectWithin(timings, [...first, [1.2, 1.5]]);
+  });
+
+  it('gives the words of a segment without audio zero-length timings', () => {
+    const timings = alignSegments([
+      { samples: bursts([[0.1, 0.4]], 0.5), words: ['one'] },
+      { samples: new Float32Array(0), words: ['lost', 'words'] },
+      { samples: bursts([[0.1, 0.4]], 0.5), words: ['two'] },
+    ], SAMPLE_RATE);
+    expect(timings.map(timing => timing.word)).toEqual(['one', 'lost', 'words', 'two']);
+    expect(timings[1]).toMatchObject({ start: 0.5, end: 0.5 });
+    expect(timings[3].start).toBeGreaterThanOrEqual(0.58);
+  });
+});
+
+describe('wordIndexAt', () => {
+  const timings = [
+    { word: 'one', start: 0.1, end: 0.5 },
+    { word: 'two', start: 0.5, end: 0.9 },
+    { word: 'three', start: 1.2, end: 1.6 },
+  ];
+
+  it('finds the word being spoken', () => {
+    expect(wordIndexAt(timings, 0.3)).toBe(0);
+    expect(wordIndexAt(timings, 0.5)).toBe(1);
+    expect(wordIndexAt(timings, 1.59)).toBe(2);
+  });
+
+  it('is -1 before, between and after words', () => {
+    expect(wordIndexAt(timings, 0)).toBe(-1);
+    expect(wordIndexAt(timings, 1)).toBe(-1);
+    expect(wordIndexAt(timings, 1.6)).toBe(-1);
+    expect(wordIndexAt([], 1)).toBe(-1);
+  });
+
+  it('skips zero-length timings', () => {
+    expect(wordIndexAt([{ word: 'lost', start: 1, end: 1 }, { word: 'kept', start: 1, end: 2 }], 1)).toBe(1);
+  });
+});
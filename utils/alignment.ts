@@ -0,0 +1,308 @@
+import type { WordTiming } from '../types';
+
+export interface AlignmentOptions {
+  // Hop and window of the energy envelope.
+  frameSeconds?: number;
+  // Unvoiced runs shorter than this are treated as part of the surrounding speech.
+  minPauseSeconds?: number;
+  // Voiced runs shorter than this are discarded as clicks or breath noise.
+  minSpeechSeconds?: number;
+}
+
+export interface SpeechRegion {
+  start: number;
+  end: number;
+}
+
+// One consecutive piece of a recording and the words spoken in it.
+export interface AlignmentSegment {
+  samples: Float32Array;
+  words: string[];
+}
+
+const DEFAULT_OPTIONS: Required<AlignmentOptions> = {
+  frameSeconds: 0.01,
+  minPauseSeconds: 0.05,
+  minSpeechSeconds: 0.03,
+};
+
+// Limits on how speech regions and words may group: several words run
+// together into one region, or one word broken into several regions by stop
+// consonants or breaths.
+const MAX_WORDS_PER_REGION = 12;
+const MAX_REGIONS_PER_WORD = 4;
+// Block costs are roughly negative log-likelihoods. Word durations are taken
+// as log-normal around the syllable estimate with this spread; a clause or
+// sentence end with no pause after it, and a word broken by a pause, are
+// unlikely events with fixed costs, the latter growing with the gap length.
+const DURATION_LOG_SPREAD = 0.5;
+const MISSING_PAUSE_COST = [0, 1.2, 3];
+const SPLIT_WORD_COST = 2.3;
+const INTRA_WORD_GAP_SECONDS = 0.15;
+// Half-width of the search band, in regions. It is fixed so time and memory
+// grow linearly with the text; callers align one synthesized segment at a
+// time, which keeps the true path well inside it.
+const SEARCH_BAND = 64;
+const SILENCE_DB = -120;
+
+export const computeEnergyEnvelope = (samples: Float32Array, sampleRate: number, frameSeconds = DEFAULT_OPTIONS.frameSeconds): Float32Array => {
+  const frameLength = Math.max(1, Math.round(frameSeconds * sampleRate));
+  const frameCount = Math.ceil(samples.length / frameLength);
+  const envelope = new Float32Array(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * frameLength;
+    const end = Math.min(samples.length, start + frameLength);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+    envelope[frame] = Math.sqrt(sum / Math.max(1, end - start));
+  }
+  return envelope;
+};
+
+const toDb = (value: number) => value > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(value)) : SILENCE_DB;
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+// Voicing threshold adapts to the recording: 30% of the way from the noise
+// floor to the loud end in dB, but never more than 35 dB below the peaks.
+export const detectSpeechRegions = (envelope: Float32Array, options: AlignmentOptions = {}): SpeechRegion[] => {
+  const { frameSeconds, minPauseSeconds, minSpeechSeconds } = { ...DEFAULT_OPTIONS, ...options };
+  if (envelope.length === 0) return [];
+
+  const levels = Array.from(envelope, toDb);
+  const sorted = [...levels].sort((a, b) => a - b);
+  const floorDb = percentile(sorted, 0.1);
+  const peakDb = percentile(sorted, 0.95);
+  if (peakDb <= SILENCE_DB) return [];
+  const threshold = Math.max(floorDb + 0.3 * (peakDb - floorDb), peakDb - 35);
+
+  const minPauseFrames = Math.round(minPauseSeconds / frameSeconds);
+  const regions: SpeechRegion[] = [];
+  let regionStart = -1;
+  let lastVoiced = -1;
+
+  for (let frame = 0; frame < levels.length; frame++) {
+    if (levels[frame] < threshold) continue;
+    if (regionStart === -1) {
+      regionStart = frame;
+    } else if (frame - lastVoiced - 1 >= minPauseFrames) {
+      regions.push({ start: regionStart * frameSeconds, end: (lastVoiced + 1) * frameSeconds });
+      regionStart = frame;
+    }
+    lastVoiced = frame;
+  }
+  if (regionStart !== -1) {
+    regions.push({ start: regionStart * frameSeconds, end: (lastVoiced + 1) * frameSeconds });
+  }
+  return regions.filter(region => region.end - region.start >= minSpeechSeconds);
+};
+
+// Rough spoken length of a word in syllables: vowel groups for words, about
+// 1.5 per digit for numbers ("2024" reads as "twenty twenty-four").
+export const estimateSyllables = (word: string): number => {
+  const digits = word.replace(/[^0-9]/g, '').length;
+  const letters = word.toLowerCase().replace(/[^\p{L}]/gu, '');
+  let syllables = digits * 1.5;
+
+  if (/^[a-z]+$/.test(letters)) {
+    let groups = (letters.match(/[aeiouy]+/g) ?? []).length;
+    if (groups > 1 && /[^aeiouy]e$/.test(letters)) groups--;
+    syllables += Math.max(1, groups);
+  } else if (letters.length > 0) {
+    syllables += Math.max(1, letters.length / 3);
+  }
+  return Math.max(1, syllables);
+};
+
+const pauseLevel = (word: string): number => {
+  if (/[.!?…]["'”’)\]]*$/.test(word)) return 2;
+  if (/[,;:—–-]["'”’)\]]*$/.test(word)) return 1;
+  return 0;
+};
+
+// Evenly spreads words over `duration` in proportion to their length. Used
+// when the audio has no detectable speech to align against.
+export const proportionalTimings = (words: string[], duration: number): WordTiming[] => {
+  const totalChars = words.reduce((sum, word) => sum + word.length, 0);
+  const timings: WordTiming[] = [];
+  let accumulatedTime = 0;
+  for (const word of words) {
+    const wordDuration = totalChars > 0 ? (word.length / totalChars) * duration : 0;
+    timings.push({ word, start: accumulatedTime, end: accumulatedTime + wordDuration });
+    accumulatedTime += wordDuration;
+  }
+  return timings;
+};
+
+interface Block {
+  words: number;
+  regions: number;
+}
+
+// Aligns `words` to the speech in `samples`:
+//  1. detect voiced regions from the energy envelope;
+//  2. partition words and regions into matching blocks (many words in one
+//     region, or one word over several regions) by dynamic programming,
+//     scoring how far each block's measured duration is from what its
+//     syllable count predicts, plus penalties for punctuation with no pause
+//     and for pauses inside a word;
+//  3. spread the words of each block over its region by syllable weight.
+// The search is banded around the diagonal so long texts stay tractable; if
+// no partition fits the band the timings fall back to `proportionalTimings`.
+// Long recordings should go through `alignSegments` instead.
+export const alignWords = (
+  samples: Float32Array,
+  sampleRate: number,
+  words: string[],
+  options: AlignmentOptions = {},
+): WordTiming[] => {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const duration = samples.length / sampleRate;
+  if (words.length === 0) return [];
+
+  const regions = detectSpeechRegions(computeEnergyEnvelope(samples, sampleRate, config.frameSeconds), config);
+  if (regions.length === 0) return proportionalTimings(words, duration);
+
+  const wordCount = words.length;
+  const regionCount = regions.length;
+  const weights = words.map(estimateSyllables);
+  const cumulativeWeight = [0];
+  for (const weight of weights) {
+    cumulativeWeight.push(cumulativeWeight[cumulativeWeight.length - 1] + weight);
+  }
+  const totalVoiced = regions.reduce((sum, region) => sum + region.end - region.start, 0);
+  const secondsPerSyllable = totalVoiced / cumulativeWeight[wordCount];
+
+  const blockCost = (firstWord: number, wordSpan: number, firstRegion: number, regionSpan: number): number => {
+    const weight = cumulativeWeight[firstWord + wordSpan] - cumulativeWeight[firstWord];
+    const actual = regions[firstRegion + regionSpan - 1].end - regions[firstRegion].start;
+    const ratio = Math.log(actual / (weight * secondsPerSyllable)) / DURATION_LOG_SPREAD;
+    let cost = (ratio * ratio * wordSpan) / 2;
+    for (let i = firstWord; i < firstWord + wordSpan - 1; i++) {
+      cost += MISSING_PAUSE_COST[pauseLevel(words[i])];
+    }
+    for (let r = firstRegion; r < firstRegion + regionSpan - 1; r++) {
+      const gap = (regions[r + 1].start - regions[r].end) / INTRA_WORD_GAP_SECONDS;
+      cost += SPLIT_WORD_COST + gap * gap;
+    }
+    return cost;
+  };
+
+  const rowStart = (i: number) => Math.max(0, Math.floor((i * regionCount) / wordCount) - SEARCH_BAND);
+  const rowEnd = (i: number) => Math.min(regionCount, Math.ceil((i * regionCount) / wordCount) + SEARCH_BAND);
+
+  const costs: Float64Array[] = [];
+  const steps: Block[][] = [];
+  const costAt = (i: number, j: number) => {
+    const offset = j - rowStart(i);
+    return i >= 0 && offset >= 0 && j <= rowEnd(i) ? costs[i][offset] : Infinity;
+  };
+
+  for (let i = 0; i <= wordCount; i++) {
+    const start = rowStart(i);
+    const row = new Float64Array(rowEnd(i) - start + 1).fill(Infinity);
+    const rowSteps: Block[] = new Array(row.length);
+    costs.push(row);
+    steps.push(rowSteps);
+
+    for (let j = start; j <= rowEnd(i); j++) {
+      if (i === 0 && j === 0) {
+        row[0] = 0;
+        continue;
+      }
+      if (j === 0) continue;
+      let best = Infinity;
+      let bestStep: Block | undefined;
+      for (let k = 1; k <= Math.min(MAX_WORDS_PER_REGION, i); k++) {
+        const previous = costAt(i - k, j - 1);
+        if (previous === Infinity) continue;
+        const cost = previous + blockCost(i - k, k, j - 1, 1);
+        if (cost < best) {
+          best = cost;
+          bestStep = { words: k, regions: 1 };
+        }
+      }
+      for (let l = 2; i > 0 && l <= Math.min(MAX_REGIONS_PER_WORD, j); l++) {
+        const previous = costAt(i - 1, j - l);
+        if (previous === Infinity) continue;
+        const cost = previous + blockCost(i - 1, 1, j - l, l);
+        if (cost < best) {
+          best = cost;
+          bestStep = { words: 1, regions: l };
+        }
+      }
+      row[j - start] = best;
+      if (bestStep) rowSteps[j - start] = bestStep;
+    }
+  }
+
+  if (costAt(wordCount, regionCount) === Infinity) {
+    return proportionalTimings(words, duration);
+  }
+
+  const blocks: Block[] = [];
+  for (let i = wordCount, j = regionCount; i > 0 || j > 0;) {
+    const step = steps[i][j - rowStart(i)];
+    blocks.unshift(step);
+    i -= step.words;
+    j -= step.regions;
+  }
+
+  const timings: WordTiming[] = [];
+  let wordIndex = 0;
+  let regionIndex = 0;
+  for (const block of blocks) {
+    const start = regions[regionIndex].start;
+    const end = regions[regionIndex + block.regions - 1].end;
+    const from = cumulativeWeight[wordIndex];
+    const blockWeight = cumulativeWeight[wordIndex + block.words] - from;
+    for (let i = wordIndex; i < wordIndex + block.words; i++) {
+      timings.push({
+        word: words[i],
+        start: start + ((cumulativeWeight[i] - from) / blockWeight) * (end - start),
+        end: start + ((cumulativeWeight[i + 1] - from) / blockWeight) * (end - start),
+      });
+    }
+    wordIndex += block.words;
+    regionIndex += block.regions;
+  }
+  return timings;
+};
+
+// Aligns each piece of a recording on its own and joins the timings, so the
+// cost grows with the length of the longest piece rather than the whole.
+// A piece without audio (a failed segment) gives its words zero-length
+// timings, which keeps every index in step with the joined word list.
+export const alignSegments = (segments: AlignmentSegment[], sampleRate: number, options: AlignmentOptions = {}): WordTiming[] => {
+  const timings: WordTiming[] = [];
+  let offset = 0;
+  for (const { samples, words } of segments) {
+    for (const timing of alignWords(samples, sampleRate, words, options)) {
+      timings.push({ word: timing.word, start: timing.start + offset, end: timing.end + offset });
+    }
+    offset += samples.length / sampleRate;
+  }
+  return timings;
+};
+
+// Index of the word being spoken at `time`, or -1 between and outside words.
+// Timings are in order and do not overlap, so the last word starting at or
+// before `time` is the only candidate.
+export const wordIndexAt = (timings: WordTiming[], time: number): number => {
+  let low = 0;
+  let high = timings.length - 1;
+  let candidate = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (timings[mid].start <= time) {
+      candidate = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return candidate !== -1 && time < timings[candidate].end ? candidate : -1;
+};
@@ -0,0 +1,25 @@
+import type { WordTiming } from '../types';
+import { AlignmentSegment, alignSegments } from './alignment';
+
+export interface AlignmentJob {
+  id: number;
+  segments: AlignmentSegment[];
+  sampleRate: number;
+}
+
+export interface AlignmentJobResult {
+  id: number;
+  timings?: WordTiming[];
+  error?: string;
+}
+
+self.onmessage = (event: MessageEvent<AlignmentJob>) => {
+  const { id, segments, sampleRate } = event.data;
+  try {
+    const result: AlignmentJobResult = { id, timings: alignSegments(segments, sampleRate) };
+    self.postMessage(result);
+  } catch (e) {
+    const result: AlignmentJobResult = { id, error: e instanceof Error ? e.message : String(e) };
+    self.postMessage(result);
+  }
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './audio';
+
+// Walks the chunks after the RIFF header, as a reader skipping unknown ones would.
+const readChunks = (wav: Uint8Array) => {
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+  const chunks: { id: string; offset: number; size: number }[] = [];
+  for (let offset = 12; offset < wav.length;) {
+    const id = new TextDecoder().decode(wav.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ id, offset, size });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+describe('encodeWav', () => {
+  it('pads odd 24-bit data so the following chunks stay word aligned', () => {
+    const wav = encodeWav(new Float32Array([0.1, -0.2, 0.3]), 24000, {
+      bitDepth: 24,
+      metadata: { title: 'Odd', chapters: [{ title: 'One', start: 0 }] },
+    });
+    const view = new DataView(wav.buffer);
+    expect(view.getUint32(4, true)).toBe(wav.length - 8);
+
+    const chunks = readChunks(wav);
+    expect(chunks.map(chunk => chunk.id)).toEqual(['fmt ', 'data', 'LIST', 'cue ', 'LIST']);
+    expect(chunks[1].size).toBe(9);
+    expect(wav[44 + 9]).toBe(0);
+    chunks.forEach(chunk => expect(chunk.offset % 2).toBe(0));
+    expect(chunks[chunks.length - 1].offset + 8 + chunks[chunks.length - 1].size).toBe(wav.length);
+  });
+
+  it('adds no pad to even data', () => {
+    const wav = encodeWav(new Float32Array(4), 24000, { bitDepth: 24 });
+    expect(wav.length).toBe(44 + 12);
+  });
+});
@@ -1,3 +1,6 @@
+import type { AudioChapter, AudioMetadata } from '../types';
+import { formatCaptionTimestamp } from './captions';
+
 
 export function decode(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -9,30 +12,95 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
+export function encode(bytes: Uint8Array): string {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+// Base64 encoded 16-bit PCM silence, in the same form providers stream audio.
+export function createSilenceChunk(seconds: number, sampleRate: number): string {
+  const samples = new Int16Array(Math.round(seconds * sampleRate));
+  return encode(new Uint8Array(samples.buffer));
+}
+
+// The PCM helpers below need no AudioContext, so the command line tool
+// produces exactly the samples the browser does.
+
+// Interleaved 16-bit little-endian PCM, as providers stream it, to one array
+// of float samples per channel.
+export function pcm16ToChannels(data: Uint8Array, numChannels: number): Float32Array[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const frameCount = Math.floor(data.byteLength / 2 / numChannels);
+  return Array.from({ length: numChannels }, (_, channel) => {
+    const samples = new Float32Array(frameCount);
+    for (let i = 0; i < frameCount; i++) {
+      samples[i] = view.getInt16((i * numChannels + channel) * 2, true) / 32768.0;
+    }
+    return samples;
+  });
+}
+
+export function pcm16ToSamples(data: Uint8Array): Float32Array {
+  return pcm16ToChannels(data, 1)[0];
+}
+
+export function concatenateSamples(parts: Float32Array[]): Float32Array {
+  const samples = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    samples.set(part, offset);
+    offset += part.length;
+  }
+  return samples;
+}
+
 export async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+  const channels = pcm16ToChannels(data, numChannels);
+  const buffer = ctx.createBuffer(numChannels, channels[0].length, sampleRate);
+  channels.forEach((samples, channel) => buffer.copyToChannel(samples, channel));
+  return buffer;
+}
 
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+// Decodes any format the browser understands (MP3, WAV, Ogg, ...) into mono
+// samples at `sampleRate`; an offline context resamples while decoding.
+export async function decodeAudioFile(file: Blob, sampleRate: number): Promise<Float32Array> {
+  const ctx = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < buffer.length; i++) {
+      samples[i] += data[i] / buffer.numberOfChannels;
     }
   }
-  return buffer;
+  return samples;
 }
 
-function floatTo16BitPCM(output: DataView, offset: number, input: Float32Array) {
-  for (let i = 0; i < input.length; i++, offset += 2) {
-    const s = Math.max(-1, Math.min(1, input[i]));
-    output.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+// Joins the first channel of every chunk into one contiguous sample array.
+export function concatenateChunks(buffers: AudioBuffer[]): Float32Array {
+  return concatenateSamples(buffers.map(buffer => buffer.getChannelData(0)));
+}
+
+// Converts float samples to signed integers the same way for every export
+// format: clamp to [-1, 1], scale asymmetrically, truncate toward zero.
+export function quantizeSamples(samples: Float32Array, bitDepth: 16 | 24): Int32Array {
+  const negativeScale = bitDepth === 16 ? 0x8000 : 0x800000;
+  const positiveScale = bitDepth === 16 ? 0x7FFF : 0x7FFFFF;
+  const output = new Int32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    output[i] = Math.trunc(s < 0 ? s * negativeScale : s * positiveScale);
   }
+  return output;
 }
 
 function writeString(view: DataView, offset: number, string: string) {
@@ -41,18 +109,97 @@ function writeString(view: DataView, offset: number, string: string) {
   }
 }
 
-export function exportToWav(buffers: AudioBuffer[], sampleRate: number): Blob {
-  let totalLength = 0;
-  for(const buffer of buffers) {
-      totalLength += buffer.length;
+// RIFF LIST/INFO chunk carrying title (INAM), artist (IART) and comment (ICMT).
+function buildInfoChunk(metadata: AudioMetadata): Uint8Array {
+  const encoder = new TextEncoder();
+  const entries: [string, string | undefined][] = [['INAM', metadata.title], ['IART', metadata.artist], ['ICMT', metadata.comment]];
+  const fields = entries
+    .filter(([, value]) => value)
+    .map(([id, value]) => ({ id, data: encoder.encode(`${value}\0`) }));
+  if (fields.length === 0) return new Uint8Array(0);
+
+  const bodyLength = 4 + fields.reduce((sum, field) => sum + 8 + field.data.length + (field.data.length % 2), 0);
+  const chunk = new Uint8Array(8 + bodyLength);
+  const view = new DataView(chunk.buffer);
+  writeString(view, 0, 'LIST');
+  view.setUint32(4, bodyLength, true);
+  writeString(view, 8, 'INFO');
+  let offset = 12;
+  for (const field of fields) {
+    writeString(view, offset, field.id);
+    view.setUint32(offset + 4, field.data.length, true);
+    chunk.set(field.data, offset + 8);
+    offset += 8 + field.data.length + (field.data.length % 2);
   }
-  
-  const buffer = new ArrayBuffer(44 + totalLength * 2);
+  return chunk;
+}
+
+// Chapter markers as cue points, with an associated data list naming each.
+function buildCueChunks(chapters: AudioChapter[], sampleRate: number): Uint8Array {
+  if (chapters.length === 0) return new Uint8Array(0);
+  const encoder = new TextEncoder();
+  const labels = chapters.map(chapter => encoder.encode(`${chapter.title}\0`));
+  const cueLength = 4 + chapters.length * 24;
+  const listLength = 4 + labels.reduce((sum, label) => sum + 12 + label.length + (label.length % 2), 0);
+  const chunk = new Uint8Array(8 + cueLength + 8 + listLength);
+  const view = new DataView(chunk.buffer);
+
+  writeString(view, 0, 'cue ');
+  view.setUint32(4, cueLength, true);
+  view.setUint32(8, chapters.length, true);
+  chapters.forEach((chapter, index) => {
+    const offset = 12 + index * 24;
+    const position = Math.round(chapter.start * sampleRate);
+    view.setUint32(offset, index + 1, true); // cue point id
+    view.setUint32(offset + 4, position, true);
+    writeString(view, offset + 8, 'data');
+    view.setUint32(offset + 20, position, true); // sample offset
+  });
+
+  let offset = 8 + cueLength;
+  writeString(view, offset, 'LIST');
+  view.setUint32(offset + 4, listLength, true);
+  writeString(view, offset + 8, 'adtl');
+  offset += 12;
+  labels.forEach((label, index) => {
+    writeString(view, offset, 'labl');
+    view.setUint32(offset + 4, 4 + label.length, true);
+    view.setUint32(offset + 8, index + 1, true);
+    chunk.set(label, offset + 12);
+    offset += 12 + label.length + (label.length % 2);
+  });
+  return chunk;
+}
+
+// CHAPTERnnn / CHAPTERnnnNAME pairs, the chapter convention for Vorbis
+// comments in FLAC and Ogg files.
+export function vorbisChapterComments(chapters: AudioChapter[] = []): [string, string][] {
+  return chapters.flatMap((chapter, index) => {
+    const key = `CHAPTER${String(index + 1).padStart(3, '0')}`;
+    return [[key, formatCaptionTimestamp(chapter.start, '.')], [`${key}NAME`, chapter.title]] as [string, string][];
+  });
+}
+
+export interface WavOptions {
+  bitDepth?: 16 | 24;
+  metadata?: AudioMetadata;
+}
+
+export function encodeWav(samples: Float32Array, sampleRate: number, { bitDepth = 16, metadata = {} }: WavOptions = {}): Uint8Array {
+  const bytesPerSample = bitDepth / 8;
+  const dataLength = samples.length * bytesPerSample;
+  // RIFF chunks start on even offsets, so odd 24-bit data is followed by a
+  // pad byte that the data chunk's own size leaves out.
+  const paddedDataLength = dataLength + (dataLength % 2);
+  const info = buildInfoChunk(metadata);
+  const cues = buildCueChunks(metadata.chapters ?? [], sampleRate);
+
+  const buffer = new ArrayBuffer(44 + paddedDataLength + info.length + cues.length);
   const view = new DataView(buffer);
   
   // RIFF chunk descriptor
   writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + totalLength * 2, true);
+  view.setUint32(4, 36 + paddedDataLength + info.length + cues.length, true);
   writeString(view, 8, 'WAVE');
   
   // fmt sub-chunk
@@ -61,21 +208,31 @@ export function exportToWav(buffers: AudioBuffer[], sampleRate: number): Blob {
   view.setUint16(20, 1, true); // PCM
   view.setUint16(22, 1, true); // Mono
   view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * 2, true);
-  view.setUint16(32, 2, true); // Block align
-  view.setUint16(34, 16, true); // Bits per sample
+  view.setUint32(28, sampleRate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true); // Block align
+  view.setUint16(34, bitDepth, true); // Bits per sample
   
   // data sub-chunk
   writeString(view, 36, 'data');
-  view.setUint32(40, totalLength * 2, true);
+  view.setUint32(40, dataLength, true);
   
   // Write data
+  const pcm = quantizeSamples(samples, bitDepth);
   let offset = 44;
-  for(const audioBuffer of buffers) {
-      const channelData = audioBuffer.getChannelData(0);
-      floatTo16BitPCM(view, offset, channelData);
-      offset += channelData.length * 2;
+  for (let i = 0; i < pcm.length; i++, offset += bytesPerSample) {
+    if (bitDepth === 16) {
+      view.setInt16(offset, pcm[i], true);
+    } else {
+      view.setUint8(offset, pcm[i] & 0xFF);
+      view.setInt16(offset + 1, pcm[i] >> 8, true);
+    }
   }
-  
-  return new Blob([view], { type: 'audio/wav' });
+
+  new Uint8Array(buffer).set(info, 44 + paddedDataLength);
+  new Uint8Array(buffer).set(cues, 44 + paddedDataLength + info.length);
+  return new Uint8Array(buffer);
+}
+
+export function exportToWav(buffers: AudioBuffer[], sampleRate: number): Blob {
+  return new Blob([encodeWav(concatenateChunks(buffers), sampleRate)], { type: 'audio/wav' });
 }
@@ -0,0 +1,57 @@
+import type { WordTiming } from '../types';
+import { asSentence, DocumentChapter } from './documentImport';
+import { escapeMarkup } from './markup';
+
+export interface ChapterSpan {
+  title: string;
+  start: number;
+  end: number;
+}
+
+// What is synthesized for a chapter: its title as a sentence, then the body,
+// both read literally.
+export const chapterSource = (chapter: DocumentChapter): string =>
+  `${escapeMarkup(asSentence(chapter.title))}\n\n${escapeMarkup(chapter.text)}`;
+
+// Chapter boundaries fall halfway into the silence between the last word of
+// one chapter and the first word of the next. `wordCounts` gives each
+// chapter's share of `timings`, in order.
+export function chapterSpans(titles: string[], wordCounts: number[], timings: WordTiming[], duration: number): ChapterSpan[] {
+  const spans: ChapterSpan[] = [];
+  let first = 0;
+  titles.forEach((title, index) => {
+    const last = first + wordCounts[index] - 1;
+    const previous = timings[first - 1];
+    const next = timings[last + 1];
+    spans.push({
+      title,
+      start: index === 0 || !previous || !timings[first] ? 0 : (previous.end + timings[first].start) / 2,
+      end: !next || !timings[last] ? duration : (timings[last].end + next.start) / 2,
+    });
+    first = last + 1;
+  });
+  // A chapter without words has no timings of its own; give it no length.
+  for (let i = 1; i < spans.length; i++) spans[i].start = Math.max(spans[i].start, spans[i - 1].end);
+  return spans;
+}
+
+// Chapters synthesized one after another span exactly their own audio, from
+// where each one starts to where the next does; the pause after a chapter
+// belongs to it.
+export function chapterSpansFromStarts(titles: string[], starts: number[], duration: number): ChapterSpan[] {
+  return titles.map((title, index) => ({ title, start: starts[index], end: starts[index + 1] ?? duration }));
+}
+
+export const chapterIndexAt = (spans: ChapterSpan[], time: number): number => {
+  for (let i = spans.length - 1; i >= 0; i--) {
+    if (time >= spans[i].start) return i;
+  }
+  return spans.length > 0 ? 0 : -1;
+};
+
+// "03 - The Storm.mp3", numbered so files sort in reading order.
+export function chapterFileName(index: number, count: number, title: string, extension: string): string {
+  const number = String(index + 1).padStart(Math.max(2, String(count).length), '0');
+  const name = title.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, ' ').trim().slice(0, 80);
+  return `${number}${name ? ` - ${name}` : ''}.${extension}`;
+}
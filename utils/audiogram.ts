@@ -0,0 +1,453 @@
+import type { WordTiming } from '../types';
+import { buildCaptionCues } from './captions';
+import { buildOpusHead, encodeOpusPackets } from './ogg';
+import { muxWebm, WebmBlock } from './webm';
+
+// Audiogram video: the audio with a visualizer, burned-in captions and a
+// title over a background, rendered frame by frame from the samples rather
+// than captured from the screen, and encoded with WebCodecs into WebM.
+
+export type VisualizerStyle = 'bars' | 'waveform' | 'circular';
+
+export type AudiogramAspect = 'landscape' | 'square' | 'portrait' | 'story';
+
+export interface AudiogramSettings {
+  style: VisualizerStyle;
+  aspect: AudiogramAspect;
+  // Pixels on the short side.
+  resolution: number;
+  title: string;
+  captions: boolean;
+  // Drawn to cover the frame, under a dark scrim.
+  background: ImageBitmap | null;
+}
+
+export const VISUALIZER_STYLES: { id: VisualizerStyle; label: string }[] = [
+  { id: 'bars', label: 'Frequency bars' },
+  { id: 'waveform', label: 'Oscilloscope' },
+  { id: 'circular', label: 'Circular' },
+];
+
+export const AUDIOGRAM_ASPECTS: { id: AudiogramAspect; label: string; ratio: [number, number] }[] = [
+  { id: 'landscape', label: 'Landscape 16:9', ratio: [16, 9] },
+  { id: 'square', label: 'Square 1:1', ratio: [1, 1] },
+  { id: 'portrait', label: 'Portrait 4:5', ratio: [4, 5] },
+  { id: 'story', label: 'Story 9:16', ratio: [9, 16] },
+];
+
+export const AUDIOGRAM_RESOLUTIONS = [480, 720, 1080];
+
+export const DEFAULT_AUDIOGRAM_SETTINGS: AudiogramSettings = {
+  style: 'bars',
+  aspect: 'square',
+  resolution: 720,
+  title: '',
+  captions: true,
+  background: null,
+};
+
+const FRAME_RATE = 30;
+const KEYFRAME_INTERVAL = 2 * FRAME_RATE;
+const AUDIO_BITRATE = 64;
+const FFT_SIZE = 2048;
+const BAND_COUNT = 48;
+const MIN_FREQUENCY = 60;
+const MAX_FREQUENCY = 8000;
+// Same range an AnalyserNode maps onto 0-255 by default.
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+// Weight of the previous frame, so bars fall smoothly as on screen.
+const SMOOTHING = 0.6;
+const WAVEFORM_POINTS = 256;
+const WAVEFORM_SECONDS = 0.04;
+// Encoded frames allowed to wait before the renderer pauses for the encoder.
+const MAX_ENCODE_QUEUE = 8;
+
+const CYAN = '#22d3ee';
+const CYAN_DARK = '#0891b2';
+const FONT = 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+
+export const isVideoExportSupported = (): boolean =>
+  typeof VideoEncoder !== 'undefined' && typeof AudioEncoder !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+// Even dimensions, as the encoders require.
+export function audiogramSize(aspect: AudiogramAspect, resolution: number): { width: number; height: number } {
+  const [w, h] = AUDIOGRAM_ASPECTS.find(option => option.id === aspect)!.ratio;
+  const even = (value: number) => Math.round(value / 2) * 2;
+  return w >= h
+    ? { width: even((resolution * w) / h), height: resolution }
+    : { width: resolution, height: even((resolution * h) / w) };
+}
+
+// In-place radix-2 FFT.
+function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size *= 2) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+// Levels between 0 and 1 for log-spaced bands, from a Hann-windowed FFT of
+// the samples ending at `time`, like an AnalyserNode reading live audio.
+// Passing the previous frame's levels smooths them over time.
+export function frequencyLevels(samples: Float32Array, sampleRate: number, time: number, previous?: Float32Array): Float32Array {
+  const re = new Float32Array(FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+  const end = Math.round(time * sampleRate);
+  for (let i = 0; i < FFT_SIZE; i++) {
+    const index = end - FFT_SIZE + i;
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1));
+    re[i] = index >= 0 && index < samples.length ? samples[index] * window : 0;
+  }
+  fft(re, im);
+
+  const levels = new Float32Array(BAND_COUNT);
+  const binHz = sampleRate / FFT_SIZE;
+  const maxFrequency = Math.min(MAX_FREQUENCY, sampleRate / 2);
+  for (let band = 0; band < BAND_COUNT; band++) {
+    const low = MIN_FREQUENCY * (maxFrequency / MIN_FREQUENCY) ** (band / BAND_COUNT);
+    const high = MIN_FREQUENCY * (maxFrequency / MIN_FREQUENCY) ** ((band + 1) / BAND_COUNT);
+    const first = Math.floor(low / binHz);
+    const last = Math.max(first, Math.ceil(high / binHz) - 1);
+    let peak = 0;
+    for (let bin = first; bin <= last; bin++) {
+      peak = Math.max(peak, Math.hypot(re[bin], im[bin]) / FFT_SIZE);
+    }
+    const db = 20 * Math.log10(peak || 1e-10);
+    const level = Math.min(1, Math.max(0, (db - MIN_DECIBELS) / (MAX_DECIBELS - MIN_DECIBELS)));
+    levels[band] = previous ? SMOOTHING * previous[band] + (1 - SMOOTHING) * level : level;
+  }
+  return levels;
+}
+
+// A short window of raw samples centred on `time`, for the oscilloscope.
+export function waveformAt(samples: Float32Array, sampleRate: number, time: number): Float32Array {
+  const points = new Float32Array(WAVEFORM_POINTS);
+  const span = WAVEFORM_SECONDS * sampleRate;
+  const start = time * sampleRate - span / 2;
+  for (let i = 0; i < WAVEFORM_POINTS; i++) {
+    const index = Math.round(start + (i / (WAVEFORM_POINTS - 1)) * span);
+    points[i] = index >= 0 && index < samples.length ? samples[index] : 0;
+  }
+  return points;
+}
+
+export interface CaptionPage {
+  start: number;
+  end: number;
+  // Indices into the timings, line by line.
+  lines: number[][];
+}
+
+// Caption cues with each word's index kept, so the spoken word can be
+// highlighted. Cues partition the timings in order, so words are matched up
+// by counting.
+export function buildCaptionPages(timings: WordTiming[], maxCharsPerLine: number): CaptionPage[] {
+  let next = 0;
+  return buildCaptionCues(timings, { maxCharsPerLine, maxLinesPerCue: 2 }).map(cue => ({
+    start: cue.start,
+    end: cue.end,
+    lines: cue.lines.map(line => line.split(' ').map(() => next++)),
+  }));
+}
+
+export interface AudiogramFrame {
+  time: number;
+  levels: Float32Array;
+  waveform: Float32Array;
+}
+
+// The export draws off screen; the preview draws into the page.
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface FrameLayout {
+  width: number;
+  height: number;
+  captionFont: number;
+  pages: CaptionPage[];
+}
+
+const captionFontSize = (width: number, height: number) => Math.round(Math.min(width, height) * 0.055);
+
+// Characters that fit a caption line at the font size, for an average glyph
+// about half as wide as it is tall.
+export const captionCharsPerLine = (width: number, height: number): number =>
+  Math.max(12, Math.floor((width * 0.86) / (captionFontSize(width, height) * 0.55)));
+
+const wrapTitle = (ctx: Canvas2D, title: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of title.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.length > 2 ? [lines[0], `${lines[1]}…`] : lines;
+};
+
+const drawBackground = (ctx: Canvas2D, { width, height }: FrameLayout, background: ImageBitmap | null) => {
+  const gradient = ctx.createLinearGradient(0, 0, 0, height);
+  gradient.addColorStop(0, '#111827');
+  gradient.addColorStop(1, '#030712');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+  if (!background) return;
+  const scale = Math.max(width / background.width, height / background.height);
+  const w = background.width * scale;
+  const h = background.height * scale;
+  ctx.drawImage(background, (width - w) / 2, (height - h) / 2, w, h);
+  ctx.fillStyle = 'rgba(3, 7, 18, 0.55)';
+  ctx.fillRect(0, 0, width, height);
+};
+
+const drawVisualizer = (ctx: Canvas2D, { width, height }: FrameLayout, style: VisualizerStyle, frame: AudiogramFrame) => {
+  const centerX = width / 2;
+  const centerY = height * 0.5;
+  const span = Math.min(width, height);
+  ctx.save();
+  if (style === 'bars') {
+    const areaWidth = width * 0.8;
+    const maxHeight = height * 0.25;
+    const slot = areaWidth / frame.levels.length;
+    const gradient = ctx.createLinearGradient(0, centerY - maxHeight, 0, centerY + maxHeight);
+    gradient.addColorStop(0, CYAN);
+    gradient.addColorStop(0.5, CYAN_DARK);
+    gradient.addColorStop(1, CYAN);
+    ctx.fillStyle = gradient;
+    frame.levels.forEach((level, i) => {
+      const barHeight = Math.max(2, level * maxHeight);
+      ctx.fillRect((width - areaWidth) / 2 + i * slot + slot * 0.15, centerY - barHeight, slot * 0.7, barHeight * 2);
+    });
+  } else if (style === 'waveform') {
+    const areaWidth = width * 0.86;
+    const amplitude = height * 0.2;
+    ctx.strokeStyle = CYAN;
+    ctx.lineWidth = Math.max(2, span / 240);
+    ctx.lineJoin = 'round';
+    ctx.shadowColor = CYAN;
+    ctx.shadowBlur = span / 60;
+    ctx.beginPath();
+    frame.waveform.forEach((value, i) => {
+      const x = (width - areaWidth) / 2 + (i / (frame.waveform.length - 1)) * areaWidth;
+      const y = centerY - Math.max(-1, Math.min(1, value * 2)) * amplitude;
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+    ctx.stroke();
+  } else {
+    const radius = span * 0.16;
+    const maxLength = span * 0.14;
+    const count = frame.levels.length * 2;
+    ctx.strokeStyle = CYAN;
+    ctx.lineWidth = Math.max(2, ((2 * Math.PI * radius) / count) * 0.55);
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    for (let i = 0; i < count; i++) {
+      // Mirrored left and right, low frequencies at the top.
+      const level = frame.levels[i < frame.levels.length ? i : count - 1 - i];
+      const angle = (i / count) * 2 * Math.PI - Math.PI / 2;
+      const length = Math.max(2, level * maxLength);
+      ctx.moveTo(centerX + Math.cos(angle) * radius, centerY + Math.sin(angle) * radius);
+      ctx.lineTo(centerX + Math.cos(angle) * (radius + length), centerY + Math.sin(angle) * (radius + length));
+    }
+    ctx.stroke();
+    ctx.strokeStyle = 'rgba(34, 211, 238, 0.35)';
+    ctx.lineWidth = Math.max(1, span / 400);
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius * 0.9, 0, 2 * Math.PI);
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+const drawTitle = (ctx: Canvas2D, { width, height }: FrameLayout, title: string) => {
+  if (!title.trim()) return;
+  const size = Math.round(Math.min(width, height) * 0.06);
+  ctx.save();
+  ctx.font = `700 ${size}px ${FONT}`;
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  wrapTitle(ctx, title, width * 0.86).forEach((line, i) => ctx.fillText(line, width / 2, height * 0.08 + i * size * 1.2));
+  ctx.restore();
+};
+
+const drawCaptions = (ctx: Canvas2D, { width, height, captionFont, pages }: FrameLayout, timings: WordTiming[], time: number) => {
+  const page = pages.find(candidate => time >= candidate.start && time < candidate.end);
+  if (!page) return;
+  const spoken = timings.findIndex(timing => time >= timing.start && time < timing.end);
+  const lineHeight = captionFont * 1.3;
+  const bottom = height * 0.9;
+  const top = bottom - page.lines.length * lineHeight;
+
+  ctx.save();
+  ctx.font = `600 ${captionFont}px ${FONT}`;
+  ctx.textBaseline = 'middle';
+  const space = ctx.measureText(' ').width;
+  const lineWidths = page.lines.map(line => line.reduce((sum, index) => sum + ctx.measureText(timings[index].word).width, 0) + space * (line.length - 1));
+  const boxWidth = Math.max(...lineWidths) + captionFont * 1.2;
+  ctx.fillStyle = 'rgba(3, 7, 18, 0.6)';
+  ctx.beginPath();
+  ctx.roundRect((width - boxWidth) / 2, top - captionFont * 0.4, boxWidth, bottom - top + captionFont * 0.8, captionFont * 0.4);
+  ctx.fill();
+
+  page.lines.forEach((line, row) => {
+    let x = (width - lineWidths[row]) / 2;
+    const y = top + row * lineHeight + lineHeight / 2;
+    for (const index of line) {
+      ctx.fillStyle = index === spoken ? CYAN : index < spoken ? '#ffffff' : '#9ca3af';
+      ctx.fillText(timings[index].word, x, y);
+      x += ctx.measureText(timings[index].word).width + space;
+    }
+  });
+  ctx.restore();
+};
+
+export function drawAudiogramFrame(
+  ctx: Canvas2D,
+  layout: FrameLayout,
+  settings: AudiogramSettings,
+  timings: WordTiming[],
+  frame: AudiogramFrame
+): void {
+  drawBackground(ctx, layout, settings.background);
+  drawTitle(ctx, layout, settings.title);
+  drawVisualizer(ctx, layout, settings.style, frame);
+  if (settings.captions) drawCaptions(ctx, layout, timings, frame.time);
+}
+
+export function createFrameLayout(settings: AudiogramSettings, timings: WordTiming[]): FrameLayout {
+  const { width, height } = audiogramSize(settings.aspect, settings.resolution);
+  return {
+    width,
+    height,
+    captionFont: captionFontSize(width, height),
+    pages: settings.captions ? buildCaptionPages(timings, captionCharsPerLine(width, height)) : [],
+  };
+}
+
+// One still frame at `time`, for previewing the settings. The canvas is
+// resized to the video's dimensions.
+export function drawAudiogramPreview(canvas: HTMLCanvasElement, samples: Float32Array, sampleRate: number, timings: WordTiming[], settings: AudiogramSettings, time: number): void {
+  const layout = createFrameLayout(settings, timings);
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  drawAudiogramFrame(ctx, layout, settings, timings, {
+    time,
+    levels: frequencyLevels(samples, sampleRate, time),
+    waveform: waveformAt(samples, sampleRate, time),
+  });
+}
+
+const pickVideoCodec = async (width: number, height: number, bitrate: number): Promise<{ config: VideoEncoderConfig; codecId: 'V_VP8' | 'V_VP9' }> => {
+  for (const [codec, codecId] of [['vp09.00.10.08', 'V_VP9'], ['vp8', 'V_VP8']] as const) {
+    const config: VideoEncoderConfig = { codec, width, height, bitrate, framerate: FRAME_RATE, latencyMode: 'quality' };
+    if ((await VideoEncoder.isConfigSupported(config)).supported) return { config, codecId };
+  }
+  throw new Error('This browser cannot encode VP8 or VP9 video.');
+};
+
+// Renders every frame at its exact time from the samples, so the video never
+// drops or repeats frames however slow the machine is. `onProgress` gets the
+// fraction of frames done; aborting `signal` stops between frames.
+export async function renderAudiogram(
+  samples: Float32Array,
+  sampleRate: number,
+  timings: WordTiming[],
+  settings: AudiogramSettings,
+  { onProgress, signal }: { onProgress?: (fraction: number) => void; signal?: AbortSignal } = {}
+): Promise<Blob> {
+  if (!isVideoExportSupported()) {
+    throw new Error('Video export needs WebCodecs, which this browser does not support.');
+  }
+  const layout = createFrameLayout(settings, timings);
+  const { width, height } = layout;
+  const duration = samples.length / sampleRate;
+  const { config, codecId } = await pickVideoCodec(width, height, Math.round(width * height * FRAME_RATE * 0.08));
+
+  const blocks: WebmBlock[] = [];
+  let encodeError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      blocks.push({ track: 'video', timestamp: chunk.timestamp, data, keyframe: chunk.type === 'key' });
+    },
+    error: (e) => { encodeError = e instanceof Error ? e : new Error(String(e)); },
+  });
+  encoder.configure(config);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  const frameCount = Math.max(1, Math.ceil(duration * FRAME_RATE));
+  let levels: Float32Array | undefined;
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      if (signal?.aborted) throw new DOMException('Video export was cancelled.', 'AbortError');
+      if (encodeError) throw encodeError;
+      const time = i / FRAME_RATE;
+      levels = frequencyLevels(samples, sampleRate, time, levels);
+      drawAudiogramFrame(ctx, layout, settings, timings, { time, levels, waveform: waveformAt(samples, sampleRate, time) });
+      const frame = new VideoFrame(canvas, { timestamp: Math.round((i * 1e6) / FRAME_RATE), duration: Math.round(1e6 / FRAME_RATE) });
+      encoder.encode(frame, { keyFrame: i % KEYFRAME_INTERVAL === 0 });
+      frame.close();
+      // Yield to the encoder and the page between frames.
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) await new Promise(resolve => setTimeout(resolve, 0));
+      if (i % FRAME_RATE === 0) {
+        onProgress?.(i / frameCount);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (encodeError) throw encodeError;
+
+  const { packets, preSkip } = await encodeOpusPackets(samples, sampleRate, AUDIO_BITRATE);
+  let audioTime = 0;
+  for (const packet of packets) {
+    blocks.push({ track: 'audio', timestamp: (audioTime * 1e6) / 48000, data: packet.data, keyframe: true });
+    audioTime += packet.samples48k;
+  }
+  onProgress?.(1);
+
+  const webm = muxWebm({
+    video: { codecId, width, height },
+    audio: { codecPrivate: buildOpusHead(sampleRate, preSkip), preSkip, channels: 1 },
+    blocks,
+    durationSeconds: duration,
+    title: settings.title.trim() || undefined,
+  });
+  return new Blob([webm], { type: 'video/webm' });
+}
@@ -0,0 +1,118 @@
+import { TONES, VOICES } from '../constants';
+import { formatCsv, parseCsv } from './csv';
+import { parseMarkup } from './markup';
+
+export interface BatchRow {
+  id: string;
+  text: string;
+  voice: string;
+  tone: string;
+  // Without extension; the export format supplies it.
+  fileName: string;
+}
+
+export interface BatchImport {
+  rows: BatchRow[];
+  // One message per rejected row, naming its line in the file.
+  errors: string[];
+}
+
+export interface BatchManifestEntry {
+  row: BatchRow;
+  status: string;
+  // Seconds of audio, once the row is done.
+  duration?: number;
+  error?: string;
+}
+
+const COLUMNS = ['id', 'text', 'voice', 'tone', 'filename'] as const;
+type Column = typeof COLUMNS[number];
+
+const COLUMN_ALIASES: Record<string, Column> = { file: 'filename', file_name: 'filename', 'file name': 'filename' };
+
+const findVoice = (name: string) => VOICES.find(voice => voice.value.toLowerCase() === name.toLowerCase());
+const findTone = (name: string) => TONES.find(tone =>
+  tone.value === name.toLowerCase() || tone.label.toLowerCase() === name.toLowerCase()
+);
+
+// Keeps names portable across file systems and free of a trailing extension,
+// since every row is exported in the same format.
+export const sanitizeFileName = (name: string): string => name
+  .replace(/\.(wav|flac|mp3|opus|ogg)$/i, '')
+  .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '_')
+  .replace(/\s+/g, ' ')
+  .trim()
+  .slice(0, 100);
+
+// Columns are matched by header name in any order: id, text, voice, tone,
+// filename; only text is required. Without a header row the columns are
+// read in that order. Empty voice or tone cells fall back to `defaults`, and
+// an empty filename to the id. Text may use the editor's markup. Ids and
+// file names must be unique, compared without case so the ZIP unpacks the
+// same everywhere.
+export function parseBatchCsv(source: string, defaults: { voice: string; tone: string }): BatchImport {
+  const records = parseCsv(source);
+  const header = records[0]?.map(cell => cell.trim().toLowerCase()) ?? [];
+  const hasHeader = header.includes('text');
+  const columnIndex = (column: Column) => hasHeader
+    ? header.findIndex(cell => (COLUMN_ALIASES[cell] ?? cell) === column)
+    : COLUMNS.indexOf(column);
+
+  const rows: BatchRow[] = [];
+  const errors: string[] = [];
+  const ids = new Map<string, number>();
+  const fileNames = new Map<string, number>();
+  const indices = Object.fromEntries(COLUMNS.map(column => [column, columnIndex(column)])) as Record<Column, number>;
+
+  records.slice(hasHeader ? 1 : 0).forEach((record, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const cell = (column: Column) => indices[column] >= 0 ? (record[indices[column]] ?? '').trim() : '';
+    const text = cell('text');
+    const id = cell('id') || String(line);
+    const voiceName = cell('voice');
+    const toneName = cell('tone');
+    const voice = voiceName ? findVoice(voiceName)?.value : defaults.voice;
+    // A tone that is not one of TONES is a free-text style prompt.
+    const tone = toneName ? findTone(toneName)?.value ?? toneName : defaults.tone;
+    const fileName = sanitizeFileName(cell('filename') || id);
+    const markupError = voice ? parseMarkup(text, { voice, tone }).errors[0] : undefined;
+
+    const problem = !text ? 'text is empty'
+      : !voice ? `unknown voice "${voiceName}"`
+      : markupError ? markupError.message
+      : !fileName ? 'file name is empty'
+      : ids.has(id.toLowerCase()) ? `id "${id}" is already used on line ${ids.get(id.toLowerCase())}`
+      : fileNames.has(fileName.toLowerCase()) ? `file name "${fileName}" is already used on line ${fileNames.get(fileName.toLowerCase())}`
+      : null;
+    if (problem || !voice) {
+      errors.push(`Line ${line}: ${problem}`);
+      return;
+    }
+    ids.set(id.toLowerCase(), line);
+    fileNames.set(fileName.toLowerCase(), line);
+    rows.push({ id, text, voice, tone, fileName });
+  });
+
+  if (records.length === 0 || (hasHeader && records.length === 1)) {
+    errors.push('The file has no rows');
+  }
+  return { rows, errors };
+}
+
+// One line per row in import order, failed rows included, so the manifest
+// accounts for the whole batch.
+export function formatBatchManifest(entries: BatchManifestEntry[], extension: string): string {
+  return formatCsv([
+    ['id', 'filename', 'voice', 'tone', 'duration_seconds', 'status', 'error', 'text'],
+    ...entries.map(({ row, status, duration, error }) => [
+      row.id,
+      status === 'done' ? `${row.fileName}.${extension}` : '',
+      row.voice,
+      row.tone,
+      duration !== undefined ? duration.toFixed(3) : '',
+      status,
+      error ?? '',
+      row.text,
+    ]),
+  ]);
+}
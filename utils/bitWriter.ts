@@ -0,0 +1,77 @@
+// Big-endian bit writer used by the FLAC encoder. Grows its buffer as needed.
+export class BitWriter {
+  private bytes: Uint8Array;
+  private byteLength = 0;
+  private current = 0;
+  private bitCount = 0;
+
+  constructor(initialCapacity = 1 << 16) {
+    this.bytes = new Uint8Array(initialCapacity);
+  }
+
+  get length(): number {
+    return this.byteLength;
+  }
+
+  writeBits(value: number, bits: number): void {
+    while (bits > 0) {
+      const take = Math.min(bits, 8 - this.bitCount);
+      // Division rather than shifts so values up to 2^53 (e.g. 36-bit sample counts) work.
+      const chunk = Math.floor(value / 2 ** (bits - take)) & ((1 << take) - 1);
+      this.current = (this.current << take) | chunk;
+      this.bitCount += take;
+      bits -= take;
+      if (this.bitCount === 8) {
+        this.pushByte(this.current);
+        this.current = 0;
+        this.bitCount = 0;
+      }
+    }
+  }
+
+  writeSigned(value: number, bits: number): void {
+    this.writeBits(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  writeUnary(zeros: number): void {
+    for (; zeros > 24; zeros -= 24) this.writeBits(0, 24);
+    this.writeBits(1, zeros + 1);
+  }
+
+  writeBytes(data: Uint8Array): void {
+    if (this.bitCount !== 0) {
+      data.forEach(byte => this.writeBits(byte, 8));
+      return;
+    }
+    this.ensureCapacity(data.length);
+    this.bytes.set(data, this.byteLength);
+    this.byteLength += data.length;
+  }
+
+  alignToByte(): void {
+    if (this.bitCount > 0) this.writeBits(0, 8 - this.bitCount);
+  }
+
+  // View (not a copy) of the bytes written from `start` on; complete bytes only.
+  bytesFrom(start: number): Uint8Array {
+    return this.bytes.subarray(start, this.byteLength);
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.bytes.slice(0, this.byteLength);
+  }
+
+  private pushByte(byte: number): void {
+    this.ensureCapacity(1);
+    this.bytes[this.byteLength++] = byte;
+  }
+
+  private ensureCapacity(extra: number): void {
+    if (this.byteLength + extra <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.byteLength + extra) capacity *= 2;
+    const grown = new Uint8Array(capacity);
+    grown.set(this.bytes.subarray(0, this.byteLength));
+    this.bytes = grown;
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { buildCaptionCues, formatCaptions, formatCaptionTimestamp, scaleWordTimings, toSrt, toTimingJson, toWebVtt, wrapCaptionLines } from './captions';
+import type { WordTiming } from '../types';
+
+// One timing per word, each `step` seconds long, back to back from `start`.
+const timed = (text: string, step = 0.3, start = 0): WordTiming[] =>
+  text.split(' ').map((word, i) => ({ word, start: start + i * step, end: start + (i + 1) * step }));
+
+describe('wrapCaptionLines', () => {
+  it('fills each line up to the limit', () => {
+    expect(wrapCaptionLines(['one', 'two', 'three', 'four'], 9)).toEqual(['one two', 'three', 'four']);
+  });
+
+  it('gives a word longer than the limit a line of its own', () => {
+    expect(wrapCaptionLines(['a', 'extraordinarily', 'b'], 5)).toEqual(['a', 'extraordinarily', 'b']);
+  });
+});
+
+describe('buildCaptionCues', () => {
+  it('closes a cue at each sentence end', () => {
+    const cues = buildCaptionCues(timed('Hello there. How are you? "Fine."'));
+    expect(cues.map(cue => cue.lines)).toEqual([['Hello there.'], ['How are you?'], ['"Fine."']]);
+    expect(cues[1]).toMatchObject({ start: 0.6, end: 1.5 });
+  });
+
+  it('starts a new cue before a word that would need another line', () => {
+    const cues = buildCaptionCues(timed('one two three four five six'), { maxCharsPerLine: 9, maxLinesPerCue: 2 });
+    expect(cues.map(cue => cue.lines)).toEqual([['one two', 'three'], ['four five', 'six']]);
+  });
+
+  it('starts a new cue before a word that would run past the duration limit', () => {
+    const cues = buildCaptionCues(timed('a b c d e f g', 1), { maxCueSeconds: 3 });
+    expect(cues.map(cue => cue.lines[0])).toEqual(['a b c', 'd e f', 'g']);
+    cues.forEach(cue => expect(cue.end - cue.start).toBeLessThanOrEqual(3));
+  });
+
+  it('clips each cue to end where the next starts', () => {
+    const cues = buildCaptionCues([
+      { word: 'First.', start: 0, end: 1.2 },
+      { word: 'Second.', start: 1, end: 2 },
+    ]);
+    expect(cues[0].end).toBe(1);
+    expect(cues[1]).toMatchObject({ start: 1, end: 2 });
+  });
+
+  it('makes no cues from no words', () => {
+    expect(buildCaptionCues([])).toEqual([]);
+  });
+});
+
+describe('formatCaptionTimestamp', () => {
+  it('uses a comma for SRT and a point for VTT milliseconds', () => {
+    expect(formatCaptionTimestamp(1.5, ',')).toBe('00:00:01,500');
+    expect(formatCaptionTimestamp(1.5, '.')).toBe('00:00:01.500');
+  });
+
+  it('carries minutes and hours and rounds to the millisecond', () => {
+    expect(formatCaptionTimestamp(3723.0456, ',')).toBe('01:02:03,046');
+    expect(formatCaptionTimestamp(59.9996, '.')).toBe('00:01:00.000');
+    expect(formatCaptionTimestamp(-1, '.')).toBe('00:00:00.000');
+  });
+});
+
+describe('toSrt', () => {
+  it('numbers each cue and separates them with a blank line', () => {
+    expect(toSrt(timed('Hello there. Bye now.', 0.5, 3600))).toBe([
+      '1',
+      '01:00:00,000 --> 01:00:01,000',
+      'Hello there.',
+      '',
+      '2',
+      '01:00:01,000 --> 01:00:02,000',
+      'Bye now.',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('toWebVtt', () => {
+  it('writes the header and cues with point milliseconds', () => {
+    expect(toWebVtt(timed('Hello there.', 0.25))).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:00.500\nHello there.\n');
+  });
+
+  it('escapes markup characters in cue text', () => {
+    const vtt = toWebVtt(timed('if a<b & c-->d then stop.'));
+    expect(vtt).toContain('if a&lt;b &amp; c--&gt;d then stop.');
+    expect(vtt.split('\n').filter(line => line.includes('-->'))).toHaveLength(1);
+  });
+});
+
+describe('toTimingJson', () => {
+  it('lists every word with times rounded to the millisecond', () => {
+    const json = toTimingJson([{ word: 'Hi', start: 0.12345, end: 1 / 3 }]);
+    expect(JSON.parse(json)).toEqual({ words: [{ word: 'Hi', start: 0.123, end: 0.333 }] });
+  });
+
+  it('is what the json caption format writes', () => {
+    const timings = timed('Hello there.');
+    expect(formatCaptions(timings, 'json')).toBe(toTimingJson(timings));
+  });
+});
+
+describe('scaleWordTimings', () => {
+  it('maps timings onto faster playback', () => {
+    expect(scaleWordTimings([{ word: 'a', start: 1, end: 3 }], 2)).toEqual([{ word: 'a', start: 0.5, end: 1.5 }]);
+  });
+});
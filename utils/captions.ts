@@ -0,0 +1,141 @@
+import type { WordTiming } from '../types';
+
+export type CaptionFormat = 'srt' | 'vtt' | 'json';
+
+export interface CaptionOptions {
+  maxCharsPerLine: number;
+  maxLinesPerCue: number;
+  maxCueSeconds: number;
+}
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export interface CaptionFormatInfo {
+  id: CaptionFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = {
+  maxCharsPerLine: 42,
+  maxLinesPerCue: 2,
+  maxCueSeconds: 6,
+};
+
+export const CAPTION_FORMATS: CaptionFormatInfo[] = [
+  { id: 'srt', label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip' },
+  { id: 'vtt', label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+];
+
+export const getCaptionFormat = (id: CaptionFormat): CaptionFormatInfo => CAPTION_FORMATS.find(format => format.id === id)!;
+
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+
+// Greedy wrap; a word longer than the line limit gets a line of its own.
+export function wrapCaptionLines(words: string[], maxCharsPerLine: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of words) {
+    if (line && line.length + 1 + word.length > maxCharsPerLine) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Cues close at sentence ends, and before a word that would overflow the
+// line budget or stretch the cue past the duration limit.
+export function buildCaptionCues(timings: WordTiming[], options: Partial<CaptionOptions> = {}): CaptionCue[] {
+  const { maxCharsPerLine, maxLinesPerCue, maxCueSeconds } = { ...DEFAULT_CAPTION_OPTIONS, ...options };
+  const cues: CaptionCue[] = [];
+  let pending: WordTiming[] = [];
+
+  const flush = () => {
+    if (pending.length === 0) return;
+    cues.push({
+      start: pending[0].start,
+      end: pending[pending.length - 1].end,
+      lines: wrapCaptionLines(pending.map(timing => timing.word), maxCharsPerLine),
+    });
+    pending = [];
+  };
+
+  for (const timing of timings) {
+    if (pending.length > 0) {
+      const words = [...pending, timing].map(t => t.word);
+      const tooLong = wrapCaptionLines(words, maxCharsPerLine).length > maxLinesPerCue;
+      const tooSlow = timing.end - pending[0].start > maxCueSeconds;
+      if (tooLong || tooSlow) flush();
+    }
+    pending.push(timing);
+    if (SENTENCE_END.test(timing.word)) flush();
+  }
+  flush();
+
+  // Players disagree on overlapping cues, so clip each end to the next start.
+  for (let i = 0; i < cues.length - 1; i++) {
+    cues[i].end = Math.min(cues[i].end, cues[i + 1].start);
+  }
+  return cues;
+}
+
+// Maps timings onto audio played back `speed` times faster.
+export const scaleWordTimings = (timings: WordTiming[], speed: number): WordTiming[] =>
+  timings.map(timing => ({ ...timing, start: timing.start / speed, end: timing.end / speed }));
+
+export function formatCaptionTimestamp(seconds: number, decimalSeparator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor(totalMs / 60000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  const ms = totalMs % 1000;
+  const pad = (value: number, width: number) => String(value).padStart(width, '0');
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(secs, 2)}${decimalSeparator}${pad(ms, 3)}`;
+}
+
+export function toSrt(timings: WordTiming[], options: Partial<CaptionOptions> = {}): string {
+  return buildCaptionCues(timings, options)
+    .map((cue, index) => [
+      String(index + 1),
+      `${formatCaptionTimestamp(cue.start, ',')} --> ${formatCaptionTimestamp(cue.end, ',')}`,
+      ...cue.lines,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+// Cue text cannot contain "-->" and must escape markup characters.
+const escapeVttText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function toWebVtt(timings: WordTiming[], options: Partial<CaptionOptions> = {}): string {
+  const cues = buildCaptionCues(timings, options).map(cue => [
+    `${formatCaptionTimestamp(cue.start, '.')} --> ${formatCaptionTimestamp(cue.end, '.')}`,
+    ...cue.lines.map(escapeVttText),
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+export function toTimingJson(timings: WordTiming[]): string {
+  const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+  return JSON.stringify({
+    words: timings.map(timing => ({ word: timing.word, start: round(timing.start), end: round(timing.end) })),
+  }, null, 2);
+}
+
+export function formatCaptions(timings: WordTiming[], format: CaptionFormat, options: Partial<CaptionOptions> = {}): string {
+  switch (format) {
+    case 'srt': return toSrt(timings, options);
+    case 'vtt': return toWebVtt(timings, options);
+    case 'json': return toTimingJson(timings);
+  }
+}
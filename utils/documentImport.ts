@@ -0,0 +1,256 @@
+import { readZip } from './zip';
+
+export interface DocumentChapter {
+  title: string;
+  // Paragraphs separated by blank lines, without the title.
+  text: string;
+}
+
+export interface ImportedDocument {
+  title: string;
+  chapters: DocumentChapter[];
+}
+
+export type DocumentKind = 'text' | 'markdown' | 'html' | 'epub';
+
+export const DOCUMENT_ACCEPT = '.txt,.text,.md,.markdown,.html,.htm,.xhtml,.epub';
+
+// Headings and paragraphs in reading order; every format is reduced to this
+// before chapters are found.
+type Block = { heading: number; text: string } | { heading?: undefined; text: string };
+
+export function detectDocumentKind(fileName: string): DocumentKind | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'txt': case 'text': return 'text';
+    case 'md': case 'markdown': return 'markdown';
+    case 'html': case 'htm': case 'xhtml': return 'html';
+    case 'epub': return 'epub';
+    default: return null;
+  }
+}
+
+const collapse = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+// Spoken on its own, a heading needs a full stop to be read as a sentence.
+export const asSentence = (text: string): string => /[.!?…:;]["'”’)\]]*$/.test(text) ? text : `${text}.`;
+
+// Chapters start at the highest heading level used. A lone top-level heading
+// above deeper ones is the document title instead, and the next level down
+// splits chapters. Deeper headings are kept as paragraphs; text before the
+// first chapter heading becomes a chapter of its own.
+function chaptersFromBlocks(blocks: Block[], fallbackTitle: string, detectTitle: boolean): ImportedDocument {
+  const levels = [...new Set(blocks.filter(block => block.heading).map(block => block.heading!))].sort((a, b) => a - b);
+  let title = fallbackTitle;
+  let titleBlock: Block | undefined;
+  let chapterLevel = levels[0] ?? 0;
+  if (detectTitle && levels.length > 1 && blocks.filter(block => block.heading === levels[0]).length === 1) {
+    titleBlock = blocks.find(block => block.heading === levels[0]);
+    title = titleBlock!.text;
+    chapterLevel = levels[1];
+  }
+
+  const chapters: DocumentChapter[] = [];
+  let current: { title: string; paragraphs: string[] } = { title, paragraphs: [] };
+  const flush = () => {
+    if (current.paragraphs.length > 0) chapters.push({ title: current.title, text: current.paragraphs.join('\n\n') });
+  };
+  for (const block of blocks) {
+    if (block === titleBlock || !block.text) continue;
+    if (block.heading && block.heading <= chapterLevel) {
+      flush();
+      current = { title: block.text, paragraphs: [] };
+    } else {
+      current.paragraphs.push(block.heading ? asSentence(block.text) : block.text);
+    }
+  }
+  flush();
+  return { title, chapters };
+}
+
+const PLAIN_HEADING = /^(?:(?:chapter|part|book|prologue|epilogue|preface|foreword|introduction|afterword|appendix)\b.{0,80}|[IVXLC]+\.?|\d{1,3}\.?)$/i;
+
+// Paragraphs are separated by blank lines and hard-wrapped lines are joined.
+// A one-line paragraph such as "Chapter 3" or "IV." is a heading.
+export function parsePlainText(source: string, fallbackTitle: string): ImportedDocument {
+  const blocks: Block[] = source
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0)
+    .map(paragraph => !paragraph.includes('\n') && PLAIN_HEADING.test(paragraph)
+      ? { heading: 1, text: collapse(paragraph) }
+      : { text: collapse(paragraph) });
+  return chaptersFromBlocks(blocks, fallbackTitle, false);
+}
+
+const stripMarkdownInline = (text: string): string => collapse(text
+  .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+  .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+  .replace(/<[^>]+>/g, '')
+  .replace(/`([^`]*)`/g, '$1')
+  .replace(/(\*\*|__)(.+?)\1/g, '$2')
+  .replace(/(\*|_)(.+?)\1/g, '$2')
+  .replace(/~~(.+?)~~/g, '$1'));
+
+export function parseMarkdown(source: string, fallbackTitle: string): ImportedDocument {
+  const lines = source
+    .replace(/\r\n?/g, '\n')
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, '')
+    .split('\n');
+
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    const text = stripMarkdownInline(paragraph.join(' '));
+    if (text) blocks.push({ text });
+    paragraph = [];
+  };
+  lines.forEach((line, index) => {
+    const atx = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    const next = lines[index + 1] ?? '';
+    if (atx) {
+      flush();
+      blocks.push({ heading: atx[1].length, text: stripMarkdownInline(atx[2]) });
+    } else if (line.trim() && paragraph.length === 0 && /^(=+|-+)\s*$/.test(next)) {
+      // Setext heading; its underline is skipped below.
+      flush();
+      blocks.push({ heading: next.startsWith('=') ? 1 : 2, text: stripMarkdownInline(line) });
+    } else if (!line.trim() || /^\s*([-*_]\s*){3,}$/.test(line) || /^(=+|-+)\s*$/.test(line)) {
+      flush();
+    } else if (/^\s*([-*+]|\d+[.)])\s+/.test(line)) {
+      // Every list item is read as its own sentence.
+      flush();
+      paragraph.push(asSentence(line.replace(/^\s*([-*+]|\d+[.)])\s+/, '').trim()));
+      flush();
+    } else {
+      paragraph.push(line.replace(/^\s*>\s?/, '').replace(/\|/g, ' '));
+    }
+  });
+  flush();
+  return chaptersFromBlocks(blocks, fallbackTitle, true);
+}
+
+const TEXT_BLOCKS = 'p,li,blockquote,pre,dt,dd,figcaption,th,td';
+const BLOCKS = `h1,h2,h3,h4,h5,h6,${TEXT_BLOCKS}`;
+
+// Containers (div, section, lists, tables...) are walked into; each text block
+// is read whole, and an element holding only inline content is one paragraph.
+const htmlBlocks = (doc: Document): Block[] => {
+  doc.querySelectorAll('script,style,noscript,template,nav').forEach(element => element.remove());
+  const blocks: Block[] = [];
+  const walk = (element: Element) => {
+    for (const child of Array.from(element.children)) {
+      const level = /^H([1-6])$/.exec(child.tagName);
+      const text = collapse(child.textContent ?? '');
+      if (level) blocks.push({ heading: Number(level[1]), text });
+      else if (child.matches(TEXT_BLOCKS) || !child.querySelector(BLOCKS)) {
+        if (text) blocks.push({ text });
+      } else walk(child);
+    }
+  };
+  if (doc.body) walk(doc.body);
+  return blocks;
+};
+
+export function parseHtml(source: string, fallbackTitle: string): ImportedDocument {
+  const doc = new DOMParser().parseFromString(source, 'text/html');
+  return chaptersFromBlocks(htmlBlocks(doc), collapse(doc.title ?? '') || fallbackTitle, true);
+}
+
+const parseXml = (bytes: Uint8Array): Document => new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml');
+
+const resolvePath = (base: string, href: string): string => {
+  const parts = (base.includes('/') ? base.slice(0, base.lastIndexOf('/') + 1) : '').concat(decodeURIComponent(href.split('#')[0])).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+};
+
+// Table of contents labels by file, from the EPUB 3 nav document or the
+// EPUB 2 NCX, whichever the book has.
+const readTocLabels = (files: Map<string, Uint8Array>, opfPath: string, opf: Document): Map<string, string> => {
+  const labels = new Map<string, string>();
+  const items = Array.from(opf.getElementsByTagName('item'));
+  const nav = items.find(item => (item.getAttribute('properties') ?? '').split(/\s+/).includes('nav'));
+  const ncx = items.find(item => item.getAttribute('media-type') === 'application/x-dtbncx+xml');
+  if (nav) {
+    const navPath = resolvePath(opfPath, nav.getAttribute('href') ?? '');
+    const data = files.get(navPath);
+    if (data) {
+      const doc = new DOMParser().parseFromString(new TextDecoder().decode(data), 'text/html');
+      doc.querySelectorAll('nav a[href]').forEach(link => {
+        const path = resolvePath(navPath, link.getAttribute('href')!);
+        if (!labels.has(path)) labels.set(path, collapse(link.textContent ?? ''));
+      });
+    }
+  } else if (ncx) {
+    const ncxPath = resolvePath(opfPath, ncx.getAttribute('href') ?? '');
+    const data = files.get(ncxPath);
+    if (data) {
+      Array.from(parseXml(data).getElementsByTagName('navPoint')).forEach(point => {
+        const src = point.getElementsByTagName('content')[0]?.getAttribute('src');
+        const label = collapse(point.getElementsByTagName('text')[0]?.textContent ?? '');
+        const path = src && resolvePath(ncxPath, src);
+        if (path && label && !labels.has(path)) labels.set(path, label);
+      });
+    }
+  }
+  return labels;
+};
+
+// Each spine document is one chapter unless it holds several top-level
+// headings. Untitled documents take their table of contents label.
+export async function parseEpub(bytes: Uint8Array, fallbackTitle: string): Promise<ImportedDocument> {
+  const files = await readZip(bytes);
+  const container = files.get('META-INF/container.xml');
+  const opfPath = container && parseXml(container).getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  const opfData = opfPath ? files.get(opfPath) : undefined;
+  if (!opfPath || !opfData) throw new Error('This EPUB has no package document.');
+
+  const opf = parseXml(opfData);
+  const title = collapse(opf.getElementsByTagName('dc:title')[0]?.textContent ?? '') || fallbackTitle;
+  const manifest = new Map(Array.from(opf.getElementsByTagName('item')).map(item => [item.getAttribute('id'), item.getAttribute('href') ?? '']));
+  const tocLabels = readTocLabels(files, opfPath, opf);
+
+  const chapters: DocumentChapter[] = [];
+  for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+    if (itemref.getAttribute('linear') === 'no') continue;
+    const href = manifest.get(itemref.getAttribute('idref'));
+    const path = href ? resolvePath(opfPath, href) : '';
+    const data = files.get(path);
+    if (!data) continue;
+
+    const blocks = htmlBlocks(new DOMParser().parseFromString(new TextDecoder().decode(data), 'text/html'));
+    const topLevel = Math.min(...blocks.filter(block => block.heading).map(block => block.heading!));
+    const fallback = tocLabels.get(path) || `Section ${chapters.length + 1}`;
+    if (blocks.filter(block => block.heading === topLevel).length > 1) {
+      chapters.push(...chaptersFromBlocks(blocks, fallback, false).chapters);
+      continue;
+    }
+    const heading = blocks.find(block => block.heading === topLevel);
+    const paragraphs = blocks.filter(block => block !== heading && block.text).map(block => block.heading ? asSentence(block.text) : block.text);
+    if (paragraphs.length > 0) chapters.push({ title: heading?.text || fallback, text: paragraphs.join('\n\n') });
+  }
+  return { title, chapters };
+}
+
+export async function importDocument(file: File): Promise<ImportedDocument> {
+  const kind = detectDocumentKind(file.name);
+  const fallbackTitle = file.name.replace(/\.[^.]+$/, '');
+  let result: ImportedDocument;
+  switch (kind) {
+    case 'text': result = parsePlainText(await file.text(), fallbackTitle); break;
+    case 'markdown': result = parseMarkdown(await file.text(), fallbackTitle); break;
+    case 'html': result = parseHtml(await file.text(), fallbackTitle); break;
+    case 'epub': result = await parseEpub(new Uint8Array(await file.arrayBuffer()), fallbackTitle); break;
+    default: throw new Error('Unsupported file type. Use .txt, .md, .html or .epub.');
+  }
+  if (result.chapters.length === 0) throw new Error('No readable text was found.');
+  return result;
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_TEXT_COMMENT_CHARS, textComment } from './exportFormats';
+
+describe('textComment', () => {
+  it('keeps short text, with its whitespace collapsed', () => {
+    expect(textComment('  Hello,\n\n  world. ')).toBe('Hello, world.');
+    expect(textComment(' \n ')).toBeUndefined();
+  });
+
+  it('cuts long text at a word boundary', () => {
+    const comment = textComment('word '.repeat(10000))!;
+    expect(comment.length).toBeLessThanOrEqual(MAX_TEXT_COMMENT_CHARS);
+    expect(comment).toMatch(/word…$/);
+  });
+});
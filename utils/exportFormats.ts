@@ -0,0 +1,74 @@
+import type { AudioMetadata } from '../types';
+import { encodeWav } from './audio';
+import { encodeFlac } from './flac';
+import { masterAudio, MasteringSettings } from './mastering';
+import { encodeMp3 } from './mp3';
+import { mixWithBed, MusicBed, MusicBedSettings } from './musicBed';
+import { encodeOggOpus, isOpusSupported } from './ogg';
+import { applyTimeStretch, TimeStretchSettings } from './timeStretch';
+
+export type ExportFormat = 'wav' | 'flac' | 'mp3' | 'opus';
+
+export interface ExportOptions {
+  bitDepth?: 16 | 24;
+  // Kilobits per second, lossy formats only.
+  bitrate?: number;
+  metadata?: AudioMetadata;
+  // Applied before encoding in this order: mastering, music bed, time stretch.
+  mastering?: MasteringSettings;
+  musicBed?: { bed: MusicBed; settings: MusicBedSettings };
+  timeStretch?: TimeStretchSettings;
+}
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  lossless: boolean;
+  bitDepths?: (16 | 24)[];
+  bitrates?: number[];
+  defaultBitrate?: number;
+  isSupported: () => boolean;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { id: 'wav', label: 'WAV', extension: 'wav', mimeType: 'audio/wav', lossless: true, bitDepths: [16, 24], isSupported: () => true },
+  { id: 'flac', label: 'FLAC', extension: 'flac', mimeType: 'audio/flac', lossless: true, bitDepths: [16, 24], isSupported: () => true },
+  { id: 'mp3', label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg', lossless: false, bitrates: [32, 48, 64, 96, 128], defaultBitrate: 64, isSupported: () => true },
+  { id: 'opus', label: 'Ogg Opus', extension: 'opus', mimeType: 'audio/ogg; codecs=opus', lossless: false, bitrates: [16, 24, 32, 48, 64], defaultBitrate: 32, isSupported: isOpusSupported },
+];
+
+export const getExportFormat = (id: ExportFormat): ExportFormatInfo => EXPORT_FORMATS.find(format => format.id === id)!;
+
+// Source text embedded as a comment is cut to an excerpt: a whole book would
+// bloat every tag format, and players only show the first line or two anyway.
+export const MAX_TEXT_COMMENT_CHARS = 300;
+
+export const textComment = (text: string): string | undefined => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= MAX_TEXT_COMMENT_CHARS) return flat || undefined;
+  const cut = flat.slice(0, MAX_TEXT_COMMENT_CHARS - 1);
+  const wordEnd = cut.lastIndexOf(' ');
+  return `${wordEnd > MAX_TEXT_COMMENT_CHARS / 2 ? cut.slice(0, wordEnd) : cut}…`;
+};
+
+export async function encodeAudio(samples: Float32Array, sampleRate: number, format: ExportFormat, options: ExportOptions = {}): Promise<Uint8Array> {
+  const { bitDepth, metadata } = options;
+  if (options.mastering?.enabled) {
+    samples = masterAudio(samples, sampleRate, options.mastering).samples;
+  }
+  if (options.musicBed?.settings.enabled) {
+    samples = mixWithBed(samples, sampleRate, options.musicBed.bed, options.musicBed.settings);
+  }
+  if (options.timeStretch) {
+    samples = applyTimeStretch(samples, sampleRate, options.timeStretch);
+  }
+  const bitrate = options.bitrate ?? getExportFormat(format).defaultBitrate;
+  switch (format) {
+    case 'wav': return encodeWav(samples, sampleRate, { bitDepth, metadata });
+    case 'flac': return encodeFlac(samples, sampleRate, { bitDepth, metadata });
+    case 'mp3': return encodeMp3(samples, sampleRate, { bitrate, metadata });
+    case 'opus': return encodeOggOpus(samples, sampleRate, { bitrate, metadata });
+  }
+}
@@ -0,0 +1,27 @@
+import { encodeAudio, ExportFormat, ExportOptions } from './exportFormats';
+
+export interface ExportJob {
+  id: number;
+  samples: Float32Array;
+  sampleRate: number;
+  format: ExportFormat;
+  options: ExportOptions;
+}
+
+export interface ExportJobResult {
+  id: number;
+  data?: Uint8Array;
+  error?: string;
+}
+
+self.onmessage = async (event: MessageEvent<ExportJob>) => {
+  const { id, samples, sampleRate, format, options } = event.data;
+  try {
+    const data = await encodeAudio(samples, sampleRate, format, options);
+    const result: ExportJobResult = { id, data };
+    self.postMessage(result, { transfer: [data.buffer] });
+  } catch (e) {
+    const result: ExportJobResult = { id, error: e instanceof Error ? e.message : String(e) };
+    self.postMessage(result);
+  }
+};
@@ -0,0 +1,262 @@
+import type { AudioMetadata } from '../types';
+import { quantizeSamples, vorbisChapterComments } from './audio';
+import { BitWriter } from './bitWriter';
+
+// A small mono FLAC encoder: fixed-size blocks, each subframe either CONSTANT
+// (silence), FIXED with the best predictor order 0-4 and partitioned Rice
+// residuals, or VERBATIM when prediction does not pay off.
+
+export interface FlacOptions {
+  bitDepth?: 16 | 24;
+  metadata?: AudioMetadata;
+}
+
+const BLOCK_SIZE = 4096;
+const MAX_PARTITION_ORDER = 6;
+const MAX_RICE_PARAMETER = 14;
+const VENDOR = 'text-to-audio-converter';
+
+const CRC8_TABLE = (() => {
+  const table = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xFF : (crc << 1) & 0xFF;
+    }
+    table[i] = crc;
+  }
+  return table;
+})();
+
+const CRC16_TABLE = (() => {
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xFFFF : (crc << 1) & 0xFFFF;
+    }
+    table[i] = crc;
+  }
+  return table;
+})();
+
+const crc8 = (data: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = CRC8_TABLE[crc ^ data[i]];
+  return crc;
+};
+
+const crc16 = (data: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = ((crc << 8) & 0xFFFF) ^ CRC16_TABLE[(crc >> 8) ^ data[i]];
+  return crc;
+};
+
+// Frame numbers use the UTF-8 style variable-length encoding.
+const writeUtf8Number = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+    return;
+  }
+  let continuation = 1;
+  while (value >= 2 ** (6 + 5 * continuation)) continuation++;
+  writer.writeBits((0xFF00 >> (continuation + 1)) & 0xFF | Math.floor(value / 2 ** (6 * continuation)), 8);
+  for (let i = continuation - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3F), 8);
+  }
+};
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001, 176400: 0b0010, 192000: 0b0011, 8000: 0b0100, 16000: 0b0101, 22050: 0b0110,
+  24000: 0b0111, 32000: 0b1000, 44100: 0b1001, 48000: 0b1010, 96000: 0b1011,
+};
+
+// Frame headers spell out the sample rate rather than deferring to
+// STREAMINFO, since some decoders sync on frame headers alone.
+const sampleRateHeader = (sampleRate: number): { code: number; extraBits: number } => {
+  if (SAMPLE_RATE_CODES[sampleRate]) return { code: SAMPLE_RATE_CODES[sampleRate], extraBits: 0 };
+  if (sampleRate % 1000 === 0 && sampleRate / 1000 <= 255) return { code: 0b1100, extraBits: 8 };
+  if (sampleRate <= 0xFFFF) return { code: 0b1101, extraBits: 16 };
+  return { code: 0b0000, extraBits: 0 };
+};
+
+const fixedResiduals = (samples: Int32Array, order: number): Int32Array => {
+  const residuals = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = samples[i - 1]; break;
+      case 2: prediction = 2 * samples[i - 1] - samples[i - 2]; break;
+      case 3: prediction = 3 * samples[i - 1] - 3 * samples[i - 2] + samples[i - 3]; break;
+      case 4: prediction = 4 * samples[i - 1] - 6 * samples[i - 2] + 4 * samples[i - 3] - samples[i - 4]; break;
+    }
+    residuals[i - order] = samples[i] - prediction;
+  }
+  return residuals;
+};
+
+const zigzag = (value: number) => value >= 0 ? value * 2 : -value * 2 - 1;
+
+// Best Rice parameter and its cost in bits for residuals[start, end).
+const bestRiceParameter = (residuals: Int32Array, start: number, end: number): [number, number] => {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += zigzag(residuals[i]);
+  const count = Math.max(1, end - start);
+  const estimate = Math.max(0, Math.min(MAX_RICE_PARAMETER, Math.floor(Math.log2(sum / count + 1))));
+  let bestParameter = estimate;
+  let bestBits = Infinity;
+  for (let parameter = Math.max(0, estimate - 1); parameter <= Math.min(MAX_RICE_PARAMETER, estimate + 1); parameter++) {
+    let bits = 0;
+    for (let i = start; i < end; i++) bits += Math.floor(zigzag(residuals[i]) / 2 ** parameter) + 1 + parameter;
+    if (bits < bestBits) {
+      bestBits = bits;
+      bestParameter = parameter;
+    }
+  }
+  return [bestParameter, bestBits];
+};
+
+interface RicePlan {
+  partitionOrder: number;
+  parameters: number[];
+  bits: number;
+}
+
+const planRice = (residuals: Int32Array, blockSize: number, order: number): RicePlan => {
+  let best: RicePlan | null = null;
+  for (let partitionOrder = 0; partitionOrder <= MAX_PARTITION_ORDER; partitionOrder++) {
+    const partitions = 1 << partitionOrder;
+    if (blockSize % partitions !== 0 || blockSize / partitions <= order) break;
+    const partitionSize = blockSize / partitions;
+    const parameters: number[] = [];
+    let bits = 6;
+    for (let p = 0; p < partitions; p++) {
+      const start = p === 0 ? 0 : p * partitionSize - order;
+      const end = (p + 1) * partitionSize - order;
+      const [parameter, partitionBits] = bestRiceParameter(residuals, start, end);
+      parameters.push(parameter);
+      bits += 4 + partitionBits;
+    }
+    if (!best || bits < best.bits) best = { partitionOrder, parameters, bits };
+  }
+  return best ?? { partitionOrder: 0, parameters: [0], bits: Infinity };
+};
+
+const writeSubframe = (writer: BitWriter, samples: Int32Array, bitDepth: number) => {
+  if (samples.every(sample => sample === samples[0])) {
+    writer.writeBits(0b00000000, 8); // CONSTANT
+    writer.writeSigned(samples[0], bitDepth);
+    return;
+  }
+
+  let bestOrder = -1;
+  let bestPlan: RicePlan | null = null;
+  let bestResiduals: Int32Array | null = null;
+  for (let order = 0; order <= Math.min(4, samples.length - 1); order++) {
+    const residuals = fixedResiduals(samples, order);
+    const plan = planRice(residuals, samples.length, order);
+    if (!bestPlan || plan.bits + order * bitDepth < bestPlan.bits + bestOrder * bitDepth) {
+      bestOrder = order;
+      bestPlan = plan;
+      bestResiduals = residuals;
+    }
+  }
+
+  if (!bestPlan || !bestResiduals || bestPlan.bits + bestOrder * bitDepth >= samples.length * bitDepth) {
+    writer.writeBits(0b00000010, 8); // VERBATIM
+    samples.forEach(sample => writer.writeSigned(sample, bitDepth));
+    return;
+  }
+
+  writer.writeBits(0b00010000 | (bestOrder << 1), 8); // FIXED, order in bits 1-3
+  for (let i = 0; i < bestOrder; i++) writer.writeSigned(samples[i], bitDepth);
+  writer.writeBits(0, 2); // Rice coding with 4-bit parameters
+  writer.writeBits(bestPlan.partitionOrder, 4);
+  const partitionSize = samples.length >> bestPlan.partitionOrder;
+  bestPlan.parameters.forEach((parameter, p) => {
+    writer.writeBits(parameter, 4);
+    const start = p === 0 ? 0 : p * partitionSize - bestOrder;
+    const end = (p + 1) * partitionSize - bestOrder;
+    for (let i = start; i < end; i++) {
+      const value = zigzag(bestResiduals![i]);
+      writer.writeUnary(Math.floor(value / 2 ** parameter));
+      if (parameter > 0) writer.writeBits(value % 2 ** parameter, parameter);
+    }
+  });
+};
+
+const buildVorbisComment = (metadata: AudioMetadata): Uint8Array => {
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode(VENDOR);
+  const comments = ([['TITLE', metadata.title], ['ARTIST', metadata.artist], ['COMMENT', metadata.comment], ...vorbisChapterComments(metadata.chapters)] as [string, string | undefined][])
+    .filter(([, value]) => value)
+    .map(([key, value]) => encoder.encode(`${key}=${value}`));
+  const length = 8 + vendor.length + comments.reduce((sum, comment) => sum + 4 + comment.length, 0);
+  const block = new Uint8Array(length);
+  const view = new DataView(block.buffer);
+  view.setUint32(0, vendor.length, true);
+  block.set(vendor, 4);
+  let offset = 4 + vendor.length;
+  view.setUint32(offset, comments.length, true);
+  offset += 4;
+  for (const comment of comments) {
+    view.setUint32(offset, comment.length, true);
+    block.set(comment, offset + 4);
+    offset += 4 + comment.length;
+  }
+  return block;
+};
+
+export function encodeFlac(samples: Float32Array, sampleRate: number, { bitDepth = 16, metadata = {} }: FlacOptions = {}): Uint8Array {
+  const pcm = quantizeSamples(samples, bitDepth);
+  const writer = new BitWriter(Math.max(1 << 16, pcm.length));
+
+  writer.writeBytes(new TextEncoder().encode('fLaC'));
+
+  // STREAMINFO
+  writer.writeBits(0, 1);
+  writer.writeBits(0, 7);
+  writer.writeBits(34, 24);
+  writer.writeBits(BLOCK_SIZE, 16);
+  writer.writeBits(BLOCK_SIZE, 16);
+  writer.writeBits(0, 24); // min frame size unknown
+  writer.writeBits(0, 24); // max frame size unknown
+  writer.writeBits(sampleRate, 20);
+  writer.writeBits(0, 3); // channels - 1
+  writer.writeBits(bitDepth - 1, 5);
+  writer.writeBits(pcm.length, 36);
+  writer.writeBytes(new Uint8Array(16)); // MD5 not computed
+
+  // VORBIS_COMMENT, last metadata block
+  const comment = buildVorbisComment(metadata);
+  writer.writeBits(1, 1);
+  writer.writeBits(4, 7);
+  writer.writeBits(comment.length, 24);
+  writer.writeBytes(comment);
+
+  const rateHeader = sampleRateHeader(sampleRate);
+  for (let frame = 0, start = 0; start < pcm.length; frame++, start += BLOCK_SIZE) {
+    const block = pcm.subarray(start, Math.min(pcm.length, start + BLOCK_SIZE));
+    const frameStart = writer.length;
+
+    writer.writeBits(0xFFF8, 16); // sync code, fixed block size
+    writer.writeBits(0b0111, 4); // block size: 16 bits at end of header
+    writer.writeBits(rateHeader.code, 4);
+    writer.writeBits(0b0000, 4); // mono
+    writer.writeBits(bitDepth === 16 ? 0b100 : 0b110, 3);
+    writer.writeBits(0, 1);
+    writeUtf8Number(writer, frame);
+    writer.writeBits(block.length - 1, 16);
+    if (rateHeader.extraBits === 8) writer.writeBits(sampleRate / 1000, 8);
+    if (rateHeader.extraBits === 16) writer.writeBits(sampleRate, 16);
+    const header = writer.bytesFrom(frameStart);
+    writer.writeBits(crc8(header), 8);
+
+    writeSubframe(writer, block, bitDepth);
+    writer.alignToByte();
+    const frameBytes = writer.bytesFrom(frameStart);
+    writer.writeBits(crc16(frameBytes), 16);
+  }
+
+  return writer.toUint8Array();
+}
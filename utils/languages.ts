@@ -0,0 +1,12 @@
+const languageNames = typeof Intl !== 'undefined' && 'DisplayNames' in Intl
+  ? new Intl.DisplayNames(['en'], { type: 'language' })
+  : null;
+
+// English name of a BCP 47 tag, e.g. "French (France)" for fr-FR.
+export function languageName(tag: string): string {
+  try {
+    return languageNames?.of(tag) ?? tag;
+  } catch {
+    return tag;
+  }
+}
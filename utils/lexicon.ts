@@ -0,0 +1,132 @@
+export interface LexiconEntry {
+  id: string;
+  term: string;
+  // What the provider is asked to say instead. Regex entries may refer to
+  // groups with $1, $<name> and $&.
+  spoken: string;
+  // Only match where the term is not part of a longer word.
+  wholeWord: boolean;
+  caseSensitive: boolean;
+  // `term` is a regular expression rather than literal text.
+  regex: boolean;
+}
+
+export interface LexiconFile {
+  version: 1;
+  entries: Omit<LexiconEntry, 'id'>[];
+}
+
+export const createLexiconEntry = (patch: Partial<LexiconEntry> = {}): LexiconEntry => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  term: '',
+  spoken: '',
+  wholeWord: true,
+  caseSensitive: false,
+  regex: false,
+  ...patch,
+});
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Letters, digits and underscores in any script count as word characters.
+const WORD_BEFORE = '(?<![\\p{L}\\p{N}_])';
+const WORD_AFTER = '(?![\\p{L}\\p{N}_])';
+
+export function compileLexiconEntry(entry: LexiconEntry): RegExp {
+  let source = entry.regex ? entry.term : escapeRegExp(entry.term);
+  if (entry.wholeWord) source = `${WORD_BEFORE}(?:${source})${WORD_AFTER}`;
+  return new RegExp(source, entry.caseSensitive ? 'gu' : 'giu');
+}
+
+// A message for the first problem with the entry, or null if it is usable.
+export function validateLexiconEntry(entry: LexiconEntry): string | null {
+  if (!entry.term.trim()) return 'The term is empty.';
+  try {
+    const pattern = compileLexiconEntry(entry);
+    if (pattern.test('')) return 'The pattern matches empty text.';
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+  return null;
+}
+
+const expandReplacement = (spoken: string, match: RegExpExecArray): string =>
+  spoken.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    const group = Number(ref);
+    return group > 0 && group < match.length ? match[group] ?? '' : token;
+  });
+
+// Rewrites every match in one pass over the original text, so a replacement
+// is never matched again by a later entry. Where matches overlap, the one that
+// starts first wins, then the longer one, then the earlier entry. Invalid
+// entries are skipped.
+export function applyLexicon(text: string, entries: LexiconEntry[]): string {
+  const matches: { start: number; end: number; order: number; replacement: string }[] = [];
+  entries.forEach((entry, order) => {
+    if (validateLexiconEntry(entry)) return;
+    const pattern = compileLexiconEntry(entry);
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      matches.push({
+        start: match.index,
+        end: match.index + match[0].length,
+        order,
+        replacement: entry.regex ? expandReplacement(entry.spoken, match) : entry.spoken,
+      });
+    }
+  });
+  if (matches.length === 0) return text;
+
+  matches.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start) || a.order - b.order);
+  let result = '';
+  let position = 0;
+  for (const match of matches) {
+    if (match.start < position) continue;
+    result += text.slice(position, match.start) + match.replacement;
+    position = match.end;
+  }
+  return result + text.slice(position);
+}
+
+export function toLexiconFile(entries: LexiconEntry[]): LexiconFile {
+  return {
+    version: 1,
+    entries: entries.map(({ term, spoken, wholeWord, caseSensitive, regex }) => ({ term, spoken, wholeWord, caseSensitive, regex })),
+  };
+}
+
+export function serializeLexicon(entries: LexiconEntry[]): string {
+  return JSON.stringify(toLexiconFile(entries), null, 2);
+}
+
+export function parseLexicon(json: string): LexiconEntry[] {
+  return readLexiconEntries(JSON.parse(json));
+}
+
+// Accepts a parsed lexicon file or a bare array of entries. Missing flags
+// take the defaults of a new entry; anything else malformed is rejected.
+export function readLexiconEntries(data: unknown): LexiconEntry[] {
+  const list: unknown = Array.isArray(data) ? data : (data as Partial<LexiconFile> | null)?.entries;
+  if (!Array.isArray(list)) throw new Error('Expected a list of lexicon entries.');
+  return list.map((item, index) => {
+    if (typeof item?.term !== 'string' || typeof item?.spoken !== 'string') {
+      throw new Error(`Entry ${index + 1} needs a "term" and a "spoken" string.`);
+    }
+    const flag = (key: 'wholeWord' | 'caseSensitive' | 'regex') => typeof item[key] === 'boolean' ? item[key] : undefined;
+    const entry = createLexiconEntry({ term: item.term, spoken: item.spoken });
+    return { ...entry, wholeWord: flag('wholeWord') ?? entry.wholeWord, caseSensitive: flag('caseSensitive') ?? entry.caseSensitive, regex: flag('regex') ?? entry.regex };
+  });
+}
+
+// Imported entries replace existing ones for the same term and match rules.
+export function mergeLexicons(current: LexiconEntry[], imported: LexiconEntry[]): LexiconEntry[] {
+  const key = (entry: LexiconEntry) => JSON.stringify([entry.caseSensitive ? entry.term : entry.term.toLowerCase(), entry.regex, entry.caseSensitive]);
+  const importedKeys = new Set(imported.map(key));
+  return [...current.filter(entry => !importedKeys.has(key(entry))), ...imported];
+}
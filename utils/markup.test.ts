@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { escapeMarkup, formatMarkupPosition, MAX_PAUSE_SECONDS, parseMarkup, planMarkupRequests } from './markup';
+
+const DEFAULTS = { voice: 'Kore', tone: 'naturally' };
+
+const parse = (source: string) => parseMarkup(source, DEFAULTS);
+
+describe('pauses', () => {
+  it('reads seconds, milliseconds and the default length', () => {
+    const { segments, errors } = parse('a [pause] b [pause 250ms] c [pause 1.5s] d');
+    expect(errors).toEqual([]);
+    expect(segments.filter(segment => segment.kind === 'pause')).toEqual([
+      { kind: 'pause', seconds: 0.5 },
+      { kind: 'pause', seconds: 0.25 },
+      { kind: 'pause', seconds: 1.5 },
+    ]);
+  });
+
+  it('accepts the maximum and rejects anything longer', () => {
+    expect(parse(`[pause ${MAX_PAUSE_SECONDS}s]`).errors).toEqual([]);
+    const { segments, errors } = parse('Wait [pause 20000ms] here.');
+    expect(errors).toEqual([{ message: `Pause of 20s is longer than the ${MAX_PAUSE_SECONDS}s maximum`, offset: 5 }]);
+    expect(segments).toEqual([{ kind: 'speech', text: 'Wait here.', voice: 'Kore', tone: 'naturally', emphasis: [] }]);
+  });
+
+  it('reports a pause it cannot read', () => {
+    for (const tag of ['[pause fast]', '[pause 2 s]', '[pause 1m]']) {
+      expect(parse(tag).errors).toEqual([{ message: expect.stringMatching(/^Invalid pause/), offset: 0 }]);
+    }
+  });
+});
+
+describe('passages', () => {
+  it('nests tones inside voices and restores the outer one after each', () => {
+    const { segments, errors, plainText } = parse('One [voice Puck]two [whisper]three[/whisper] four[/voice] five');
+    expect(errors).toEqual([]);
+    expect(segments.map(segment => segment.kind === 'speech' && [segment.text, segment.voice, segment.tone])).toEqual([
+      ['One', 'Kore', 'naturally'],
+      ['two', 'Puck', 'naturally'],
+      ['three', 'Puck', 'whispering'],
+      ['four', 'Puck', 'naturally'],
+      ['five', 'Kore', 'naturally'],
+    ]);
+    expect(plainText).toBe('One two three four five');
+  });
+
+  it('lets the innermost voice and tone win', () => {
+    const { segments } = parse('[happy][voice Puck][voice charon]deep[/voice][/voice][/happy]');
+    expect(segments).toEqual([{ kind: 'speech', text: 'deep', voice: 'Charon', tone: 'happily', emphasis: [] }]);
+  });
+
+  it('reports unclosed tags where they were opened', () => {
+    expect(parse('Hi [whisper]there [voice Puck]friend').errors).toEqual([
+      { message: 'Unclosed tag [whisper]', offset: 3 },
+      { message: 'Unclosed tag [voice]', offset: 18 },
+    ]);
+  });
+
+  it('reports a mismatched or stray closing tag where it appears', () => {
+    expect(parse('[whisper]a [voice Puck]b[/whisper]').errors).toEqual([
+      { message: 'Expected [/voice] but found [/whisper]', offset: 24 },
+      { message: 'Unclosed tag [whisper]', offset: 0 },
+      { message: 'Unclosed tag [voice]', offset: 11 },
+    ]);
+    expect(parse('done[/happy]').errors).toEqual([{ message: 'Unexpected closing tag [/happy]', offset: 4 }]);
+  });
+
+  it('reports unknown voices and tone arguments', () => {
+    expect(parse('[voice Nobody]x[/voice]').errors[0]).toMatchObject({ message: expect.stringMatching(/^Unknown voice in \[voice Nobody\]/), offset: 0 });
+    expect(parse('[whisper loudly]x[/whisper]').errors[0]).toEqual({ message: '[whisper] takes no argument, found [whisper loudly]', offset: 0 });
+  });
+
+  it('leaves brackets that are not tags alone', () => {
+    const { segments, errors } = parse('See [1] and [note: later].');
+    expect(errors).toEqual([]);
+    expect(segments).toEqual([{ kind: 'speech', text: 'See [1] and [note: later].', voice: 'Kore', tone: 'naturally', emphasis: [] }]);
+  });
+});
+
+describe('emphasis', () => {
+  it('stresses the enclosed words', () => {
+    const { segments, plainText } = parse('It was *really* good, *very much* so.');
+    expect(segments[0]).toMatchObject({ emphasis: ['really', 'very much'] });
+    expect(plainText).toBe('It was really good, very much so.');
+  });
+
+  it('keeps asterisks in prose literal', () => {
+    for (const text of ['5*3 is 15', 'a * b', 'footnote*', 'an *open one']) {
+      const { segments } = parse(text);
+      expect(segments).toEqual([{ kind: 'speech', text, voice: 'Kore', tone: 'naturally', emphasis: [] }]);
+    }
+  });
+
+  it('does not span a tag', () => {
+    const { segments } = parse('a *b [pause] c* d');
+    expect(segments[0]).toMatchObject({ text: 'a *b', emphasis: [] });
+    expect(segments[2]).toMatchObject({ text: 'c* d', emphasis: [] });
+  });
+});
+
+describe('escapes', () => {
+  it('reads \\[ and \\* literally', () => {
+    const { segments, errors } = parse('\\[pause 99s] and \\*not stressed\\*');
+    expect(errors).toEqual([]);
+    expect(segments).toEqual([{ kind: 'speech', text: '[pause 99s] and *not stressed*', voice: 'Kore', tone: 'naturally', emphasis: [] }]);
+  });
+
+  it('round-trips text through escapeMarkup', () => {
+    const text = 'Use [whisper] and *stars* \\ here';
+    expect(parse(escapeMarkup(text)).plainText).toBe(text);
+  });
+});
+
+describe('formatMarkupPosition', () => {
+  it('gives the 1-based line and column', () => {
+    expect(formatMarkupPosition('one\ntwo [x', 8)).toBe('2:5');
+    expect(formatMarkupPosition('abc', 0)).toBe('1:1');
+  });
+});
+
+describe('planMarkupRequests', () => {
+  it('turns pauses into silence and keeps each piece\'s emphasis', () => {
+    const { segments } = parse('First *bold* part. [pause 1s] Second part is *loud*.');
+    expect(planMarkupRequests(segments, 12)).toEqual([
+      { text: 'First bold', voice: 'Kore', tone: 'naturally', emphasis: ['bold'] },
+      { text: 'part.', voice: 'Kore', tone: 'naturally', emphasis: [] },
+      { pauseSeconds: 1 },
+      { text: 'Second part', voice: 'Kore', tone: 'naturally', emphasis: [] },
+      { text: 'is loud.', voice: 'Kore', tone: 'naturally', emphasis: ['loud'] },
+    ]);
+  });
+});
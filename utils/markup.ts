@@ -0,0 +1,235 @@
+import { SEGMENT_MAX_CHARS, TONES, VOICES } from '../constants';
+import type { SegmentRequest } from '../services/geminiService';
+import { segmentText } from './segmenter';
+
+// Inline markup understood by the editor:
+//   [pause], [pause 500ms], [pause 1.5s]  explicit silence
+//   [whisper]...[/whisper]                any tone from TONES, by label or value
+//   [voice Puck]...[/voice]               switch voice for a passage
+//   *emphasis*                            stress the enclosed words
+// A backslash escapes the next character, so \[ and \* are read literally.
+// Plain prose is left alone: brackets that are not one of these tags, and a
+// `*` that does not start or end a word (as in "5*3" or "a * b"), are spoken
+// as written.
+
+export interface SpeechMarkupSegment {
+  kind: 'speech';
+  text: string;
+  voice: string;
+  tone: string;
+  emphasis: string[];
+}
+
+export interface PauseMarkupSegment {
+  kind: 'pause';
+  seconds: number;
+}
+
+export type MarkupSegment = SpeechMarkupSegment | PauseMarkupSegment;
+
+export interface MarkupError {
+  message: string;
+  offset: number;
+}
+
+export interface MarkupResult {
+  segments: MarkupSegment[];
+  errors: MarkupError[];
+  // The spoken words only, with tags and emphasis markers removed.
+  plainText: string;
+}
+
+export const DEFAULT_PAUSE_SECONDS = 0.5;
+export const MAX_PAUSE_SECONDS = 10;
+
+interface OpenTag {
+  name: string;
+  offset: number;
+  voice?: string;
+  tone?: string;
+}
+
+const findTone = (name: string) => TONES.find(tone =>
+  tone.value === name || tone.label.toLowerCase() === name
+);
+
+const findVoice = (name: string) => VOICES.find(voice => voice.value.toLowerCase() === name.toLowerCase());
+
+const isWordChar = (ch: string | undefined) => ch !== undefined && /[\p{L}\p{N}]/u.test(ch);
+const isSpace = (ch: string | undefined) => ch === undefined || /\s/.test(ch);
+
+// Only `voice` and the tones open a passage that a closing tag can end.
+const isPassageTag = (name: string) => name === 'voice' || findTone(name) !== undefined;
+
+const parsePause = (argument: string | undefined): number | null => {
+  if (!argument) return DEFAULT_PAUSE_SECONDS;
+  const match = argument.match(/^(\d+(?:\.\d+)?)(ms|s)$/);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return match[2] === 'ms' ? value / 1000 : value;
+};
+
+export const parseMarkup = (source: string, defaults: { voice: string; tone: string }): MarkupResult => {
+  const segments: MarkupSegment[] = [];
+  const errors: MarkupError[] = [];
+  const stack: OpenTag[] = [];
+  let buffer = '';
+  let emphasisStart = -1;
+  let emphasis: string[] = [];
+
+  const currentVoice = () => [...stack].reverse().find(tag => tag.voice)?.voice ?? defaults.voice;
+  const currentTone = () => [...stack].reverse().find(tag => tag.tone)?.tone ?? defaults.tone;
+
+  const flush = () => {
+    const text = buffer.replace(/\s+/g, ' ').trim();
+    if (text) {
+      const voice = currentVoice();
+      const tone = currentTone();
+      const last = segments[segments.length - 1];
+      if (last?.kind === 'speech' && last.voice === voice && last.tone === tone) {
+        last.text = `${last.text} ${text}`;
+        last.emphasis.push(...emphasis);
+      } else {
+        segments.push({ kind: 'speech', text, voice, tone, emphasis });
+      }
+    }
+    buffer = '';
+    emphasis = [];
+  };
+
+  // A `*` that never found its partner was just an asterisk.
+  const dropOpenEmphasis = () => {
+    if (emphasisStart === -1) return;
+    buffer = `${buffer.slice(0, emphasisStart)}*${buffer.slice(emphasisStart)}`;
+    emphasisStart = -1;
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+
+    if (ch === '\\' && i + 1 < source.length) {
+      buffer += source[++i];
+      continue;
+    }
+
+    if (ch === '*') {
+      const before = source[i - 1];
+      const after = source[i + 1];
+      if (emphasisStart === -1 && !isWordChar(before) && !isSpace(after)) {
+        emphasisStart = buffer.length;
+        continue;
+      }
+      if (emphasisStart !== -1 && !isSpace(before) && !isWordChar(after)) {
+        const phrase = buffer.slice(emphasisStart).replace(/\s+/g, ' ').trim();
+        if (phrase) emphasis.push(phrase);
+        emphasisStart = -1;
+        continue;
+      }
+      buffer += ch;
+      continue;
+    }
+
+    const close = ch === '[' ? source.indexOf(']', i) : -1;
+    if (close === -1) {
+      buffer += ch;
+      continue;
+    }
+    const body = source.slice(i + 1, close).trim();
+    const [rawName, argument, ...extra] = body.split(/\s+/);
+    const name = rawName.toLowerCase();
+    if (name !== 'pause' && !isPassageTag(name.startsWith('/') ? name.slice(1) : name)) {
+      buffer += ch;
+      continue;
+    }
+    const tagOffset = i;
+    i = close;
+
+    // Emphasis cannot span a tag, so an open `*` before one was literal.
+    dropOpenEmphasis();
+
+    if (name === 'pause') {
+      const seconds = parsePause(argument);
+      if (seconds === null || extra.length > 0) {
+        errors.push({ message: `Invalid pause "${body}", expected e.g. [pause 500ms] or [pause 1.5s]`, offset: tagOffset });
+      } else if (seconds > MAX_PAUSE_SECONDS) {
+        errors.push({ message: `Pause of ${seconds}s is longer than the ${MAX_PAUSE_SECONDS}s maximum`, offset: tagOffset });
+      } else {
+        flush();
+        segments.push({ kind: 'pause', seconds });
+      }
+      continue;
+    }
+
+    if (name.startsWith('/')) {
+      const closing = name.slice(1);
+      const open = stack[stack.length - 1];
+      if (!open || open.name !== closing) {
+        errors.push({ message: open ? `Expected [/${open.name}] but found [${body}]` : `Unexpected closing tag [${body}]`, offset: tagOffset });
+        continue;
+      }
+      flush();
+      stack.pop();
+      continue;
+    }
+
+    if (name === 'voice') {
+      const voice = argument ? findVoice(argument) : undefined;
+      if (!voice || extra.length > 0) {
+        errors.push({ message: `Unknown voice in [${body}], expected one of ${VOICES.map(v => v.value).join(', ')}`, offset: tagOffset });
+        continue;
+      }
+      flush();
+      stack.push({ name, offset: tagOffset, voice: voice.value });
+      continue;
+    }
+
+    const tone = findTone(name)!;
+    if (argument) {
+      errors.push({ message: `[${name}] takes no argument, found [${body}]`, offset: tagOffset });
+      continue;
+    }
+    flush();
+    stack.push({ name, offset: tagOffset, tone: tone.value });
+  }
+
+  dropOpenEmphasis();
+  for (const open of stack) {
+    errors.push({ message: `Unclosed tag [${open.name}]`, offset: open.offset });
+  }
+  flush();
+
+  const plainText = segments
+    .filter((segment): segment is SpeechMarkupSegment => segment.kind === 'speech')
+    .map(segment => segment.text)
+    .join(' ');
+  return { segments, errors, plainText };
+};
+
+// Makes text from outside the editor read literally, with no tags or emphasis.
+export const escapeMarkup = (text: string): string => text.replace(/[\\[*]/g, '\\$&');
+
+// Converts an offset into a 1-based "line:column" position for error messages.
+export const formatMarkupPosition = (source: string, offset: number): string => {
+  const before = source.slice(0, offset).split('\n');
+  return `${before.length}:${before[before.length - 1].length + 1}`;
+};
+
+export const isPlainMarkup = (result: MarkupResult, defaults: { voice: string; tone: string }): boolean =>
+  result.segments.every(segment =>
+    segment.kind === 'speech' && segment.voice === defaults.voice && segment.tone === defaults.tone && segment.emphasis.length === 0
+  );
+
+// Pauses become silence requests; speech passages are split to the size budget
+// and keep only the emphasized phrases that fall inside each piece.
+export const planMarkupRequests = (segments: MarkupSegment[], maxChars = SEGMENT_MAX_CHARS): SegmentRequest[] =>
+  segments.flatMap<SegmentRequest>(segment => {
+    if (segment.kind === 'pause') {
+      return [{ pauseSeconds: segment.seconds }];
+    }
+    return segmentText(segment.text, maxChars).map(piece => ({
+      text: piece.text,
+      voice: segment.voice,
+      tone: segment.tone,
+      emphasis: segment.emphasis.filter(phrase => piece.text.includes(phrase)),
+    }));
+  });
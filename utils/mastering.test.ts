@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_MASTERING_SETTINGS, findSilenceCuts, limitPeaks, mapTimeThroughCuts, mapTimingsThroughCuts, masterAudio,
+  measureLoudness, normalizeLoudness, removeRegions,
+} from './mastering';
+
+const SAMPLE_RATE = 48000;
+
+const sine = (frequency: number, amplitude: number, seconds: number, sampleRate = SAMPLE_RATE): Float32Array =>
+  Float32Array.from({ length: Math.round(seconds * sampleRate) }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+const join = (...parts: Float32Array[]): Float32Array => {
+  const output = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const silence = (seconds: number) => new Float32Array(Math.round(seconds * SAMPLE_RATE));
+const peak = (samples: Float32Array) => samples.reduce((max, x) => Math.max(max, Math.abs(x)), 0);
+
+describe('measureLoudness', () => {
+  // BS.1770 calibrates a 0 dBFS 997 Hz sine to -3.01 LUFS.
+  it('reads a full-scale 997 Hz sine at -3 LUFS', () => {
+    expect(measureLoudness(sine(997, 1, 2), SAMPLE_RATE)).toBeCloseTo(-3.01, 1);
+  });
+
+  it('is the same at other sample rates', () => {
+    expect(measureLoudness(sine(997, 1, 2, 24000), 24000)).toBeCloseTo(-3.01, 1);
+  });
+
+  it('drops 20 LU for a tenth of the amplitude', () => {
+    expect(measureLoudness(sine(997, 0.1, 2), SAMPLE_RATE)).toBeCloseTo(-23.01, 1);
+  });
+
+  // Ungated, twice as much silence as tone would read 4.8 dB quieter; only
+  // the blocks straddling the edge still count.
+  it('gates out silence', () => {
+    const tone = measureLoudness(sine(997, 0.5, 2), SAMPLE_RATE);
+    expect(measureLoudness(join(sine(997, 0.5, 2), silence(4)), SAMPLE_RATE)).toBeCloseTo(tone, 0);
+  });
+
+  it('is -Infinity for silence', () => {
+    expect(measureLoudness(silence(1), SAMPLE_RATE)).toBe(-Infinity);
+  });
+});
+
+describe('normalizeLoudness', () => {
+  it('reaches the target', () => {
+    expect(measureLoudness(normalizeLoudness(sine(440, 0.05, 2), SAMPLE_RATE, -16), SAMPLE_RATE)).toBeCloseTo(-16, 1);
+  });
+});
+
+describe('limitPeaks', () => {
+  it('keeps every sample under the ceiling', () => {
+    const ceilingDb = -1;
+    const limited = limitPeaks(join(sine(200, 0.3, 0.5), sine(200, 2, 0.1), sine(200, 0.3, 0.5)), SAMPLE_RATE, ceilingDb);
+    expect(peak(limited)).toBeLessThanOrEqual(10 ** (ceilingDb / 20) + 1e-6);
+  });
+
+  it('leaves quiet audio alone', () => {
+    const quiet = sine(200, 0.3, 0.5);
+    expect(limitPeaks(quiet, SAMPLE_RATE, -1)).toEqual(quiet);
+  });
+});
+
+describe('findSilenceCuts', () => {
+  const samples = join(silence(1), sine(440, 0.5, 1), silence(2), sine(440, 0.5, 1), silence(1));
+
+  it('trims both ends down to the padding', () => {
+    const cuts = findSilenceCuts(samples, SAMPLE_RATE, { leadingPadding: 0.05, trailingPadding: 0.1 });
+    expect(cuts).toHaveLength(2);
+    expect(cuts[0].start).toBe(0);
+    expect(cuts[0].end).toBeCloseTo(0.95, 2);
+    expect(cuts[1].start).toBeCloseTo(5.1, 2);
+    expect(cuts[1].end).toBe(6);
+  });
+
+  it('shortens long internal silences to the maximum', () => {
+    const cuts = findSilenceCuts(samples, SAMPLE_RATE, { maxInternalSilence: 0.5 });
+    const internal = cuts[1];
+    expect(internal.start).toBeCloseTo(2.25, 2);
+    expect(internal.end).toBeCloseTo(3.75, 2);
+  });
+
+  it('removes a silent recording whole', () => {
+    expect(findSilenceCuts(silence(1), SAMPLE_RATE)).toEqual([{ start: 0, end: 1 }]);
+  });
+});
+
+describe('cut mapping', () => {
+  const cuts = [{ start: 0, end: 1 }, { start: 3, end: 4 }];
+
+  it('shifts times by what was removed before them', () => {
+    expect(mapTimeThroughCuts(2, cuts)).toBe(1);
+    expect(mapTimeThroughCuts(5, cuts)).toBe(3);
+  });
+
+  it('collapses times inside a cut onto the join', () => {
+    expect(mapTimeThroughCuts(0.5, cuts)).toBe(0);
+    expect(mapTimeThroughCuts(3.5, cuts)).toBe(2);
+  });
+
+  it('agrees with the samples removeRegions keeps', () => {
+    const samples = Float32Array.from({ length: 5 * 10 }, (_, i) => i);
+    const kept = removeRegions(samples, 10, cuts);
+    expect(kept).toHaveLength(30);
+    expect(kept[mapTimeThroughCuts(2, cuts) * 10]).toBe(20);
+    expect(kept[mapTimeThroughCuts(4.5, cuts) * 10]).toBe(45);
+  });
+
+  it('maps word timings', () => {
+    expect(mapTimingsThroughCuts([{ word: 'hi', start: 1.5, end: 2.5 }], cuts)).toEqual([{ word: 'hi', start: 0.5, end: 1.5 }]);
+  });
+});
+
+describe('masterAudio', () => {
+  it('trims, normalizes and limits in one pass', () => {
+    const samples = join(silence(1), sine(440, 0.05, 3), silence(1));
+    const result = masterAudio(samples, SAMPLE_RATE, { ...DEFAULT_MASTERING_SETTINGS, trimSilence: true });
+    expect(result.cuts.length).toBeGreaterThan(0);
+    expect(result.samples.length).toBeLessThan(samples.length);
+    expect(result.outputLufs).toBeCloseTo(DEFAULT_MASTERING_SETTINGS.targetLufs, 0);
+    expect(peak(result.samples)).toBeLessThanOrEqual(10 ** (DEFAULT_MASTERING_SETTINGS.ceilingDb / 20) + 1e-6);
+  });
+});
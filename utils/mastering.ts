@@ -0,0 +1,333 @@
+import type { WordTiming } from '../types';
+
+export interface MasteringSettings {
+  enabled: boolean;
+  // Integrated loudness target, in LUFS.
+  targetLufs: number;
+  // Sample peak ceiling of the limiter, in dBFS.
+  ceilingDb: number;
+  trimSilence: boolean;
+  // Internal pauses longer than this are shortened to it, in seconds.
+  maxInternalSilence: number;
+  fadeInSeconds: number;
+  fadeOutSeconds: number;
+  compression: boolean;
+}
+
+export const DEFAULT_MASTERING_SETTINGS: MasteringSettings = {
+  enabled: false,
+  targetLufs: -16,
+  ceilingDb: -1,
+  trimSilence: true,
+  maxInternalSilence: 0.75,
+  fadeInSeconds: 0.02,
+  fadeOutSeconds: 0.2,
+  compression: false,
+};
+
+export interface SilenceOptions {
+  thresholdDb: number;
+  // Silence kept before the first and after the last sound, in seconds.
+  leadingPadding: number;
+  trailingPadding: number;
+  // Internal silences are shortened to this length; Infinity keeps them.
+  maxInternalSilence: number;
+}
+
+export interface CompressorOptions {
+  thresholdDb: number;
+  ratio: number;
+  attackSeconds: number;
+  releaseSeconds: number;
+}
+
+export interface LimiterOptions {
+  lookaheadSeconds: number;
+  releaseSeconds: number;
+}
+
+// A stretch of input removed by silence trimming, in input seconds.
+export interface SilenceCut {
+  start: number;
+  end: number;
+}
+
+export interface MasteringResult {
+  samples: Float32Array;
+  cuts: SilenceCut[];
+  inputLufs: number;
+  outputLufs: number;
+}
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceOptions = {
+  thresholdDb: -50,
+  leadingPadding: 0.05,
+  trailingPadding: 0.1,
+  maxInternalSilence: Infinity,
+};
+
+export const DEFAULT_COMPRESSOR_OPTIONS: CompressorOptions = {
+  thresholdDb: -20,
+  ratio: 3,
+  attackSeconds: 0.01,
+  releaseSeconds: 0.12,
+};
+
+export const DEFAULT_LIMITER_OPTIONS: LimiterOptions = {
+  lookaheadSeconds: 0.005,
+  releaseSeconds: 0.08,
+};
+
+const dbToGain = (db: number) => 10 ** (db / 20);
+const gainToDb = (gain: number) => 20 * Math.log10(Math.max(gain, 1e-12));
+
+type Biquad = [b0: number, b1: number, b2: number, a1: number, a2: number];
+
+const runBiquad = (input: Float32Array, [b0, b1, b2, a1, a2]: Biquad): Float32Array => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+  return output;
+};
+
+// ITU-R BS.1770 K-weighting (high shelf, then high pass), derived for any
+// sample rate; at 48 kHz these reproduce the coefficients in the standard.
+const kWeightingFilters = (sampleRate: number): Biquad[] => {
+  const shelfK = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = 10 ** (3.999843853973347 / 20);
+  const vb = vh ** 0.4996667741545416;
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const passK = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  const passQ = 0.5003270373238773;
+  const passA0 = 1 + passK / passQ + passK * passK;
+
+  return [
+    [
+      (vh + vb * shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+      2 * (shelfK * shelfK - vh) / shelfA0,
+      (vh - vb * shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+      2 * (shelfK * shelfK - 1) / shelfA0,
+      (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+    ],
+    [1, -2, 1, 2 * (passK * passK - 1) / passA0, (1 - passK / passQ + passK * passK) / passA0],
+  ];
+};
+
+// Integrated loudness of a mono signal per BS.1770-4: K-weighted mean square
+// over 400 ms blocks with 75% overlap, gated at -70 LUFS absolute and 10 LU
+// below the ungated level. Returns -Infinity for silence.
+export function measureLoudness(samples: Float32Array, sampleRate: number): number {
+  const weighted = kWeightingFilters(sampleRate).reduce(runBiquad, samples);
+  const blockSize = Math.round(0.4 * sampleRate);
+  const step = Math.round(0.1 * sampleRate);
+  const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+  const blocks: number[] = [];
+  for (let start = 0; start + blockSize <= weighted.length; start += step) {
+    let sum = 0;
+    for (let i = start; i < start + blockSize; i++) sum += weighted[i] * weighted[i];
+    blocks.push(sum / blockSize);
+  }
+  if (blocks.length === 0) {
+    // Shorter than one block: fall back to the ungated mean square.
+    const sum = weighted.reduce((acc, x) => acc + x * x, 0);
+    return weighted.length > 0 && sum > 0 ? toLufs(sum / weighted.length) : -Infinity;
+  }
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const absoluteGated = blocks.filter(z => toLufs(z) > -70);
+  if (absoluteGated.length === 0) return -Infinity;
+  const relativeGate = toLufs(mean(absoluteGated)) - 10;
+  const gated = absoluteGated.filter(z => toLufs(z) > relativeGate);
+  return toLufs(mean(gated));
+}
+
+export function applyGain(samples: Float32Array, gainDb: number): Float32Array {
+  const gain = dbToGain(gainDb);
+  return samples.map(x => x * gain);
+}
+
+export function normalizeLoudness(samples: Float32Array, sampleRate: number, targetLufs: number): Float32Array {
+  const loudness = measureLoudness(samples, sampleRate);
+  return Number.isFinite(loudness) ? applyGain(samples, targetLufs - loudness) : samples.slice();
+}
+
+// Lookahead limiter. The gain each sample needs is held as a minimum over the
+// lookahead window and averaged over the same window, so the gain has ramped
+// fully down by the time a peak arrives; it then recovers at the release rate.
+// No output sample exceeds the ceiling.
+export function limitPeaks(samples: Float32Array, sampleRate: number, ceilingDb: number, options: Partial<LimiterOptions> = {}): Float32Array {
+  const { lookaheadSeconds, releaseSeconds } = { ...DEFAULT_LIMITER_OPTIONS, ...options };
+  const ceiling = dbToGain(ceilingDb);
+  const n = samples.length;
+  const window = Math.max(1, Math.round(lookaheadSeconds * sampleRate));
+
+  // Minimum over [i, i + window] with a monotonic deque.
+  const held = new Float32Array(n);
+  const deque = new Int32Array(n);
+  let head = 0, tail = 0;
+  const needed = (i: number) => {
+    const peak = Math.abs(samples[i]);
+    return peak > ceiling ? ceiling / peak : 1;
+  };
+  for (let i = n - 1; i >= 0; i--) {
+    const gain = needed(i);
+    while (tail > head && needed(deque[tail - 1]) >= gain) tail--;
+    deque[tail++] = i;
+    while (deque[head] > i + window) head++;
+    held[i] = needed(deque[head]);
+  }
+
+  const releaseCoefficient = 1 - Math.exp(-1 / (releaseSeconds * sampleRate));
+  const output = new Float32Array(n);
+  let runningSum = 0;
+  let gain = 1;
+  for (let i = 0; i < n; i++) {
+    runningSum += held[i];
+    if (i >= window) runningSum -= held[i - window];
+    const target = runningSum / Math.min(i + 1, window);
+    gain = target < gain ? target : gain + (target - gain) * releaseCoefficient;
+    output[i] = Math.max(-ceiling, Math.min(ceiling, samples[i] * gain));
+  }
+  return output;
+}
+
+// Feed-forward compressor on a peak envelope with separate attack and release.
+export function compress(samples: Float32Array, sampleRate: number, options: Partial<CompressorOptions> = {}): Float32Array {
+  const { thresholdDb, ratio, attackSeconds, releaseSeconds } = { ...DEFAULT_COMPRESSOR_OPTIONS, ...options };
+  const attack = 1 - Math.exp(-1 / (attackSeconds * sampleRate));
+  const release = 1 - Math.exp(-1 / (releaseSeconds * sampleRate));
+  const output = new Float32Array(samples.length);
+  let envelope = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const level = Math.abs(samples[i]);
+    envelope += (level - envelope) * (level > envelope ? attack : release);
+    const overDb = gainToDb(envelope) - thresholdDb;
+    output[i] = overDb > 0 ? samples[i] * dbToGain(-overDb * (1 - 1 / ratio)) : samples[i];
+  }
+  return output;
+}
+
+// Regions to remove: everything outside the padded span of sound, and the
+// middle of internal silences longer than `maxInternalSilence`. Silence is
+// detected on 10 ms RMS frames.
+export function findSilenceCuts(samples: Float32Array, sampleRate: number, options: Partial<SilenceOptions> = {}): SilenceCut[] {
+  const { thresholdDb, leadingPadding, trailingPadding, maxInternalSilence } = { ...DEFAULT_SILENCE_OPTIONS, ...options };
+  const frameSize = Math.max(1, Math.round(0.01 * sampleRate));
+  const frameCount = Math.ceil(samples.length / frameSize);
+  const threshold = dbToGain(thresholdDb);
+  const duration = samples.length / sampleRate;
+
+  const loud: boolean[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    const end = Math.min(samples.length, (f + 1) * frameSize);
+    for (let i = f * frameSize; i < end; i++) sum += samples[i] * samples[i];
+    loud.push(Math.sqrt(sum / (end - f * frameSize)) >= threshold);
+  }
+  const first = loud.indexOf(true);
+  if (first === -1) return duration > 0 ? [{ start: 0, end: duration }] : [];
+  const last = loud.lastIndexOf(true);
+
+  const cuts: SilenceCut[] = [];
+  const soundStart = Math.max(0, first * frameSize / sampleRate - leadingPadding);
+  if (soundStart > 0) cuts.push({ start: 0, end: soundStart });
+
+  if (Number.isFinite(maxInternalSilence)) {
+    let runStart = -1;
+    for (let f = first; f <= last; f++) {
+      if (!loud[f] && runStart === -1) runStart = f;
+      if (loud[f] && runStart !== -1) {
+        const start = runStart * frameSize / sampleRate;
+        const length = (f - runStart) * frameSize / sampleRate;
+        if (length > maxInternalSilence) {
+          const keep = maxInternalSilence / 2;
+          cuts.push({ start: start + keep, end: start + length - keep });
+        }
+        runStart = -1;
+      }
+    }
+  }
+
+  const soundEnd = Math.min(duration, Math.min(samples.length, (last + 1) * frameSize) / sampleRate + trailingPadding);
+  if (soundEnd < duration) cuts.push({ start: soundEnd, end: duration });
+  return cuts;
+}
+
+export function removeRegions(samples: Float32Array, sampleRate: number, cuts: SilenceCut[]): Float32Array {
+  const kept: Float32Array[] = [];
+  let position = 0;
+  for (const cut of cuts) {
+    const start = Math.round(cut.start * sampleRate);
+    if (start > position) kept.push(samples.subarray(position, start));
+    position = Math.max(position, Math.round(cut.end * sampleRate));
+  }
+  if (position < samples.length) kept.push(samples.subarray(position));
+
+  const output = new Float32Array(kept.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of kept) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+export function trimSilence(samples: Float32Array, sampleRate: number, options: Partial<SilenceOptions> = {}): Float32Array {
+  return removeRegions(samples, sampleRate, findSilenceCuts(samples, sampleRate, options));
+}
+
+// Where an input time lands once `cuts` are removed. Times inside a cut
+// collapse onto the join.
+export function mapTimeThroughCuts(time: number, cuts: SilenceCut[]): number {
+  let removed = 0;
+  for (const cut of cuts) {
+    if (time <= cut.start) break;
+    removed += Math.min(time, cut.end) - cut.start;
+  }
+  return time - removed;
+}
+
+export const mapTimingsThroughCuts = (timings: WordTiming[], cuts: SilenceCut[]): WordTiming[] =>
+  cuts.length === 0 ? timings : timings.map(timing => ({
+    ...timing,
+    start: mapTimeThroughCuts(timing.start, cuts),
+    end: mapTimeThroughCuts(timing.end, cuts),
+  }));
+
+// Raised-cosine fades at both ends.
+export function applyFades(samples: Float32Array, sampleRate: number, fadeInSeconds: number, fadeOutSeconds: number): Float32Array {
+  const output = samples.slice();
+  const fadeIn = Math.min(output.length, Math.round(fadeInSeconds * sampleRate));
+  const fadeOut = Math.min(output.length, Math.round(fadeOutSeconds * sampleRate));
+  for (let i = 0; i < fadeIn; i++) {
+    output[i] *= 0.5 - 0.5 * Math.cos(Math.PI * i / fadeIn);
+  }
+  for (let i = 0; i < fadeOut; i++) {
+    output[output.length - 1 - i] *= 0.5 - 0.5 * Math.cos(Math.PI * i / fadeOut);
+  }
+  return output;
+}
+
+// Trim, compress, normalize, limit, fade: each stage only sees the output of
+// the one before, and the limiter runs after normalization so the ceiling holds.
+export function masterAudio(samples: Float32Array, sampleRate: number, settings: MasteringSettings): MasteringResult {
+  const inputLufs = measureLoudness(samples, sampleRate);
+  const cuts = settings.trimSilence
+    ? findSilenceCuts(samples, sampleRate, { maxInternalSilence: settings.maxInternalSilence })
+    : [];
+  let output = removeRegions(samples, sampleRate, cuts);
+  if (settings.compression) output = compress(output, sampleRate);
+  output = normalizeLoudness(output, sampleRate, settings.targetLufs);
+  output = limitPeaks(output, sampleRate, settings.ceilingDb);
+  output = applyFades(output, sampleRate, settings.fadeInSeconds, settings.fadeOutSeconds);
+  return { samples: output, cuts, inputLufs, outputLufs: measureLoudness(output, sampleRate) };
+}
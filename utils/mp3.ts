@@ -0,0 +1,77 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import type { AudioMetadata } from '../types';
+import { quantizeSamples } from './audio';
+
+export interface Mp3Options {
+  bitrate?: number;
+  metadata?: AudioMetadata;
+}
+
+const SAMPLES_PER_CALL = 1152 * 16;
+
+const syncsafe = (value: number) => [(value >> 21) & 0x7F, (value >> 14) & 0x7F, (value >> 7) & 0x7F, value & 0x7F];
+
+const uint32 = (value: number) => [(value >>> 24) & 0xFF, (value >>> 16) & 0xFF, (value >>> 8) & 0xFF, value & 0xFF];
+
+// CTOC lists at most this many chapters.
+const MAX_CHAPTERS = 255;
+
+// ID3v2.4 tag with UTF-8 text frames: TIT2 (title), TPE1 (artist), COMM
+// (comment), plus CHAP frames and a CTOC table of contents for chapters.
+const buildId3Tag = (metadata: AudioMetadata, duration: number): Uint8Array => {
+  const encoder = new TextEncoder();
+  const frames: Uint8Array[] = [];
+  const frame = (id: string, body: number[]) => [...encoder.encode(id), ...syncsafe(body.length), 0, 0, ...body];
+  const addFrame = (id: string, body: number[]) => {
+    frames.push(new Uint8Array(frame(id, body)));
+  };
+  if (metadata.title) addFrame('TIT2', [3, ...encoder.encode(metadata.title)]);
+  if (metadata.artist) addFrame('TPE1', [3, ...encoder.encode(metadata.artist)]);
+  if (metadata.comment) addFrame('COMM', [3, ...encoder.encode('eng'), 0, ...encoder.encode(metadata.comment)]);
+
+  const chapters = (metadata.chapters ?? []).slice(0, MAX_CHAPTERS);
+  if (chapters.length > 0) {
+    const ids = chapters.map((_, index) => [...encoder.encode(`chp${index + 1}`), 0]);
+    addFrame('CTOC', [...encoder.encode('toc'), 0, 0x03, chapters.length, ...ids.flat()]);
+    chapters.forEach((chapter, index) => {
+      const start = Math.round(chapter.start * 1000);
+      const end = Math.round((chapters[index + 1]?.start ?? duration) * 1000);
+      addFrame('CHAP', [
+        ...ids[index], ...uint32(start), ...uint32(end), ...uint32(0xFFFFFFFF), ...uint32(0xFFFFFFFF),
+        ...frame('TIT2', [3, ...encoder.encode(chapter.title)]),
+      ]);
+    });
+  }
+  if (frames.length === 0) return new Uint8Array(0);
+
+  const bodyLength = frames.reduce((sum, frame) => sum + frame.length, 0);
+  const tag = new Uint8Array(10 + bodyLength);
+  tag.set([...encoder.encode('ID3'), 4, 0, 0, ...syncsafe(bodyLength)]);
+  let offset = 10;
+  for (const frame of frames) {
+    tag.set(frame, offset);
+    offset += frame.length;
+  }
+  return tag;
+};
+
+export function encodeMp3(samples: Float32Array, sampleRate: number, { bitrate = 64, metadata = {} }: Mp3Options = {}): Uint8Array {
+  const pcm = Int16Array.from(quantizeSamples(samples, 16));
+  const encoder = new Mp3Encoder(1, sampleRate, bitrate);
+  const parts: Uint8Array[] = [buildId3Tag(metadata, samples.length / sampleRate)];
+
+  for (let start = 0; start < pcm.length; start += SAMPLES_PER_CALL) {
+    const encoded = encoder.encodeBuffer(pcm.subarray(start, start + SAMPLES_PER_CALL));
+    if (encoded.length > 0) parts.push(new Uint8Array(encoded));
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(new Uint8Array(tail));
+
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
@@ -0,0 +1,143 @@
+import { limitPeaks } from './mastering';
+import { resampleByStep } from './timeStretch';
+
+export interface MusicBedSettings {
+  enabled: boolean;
+  // Bed level while nobody is speaking, in dB.
+  volumeDb: number;
+  // Extra attenuation under speech, in dB (negative).
+  duckDb: number;
+  // Bed-only time before the speech starts and after it ends.
+  introSeconds: number;
+  outroSeconds: number;
+  // Repeat a bed shorter than the mix; otherwise it just stops.
+  loop: boolean;
+}
+
+export interface MusicBed {
+  name: string;
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export const DEFAULT_MUSIC_BED_SETTINGS: MusicBedSettings = {
+  enabled: true,
+  volumeDb: -12,
+  duckDb: -12,
+  introSeconds: 2,
+  outroSeconds: 2,
+  loop: true,
+};
+
+export interface DuckingOptions {
+  thresholdDb: number;
+  // The bed starts dipping this long before speech starts.
+  attackSeconds: number;
+  releaseSeconds: number;
+}
+
+export const DEFAULT_DUCKING_OPTIONS: DuckingOptions = {
+  thresholdDb: -45,
+  attackSeconds: 0.15,
+  releaseSeconds: 0.6,
+};
+
+const LOOP_CROSSFADE_SECONDS = 0.05;
+const BED_FADE_SECONDS = 1;
+const MIX_CEILING_DB = -1;
+const FRAME_SECONDS = 0.01;
+
+const dbToGain = (db: number) => 10 ** (db / 20);
+
+// Repeats (with a short crossfade at each seam) or truncates the bed to
+// exactly `length` samples. A non-looping bed shorter than that is padded
+// with silence.
+export function fitBed(bed: Float32Array, length: number, loop: boolean, sampleRate: number): Float32Array {
+  const output = new Float32Array(length);
+  if (bed.length === 0) return output;
+  if (!loop || bed.length >= length) {
+    output.set(bed.subarray(0, Math.min(length, bed.length)));
+    return output;
+  }
+
+  const crossfade = Math.min(Math.round(LOOP_CROSSFADE_SECONDS * sampleRate), Math.floor(bed.length / 2));
+  const period = bed.length - crossfade;
+  for (let start = 0; start < length; start += period) {
+    for (let i = 0; i < bed.length && start + i < length; i++) {
+      let gain = 1;
+      if (start > 0 && i < crossfade) gain = i / crossfade;
+      else if (i >= period && start + bed.length < length) gain = (bed.length - i) / crossfade;
+      output[start + i] += bed[i] * gain;
+    }
+  }
+  return output;
+}
+
+// Per-sample bed gain (linear, 0..1) that sits at `duckDb` while the speech is
+// above the threshold. The speech is known in advance, so the dip begins
+// `attackSeconds` early and recovers over `releaseSeconds` afterwards.
+export function duckingCurve(speech: Float32Array, sampleRate: number, duckDb: number, options: Partial<DuckingOptions> = {}): Float32Array {
+  const { thresholdDb, attackSeconds, releaseSeconds } = { ...DEFAULT_DUCKING_OPTIONS, ...options };
+  const frameSize = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+  const frameCount = Math.ceil(speech.length / frameSize);
+  const threshold = dbToGain(thresholdDb);
+  const ducked = dbToGain(duckDb);
+
+  const active = new Uint8Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    const end = Math.min(speech.length, (f + 1) * frameSize);
+    let sum = 0;
+    for (let i = f * frameSize; i < end; i++) sum += speech[i] * speech[i];
+    active[f] = Math.sqrt(sum / (end - f * frameSize)) >= threshold ? 1 : 0;
+  }
+
+  // Attack runs backwards from each speech onset, release forwards from each end.
+  const attackFrames = Math.max(1, Math.round(attackSeconds / FRAME_SECONDS));
+  const releaseFrames = Math.max(1, Math.round(releaseSeconds / FRAME_SECONDS));
+  const depth = new Float32Array(frameCount);
+  let level = 0;
+  for (let f = 0; f < frameCount; f++) {
+    level = active[f] ? 1 : Math.max(0, level - 1 / releaseFrames);
+    depth[f] = level;
+  }
+  level = 0;
+  for (let f = frameCount - 1; f >= 0; f--) {
+    level = active[f] ? 1 : Math.max(0, level - 1 / attackFrames);
+    depth[f] = Math.max(depth[f], level);
+  }
+
+  const curve = new Float32Array(speech.length);
+  for (let i = 0; i < speech.length; i++) {
+    const position = i / frameSize - 0.5;
+    const f = Math.max(0, Math.min(frameCount - 1, Math.floor(position)));
+    const next = Math.min(frameCount - 1, f + 1);
+    const t = Math.max(0, Math.min(1, position - f));
+    const d = depth[f] + (depth[next] - depth[f]) * t;
+    curve[i] = 1 + (ducked - 1) * d;
+  }
+  return curve;
+}
+
+// Speech over a music bed: `introSeconds` of bed, the speech with the bed
+// ducked underneath, then `outroSeconds` of bed. The bed fades in and out at
+// the edges and the sum is peak-limited.
+export function mixWithBed(speech: Float32Array, sampleRate: number, bed: MusicBed, settings: MusicBedSettings): Float32Array {
+  const bedSamples = bed.sampleRate === sampleRate ? bed.samples : resampleByStep(bed.samples, bed.sampleRate / sampleRate);
+  const speechOffset = Math.round(settings.introSeconds * sampleRate);
+  const length = speechOffset + speech.length + Math.round(settings.outroSeconds * sampleRate);
+  const music = fitBed(bedSamples, length, settings.loop, sampleRate);
+  const duck = duckingCurve(speech, sampleRate, settings.duckDb);
+  const volume = dbToGain(settings.volumeDb);
+  const fade = Math.min(Math.round(BED_FADE_SECONDS * sampleRate), Math.floor(length / 2));
+
+  const output = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const s = i - speechOffset;
+    const inSpeech = s >= 0 && s < speech.length;
+    let gain = volume * (inSpeech ? duck[s] : 1);
+    if (i < fade) gain *= i / fade;
+    if (length - 1 - i < fade) gain *= (length - 1 - i) / fade;
+    output[i] = music[i] * gain + (inSpeech ? speech[s] : 0);
+  }
+  return limitPeaks(output, sampleRate, MIX_CEILING_DB);
+}
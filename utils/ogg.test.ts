@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { muxOggOpus } from './ogg';
+
+interface Page {
+  headerType: number;
+  granule: number;
+  sequence: number;
+  lacing: number[];
+  body: Uint8Array;
+}
+
+const readPages = (data: Uint8Array): Page[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const pages: Page[] = [];
+  for (let offset = 0; offset < data.length;) {
+    expect(new TextDecoder().decode(data.subarray(offset, offset + 4))).toBe('OggS');
+    const count = data[offset + 26];
+    const lacing = Array.from(data.subarray(offset + 27, offset + 27 + count));
+    const bodyLength = lacing.reduce((sum, value) => sum + value, 0);
+    const bodyStart = offset + 27 + count;
+    pages.push({
+      headerType: data[offset + 5],
+      granule: view.getUint32(offset + 6, true) + view.getUint32(offset + 10, true) * 2 ** 32,
+      sequence: view.getUint32(offset + 18, true),
+      lacing,
+      body: data.subarray(bodyStart, bodyStart + bodyLength),
+    });
+    offset = bodyStart + bodyLength;
+  }
+  return pages;
+};
+
+// Joins the segments of every page back into packets.
+const readPackets = (pages: Page[]): Uint8Array[] => {
+  const packets: Uint8Array[] = [];
+  let current: number[] = [];
+  for (const page of pages) {
+    let offset = 0;
+    for (const value of page.lacing) {
+      current.push(...page.body.subarray(offset, offset + value));
+      offset += value;
+      if (value < 255) {
+        packets.push(Uint8Array.from(current));
+        current = [];
+      }
+    }
+  }
+  return packets;
+};
+
+const audioPackets = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({ data: new Uint8Array(80).fill(i % 256), samples48k: 960 }));
+
+describe('muxOggOpus', () => {
+  it('writes head, tags and audio pages in sequence', () => {
+    const pages = readPages(muxOggOpus(audioPackets(120), 48000, 120 * 960, { preSkip: 312 }));
+    expect(pages.map(page => page.sequence)).toEqual(pages.map((_, i) => i));
+    expect(pages[0].headerType).toBe(0x02);
+    expect(pages[pages.length - 1].headerType).toBe(0x04);
+    expect(pages[pages.length - 1].granule).toBe(312 + 120 * 960);
+    expect(readPackets(pages)).toHaveLength(122);
+  });
+
+  it('continues a long comment over several pages', () => {
+    const comment = 'x'.repeat(70000);
+    const pages = readPages(muxOggOpus(audioPackets(3), 48000, 3 * 960, { metadata: { comment } }));
+    const tagPages = pages.slice(1, -1);
+    expect(tagPages.length).toBeGreaterThan(1);
+    tagPages.forEach((page, i) => {
+      expect(page.lacing.length).toBeLessThanOrEqual(255);
+      expect(page.headerType).toBe(i === 0 ? 0 : 0x01);
+    });
+    // Only the page on which the tags packet ends carries its granule.
+    expect(tagPages.slice(0, -1).every(page => page.granule === 2 ** 64 - 1)).toBe(true);
+    expect(tagPages[tagPages.length - 1].granule).toBe(0);
+    const tags = readPackets(pages)[1];
+    expect(new TextDecoder().decode(tags)).toContain(`COMMENT=${comment}`);
+    expect(readPackets(pages)).toHaveLength(5);
+  });
+});
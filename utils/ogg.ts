@@ -0,0 +1,241 @@
+import type { AudioMetadata } from '../types';
+import { vorbisChapterComments } from './audio';
+
+// Ogg Opus export. Encoding uses the browser's WebCodecs AudioEncoder; this
+// module only wraps the resulting packets in an Ogg container (RFC 7845).
+
+export interface OpusOptions {
+  bitrate?: number;
+  metadata?: AudioMetadata;
+}
+
+// Opus itself only runs at these rates; granule positions are always 48 kHz.
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+const GRANULE_RATE = 48000;
+export const DEFAULT_PRE_SKIP = 312;
+const FRAME_SAMPLES_48K = 960;
+const MAX_PACKETS_PER_PAGE = 50;
+const VENDOR = 'text-to-audio-converter';
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04C11DB7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC32_TABLE[((crc >>> 24) ^ data[i]) & 0xFF]) >>> 0;
+  }
+  return crc;
+};
+
+export const isOpusSupported = (): boolean => typeof AudioEncoder !== 'undefined';
+
+interface OggPacket {
+  data: Uint8Array;
+  granule: number;
+}
+
+// A page holds at most 255 lacing values, so about 64 KB of packet data.
+const MAX_SEGMENTS_PER_PAGE = 255;
+const CONTINUED_PACKET = 0x01;
+
+const buildPage = (lacing: number[], body: Uint8Array[], serial: number, sequence: number, headerType: number, granule: number): Uint8Array => {
+  const bodyLength = body.reduce((sum, part) => sum + part.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+  page.set(new TextEncoder().encode('OggS'), 0);
+  page[4] = 0; // version
+  page[5] = headerType;
+  // -1 marks a page on which no packet ends.
+  view.setUint32(6, granule < 0 ? 0xFFFFFFFF : granule % 2 ** 32, true);
+  view.setUint32(10, granule < 0 ? 0xFFFFFFFF : Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  for (const part of body) {
+    page.set(part, offset);
+    offset += part.length;
+  }
+  view.setUint32(22, crc32(page), true);
+  return page;
+};
+
+// Lays packets out over as many pages as their lacing needs. A packet that
+// does not fit carries on at the start of the next page, which is flagged as
+// a continuation. `firstType` is added to the first page's header type and
+// `lastType` to the last's.
+const buildPages = (
+  packets: OggPacket[], serial: number, firstSequence: number, firstType = 0, lastType = 0,
+): Uint8Array[] => {
+  const segments: { data: Uint8Array; granule: number | null }[] = [];
+  for (const packet of packets) {
+    let offset = 0;
+    while (packet.data.length - offset >= 255) {
+      segments.push({ data: packet.data.subarray(offset, offset + 255), granule: null });
+      offset += 255;
+    }
+    segments.push({ data: packet.data.subarray(offset), granule: packet.granule });
+  }
+
+  const pages: Uint8Array[] = [];
+  for (let start = 0; start < segments.length; start += MAX_SEGMENTS_PER_PAGE) {
+    const page = segments.slice(start, start + MAX_SEGMENTS_PER_PAGE);
+    const continued = start > 0 && segments[start - 1].granule === null;
+    const ended = page.filter(segment => segment.granule !== null);
+    let headerType = continued ? CONTINUED_PACKET : 0;
+    if (start === 0) headerType |= firstType;
+    if (start + MAX_SEGMENTS_PER_PAGE >= segments.length) headerType |= lastType;
+    pages.push(buildPage(
+      page.map(segment => segment.data.length), page.map(segment => segment.data),
+      serial, firstSequence + pages.length, headerType, ended.length > 0 ? ended[ended.length - 1].granule! : -1,
+    ));
+  }
+  return pages;
+};
+
+export const buildOpusHead = (inputSampleRate: number, preSkip: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'), 0);
+  head[8] = 1; // version
+  head[9] = 1; // mono
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // channel mapping family
+  return head;
+};
+
+const buildOpusTags = (metadata: AudioMetadata): Uint8Array => {
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode(VENDOR);
+  const comments = ([['TITLE', metadata.title], ['ARTIST', metadata.artist], ['COMMENT', metadata.comment], ...vorbisChapterComments(metadata.chapters)] as [string, string | undefined][])
+    .filter(([, value]) => value)
+    .map(([key, value]) => encoder.encode(`${key}=${value}`));
+  const tags = new Uint8Array(16 + vendor.length + comments.reduce((sum, comment) => sum + 4 + comment.length, 0));
+  const view = new DataView(tags.buffer);
+  tags.set(encoder.encode('OpusTags'), 0);
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  let offset = 12 + vendor.length;
+  view.setUint32(offset, comments.length, true);
+  offset += 4;
+  for (const comment of comments) {
+    view.setUint32(offset, comment.length, true);
+    tags.set(comment, offset + 4);
+    offset += 4 + comment.length;
+  }
+  return tags;
+};
+
+// Muxes raw Opus packets (each `samples48k` long) into an Ogg stream.
+export const muxOggOpus = (
+  packets: { data: Uint8Array; samples48k: number }[],
+  inputSampleRate: number,
+  totalSamples: number,
+  { preSkip = DEFAULT_PRE_SKIP, metadata = {} }: { preSkip?: number; metadata?: AudioMetadata } = {},
+): Uint8Array => {
+  const serial = Math.floor(Math.random() * 2 ** 32) >>> 0;
+  // The tags may be long enough to span pages; audio starts on a page of its own.
+  const pages: Uint8Array[] = buildPages([{ data: buildOpusHead(inputSampleRate, preSkip), granule: 0 }], serial, 0, 0x02);
+  pages.push(...buildPages([{ data: buildOpusTags(metadata), granule: 0 }], serial, pages.length));
+
+  // The final granule marks where decoded audio ends, trimming encoder padding.
+  const endGranule = preSkip + Math.round((totalSamples * GRANULE_RATE) / inputSampleRate);
+  let granule = preSkip;
+  let pending: OggPacket[] = [];
+  packets.forEach((packet, index) => {
+    granule += packet.samples48k;
+    const isLast = index === packets.length - 1;
+    pending.push({ data: packet.data, granule: isLast ? endGranule : granule });
+    if (pending.length === MAX_PACKETS_PER_PAGE || isLast) {
+      pages.push(...buildPages(pending, serial, pages.length, 0, isLast ? 0x04 : 0x00));
+      pending = [];
+    }
+  });
+
+  const output = new Uint8Array(pages.reduce((sum, page) => sum + page.length, 0));
+  let offset = 0;
+  for (const page of pages) {
+    output.set(page, offset);
+    offset += page.length;
+  }
+  return output;
+};
+
+const readPreSkip = (description: AllowSharedBufferSource | undefined): number | undefined => {
+  if (!description) return undefined;
+  const bytes = description instanceof ArrayBuffer || description instanceof SharedArrayBuffer
+    ? new Uint8Array(description)
+    : new Uint8Array(description.buffer, description.byteOffset, description.byteLength);
+  if (bytes.length < 12 || new TextDecoder().decode(bytes.subarray(0, 8)) !== 'OpusHead') return undefined;
+  return bytes[10] | (bytes[11] << 8);
+};
+
+export interface OpusPacket {
+  data: Uint8Array;
+  // Microseconds from the start of the input.
+  timestamp: number;
+  samples48k: number;
+}
+
+// Encodes mono samples to raw Opus packets, along with the pre-skip the
+// encoder reported. Containers (Ogg here, WebM for video) wrap the result.
+export async function encodeOpusPackets(samples: Float32Array, sampleRate: number, bitrate: number): Promise<{ packets: OpusPacket[]; preSkip: number }> {
+  if (!isOpusSupported()) {
+    throw new Error('Opus export needs WebCodecs, which this browser does not support.');
+  }
+  if (!OPUS_SAMPLE_RATES.includes(sampleRate)) {
+    throw new Error(`Opus cannot encode ${sampleRate} Hz audio.`);
+  }
+
+  const packets: OpusPacket[] = [];
+  let preSkip: number | undefined;
+  let encodeError: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadataInfo) => {
+      preSkip ??= readPreSkip(metadataInfo?.decoderConfig?.description);
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      const samples48k = chunk.duration ? Math.round((chunk.duration * GRANULE_RATE) / 1e6) : FRAME_SAMPLES_48K;
+      packets.push({ data, timestamp: chunk.timestamp, samples48k });
+    },
+    error: (e) => { encodeError = e instanceof Error ? e : new Error(String(e)); },
+  });
+  encoder.configure({ codec: 'opus', sampleRate, numberOfChannels: 1, bitrate: bitrate * 1000 });
+
+  const frameLength = Math.round(sampleRate / 50);
+  for (let start = 0; start < samples.length; start += frameLength) {
+    const frame = samples.slice(start, start + frameLength);
+    encoder.encode(new AudioData({
+      format: 'f32',
+      sampleRate,
+      numberOfFrames: frame.length,
+      numberOfChannels: 1,
+      timestamp: Math.round((start * 1e6) / sampleRate),
+      data: frame,
+    }));
+  }
+  await encoder.flush();
+  encoder.close();
+  if (encodeError) throw encodeError;
+
+  return { packets, preSkip: preSkip ?? DEFAULT_PRE_SKIP };
+}
+
+export async function encodeOggOpus(samples: Float32Array, sampleRate: number, { bitrate = 32, metadata = {} }: OpusOptions = {}): Promise<Uint8Array> {
+  const { packets, preSkip } = await encodeOpusPackets(samples, sampleRate, bitrate);
+  return muxOggOpus(packets, sampleRate, samples.length, { preSkip, metadata });
+}
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { backoffDelay, retryWithBackoff, sleep } from './retry';
+
+const OPTIONS = { maxAttempts: 4, baseDelayMs: 100, maxDelayMs: 1000 };
+
+// An operation that fails `failures` times before it succeeds.
+const flaky = (failures: number) => vi.fn(async (attempt: number) => {
+  if (attempt <= failures) throw new Error(`failure ${attempt}`);
+  return attempt;
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('backoffDelay', () => {
+  it('doubles the ceiling per attempt and waits between half and all of it', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect([1, 2, 3, 4].map(attempt => backoffDelay(attempt, 100, 1000))).toEqual([50, 100, 200, 400]);
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect([1, 2, 3, 4].map(attempt => backoffDelay(attempt, 100, 1000))).toEqual([100, 200, 400, 800]);
+  });
+
+  it('caps the ceiling at the maximum', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(backoffDelay(10, 100, 1000)).toBe(1000);
+  });
+});
+
+describe('retryWithBackoff', () => {
+  it('retries until the operation succeeds, waiting out each delay', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const operation = flaky(2);
+    const onRetry = vi.fn();
+    const result = retryWithBackoff(operation, { ...OPTIONS, onRetry });
+
+    await vi.advanceTimersByTimeAsync(49);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(result).resolves.toBe(3);
+    expect(onRetry.mock.calls.map(([, attempt, delayMs]) => [attempt, delayMs])).toEqual([[1, 50], [2, 100]]);
+  });
+
+  it('gives up after the last attempt with its error', async () => {
+    const operation = flaky(10);
+    const result = retryWithBackoff(operation, OPTIONS);
+    const rejected = expect(result).rejects.toThrow('failure 4');
+    await vi.runAllTimersAsync();
+    await rejected;
+    expect(operation).toHaveBeenCalledTimes(4);
+  });
+
+  it('stops at once when shouldRetry declines', async () => {
+    const operation = flaky(10);
+    await expect(retryWithBackoff(operation, { ...OPTIONS, shouldRetry: () => false })).rejects.toThrow('failure 1');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits at least the minimum delay the error asks for', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const onRetry = vi.fn();
+    const result = retryWithBackoff(flaky(1), { ...OPTIONS, minDelayMs: () => 3000, onRetry });
+    await vi.advanceTimersByTimeAsync(3000);
+    await expect(result).resolves.toBe(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 3000);
+  });
+
+  it('rejects with the abort reason while waiting and makes no further attempts', async () => {
+    const controller = new AbortController();
+    const operation = flaky(10);
+    const result = retryWithBackoff(operation, { ...OPTIONS, signal: controller.signal });
+    const rejected = expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    await rejected;
+    await vi.runAllTimersAsync();
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start when the signal has already aborted', async () => {
+    const operation = flaky(0);
+    await expect(retryWithBackoff(operation, { ...OPTIONS, signal: AbortSignal.abort() })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(operation).not.toHaveBeenCalled();
+  });
+});
+
+describe('sleep', () => {
+  it('clears its timer when aborted', async () => {
+    const controller = new AbortController();
+    const slept = sleep(1000, controller.signal);
+    controller.abort(new Error('stop'));
+    await expect(slept).rejects.toThrow('stop');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
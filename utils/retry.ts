@@ -0,0 +1,59 @@
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  // Returning false gives up immediately and rethrows the error.
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  // A lower bound for the next delay, e.g. a server's Retry-After.
+  minDelayMs?: (error: unknown) => number | undefined;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+const abortError = (signal: AbortSignal): unknown =>
+  signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+
+// Resolves after `ms`, or rejects as soon as `signal` aborts.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Exponential backoff with jitter: attempt n waits between half and all of
+// base * 2^(n-1), capped at `maxDelayMs`.
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+// Runs `operation` until it succeeds, the attempts run out, `shouldRetry`
+// declines, or the signal aborts. Attempts are numbered from 1.
+export async function retryWithBackoff<T>(
+  operation: (attempt: number) => Promise<T>,
+  { maxAttempts, baseDelayMs, maxDelayMs, signal, shouldRetry = () => true, minDelayMs, onRetry }: RetryOptions,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw abortError(signal);
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= maxAttempts || signal?.aborted || !shouldRetry(error, attempt)) throw error;
+      const delayMs = Math.max(backoffDelay(attempt, baseDelayMs, maxDelayMs), minDelayMs?.(error) ?? 0);
+      onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
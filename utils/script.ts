@@ -0,0 +1,119 @@
+import { SEGMENT_MAX_CHARS, VOICES } from '../constants';
+import type { SegmentRequest } from '../services/geminiService';
+import type { SpeakerVoice, SpeechCapabilities } from '../services/speechProvider';
+import { isPlainMarkup, MarkupResult, parseMarkup, planMarkupRequests } from './markup';
+import { segmentText } from './segmenter';
+
+export interface ScriptLine {
+  speaker: string;
+  text: string;
+}
+
+export interface ParsedScriptLine extends ScriptLine {
+  markup: MarkupResult;
+}
+
+export interface SpeakerSetting {
+  voice: string;
+  // Empty means "use the global tone".
+  tone: string;
+}
+
+// Text before the first label is attributed to this speaker.
+export const NARRATOR = 'Narrator';
+
+const SPEAKER_LABEL = /^\s*([\p{L}\p{N}][\p{L}\p{N} ._'-]{0,30}?)\s*:\s*(.*)$/u;
+
+// Parses `Speaker: line` scripts. A line without a label continues the
+// previous speaker's turn; blank lines are ignored.
+export const parseScript = (text: string): ScriptLine[] => {
+  const lines: ScriptLine[] = [];
+  for (const rawLine of text.split('\n')) {
+    if (!rawLine.trim()) continue;
+    const match = rawLine.match(SPEAKER_LABEL);
+    if (match) {
+      lines.push({ speaker: match[1].trim(), text: match[2].trim() });
+    } else if (lines.length > 0) {
+      const last = lines[lines.length - 1];
+      last.text = `${last.text} ${rawLine.trim()}`.trim();
+    } else {
+      lines.push({ speaker: NARRATOR, text: rawLine.trim() });
+    }
+  }
+  return lines.filter(line => line.text.length > 0);
+};
+
+export const listSpeakers = (lines: ScriptLine[]): string[] => Array.from(new Set(lines.map(line => line.speaker)));
+
+// Speakers without an explicit setting get voices round-robin from VOICES.
+export const resolveSpeakerVoices = (
+  speakers: string[],
+  settings: Record<string, SpeakerSetting>,
+  defaultTone: string,
+): SpeakerVoice[] => speakers.map((speaker, index) => ({
+  speaker,
+  voice: settings[speaker]?.voice || VOICES[index % VOICES.length].value,
+  tone: settings[speaker]?.tone || defaultTone,
+}));
+
+// Parses each turn's inline markup with its speaker's voice and tone as defaults.
+export const parseScriptMarkup = (lines: ScriptLine[], speakerVoices: SpeakerVoice[]): ParsedScriptLine[] => {
+  const voiceOf = new Map(speakerVoices.map(speakerVoice => [speakerVoice.speaker, speakerVoice]));
+  return lines.map(line => ({ ...line, markup: parseMarkup(line.text, voiceOf.get(line.speaker)!) }));
+};
+
+export const canVoiceNatively = (speakerCount: number, capabilities: SpeechCapabilities): boolean =>
+  capabilities.multiSpeaker && speakerCount > 1 && speakerCount <= capabilities.maxSpeakers;
+
+// Turns a script into synthesis requests. Providers that can voice every
+// speaker natively get consecutive turns packed into multi-speaker requests,
+// as long as no turn uses markup a shared request cannot express; otherwise
+// each turn is synthesized on its own with its speaker's voice and the
+// results are concatenated.
+export const planScriptRequests = (
+  lines: ParsedScriptLine[],
+  speakerVoices: SpeakerVoice[],
+  capabilities: SpeechCapabilities,
+  maxChars = SEGMENT_MAX_CHARS,
+): SegmentRequest[] => {
+  const voiceOf = new Map(speakerVoices.map(speakerVoice => [speakerVoice.speaker, speakerVoice]));
+  const native = canVoiceNatively(speakerVoices.length, capabilities)
+    && lines.every(line => isPlainMarkup(line.markup, voiceOf.get(line.speaker)!));
+  if (!native) {
+    return lines.flatMap(line => planMarkupRequests(line.markup.segments, maxChars));
+  }
+
+  const turns = lines.flatMap(line =>
+    segmentText(line.markup.plainText, maxChars).map(segment => `${line.speaker}: ${segment.text}`)
+  );
+  const requests: SegmentRequest[] = [];
+  let current: string[] = [];
+  const flush = () => {
+    if (current.length === 0) return;
+    requests.push({
+      text: current.join('\n'),
+      voice: speakerVoices[0].voice,
+      tone: speakerVoices[0].tone,
+      speakers: speakerVoices,
+    });
+    current = [];
+  };
+  for (const turn of turns) {
+    if (current.length > 0 && current.join('\n').length + turn.length + 1 > maxChars) {
+      flush();
+    }
+    current.push(turn);
+  }
+  flush();
+  return requests;
+};
+
+// The words a request speaks, matching the editor's word list: the speaker
+// labels of a multi-speaker request are not spoken, and pauses say nothing.
+export const requestWords = (request: SegmentRequest): string[] => {
+  if ('pauseSeconds' in request) return [];
+  const spoken = request.speakers
+    ? request.text.split('\n').map(turn => turn.slice(turn.indexOf(':') + 1)).join(' ')
+    : request.text;
+  return spoken.split(/\s+/).filter(word => word.length > 0);
+};
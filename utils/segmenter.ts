@@ -0,0 +1,112 @@
+import { SEGMENT_MAX_CHARS } from '../constants';
+
+export interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TextSegment extends TextSpan {
+  index: number;
+}
+
+const SENTENCE_END = /[.!?…]/;
+const SENTENCE_TRAILER = /[.!?…"'”’)\]]/;
+const BOUNDARY_FOLLOWER = /[\s"'”’)\]]/;
+// Roughly one sentence in this many closes its segment regardless of room left.
+const ANCHOR_INTERVAL = 4;
+
+const pushSpan = (spans: TextSpan[], text: string, start: number, end: number) => {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  if (end > start) {
+    spans.push({ text: text.slice(start, end), start, end });
+  }
+};
+
+// Splits on sentence punctuation followed by whitespace (so "3.5" and "e.g.x"
+// stay intact) and on line breaks. Offsets point into the original text.
+export const splitSentences = (text: string): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    let boundary = ch === '\n';
+    if (!boundary && SENTENCE_END.test(ch) && (i + 1 === text.length || BOUNDARY_FOLLOWER.test(text[i + 1]))) {
+      while (i + 1 < text.length && SENTENCE_TRAILER.test(text[i + 1])) i++;
+      boundary = true;
+    }
+    if (boundary) {
+      pushSpan(spans, text, start, i + 1);
+      start = i + 1;
+    }
+  }
+  pushSpan(spans, text, start, text.length);
+  return spans;
+};
+
+// Breaks a sentence that alone exceeds the budget at word boundaries.
+const splitOversized = (text: string, span: TextSpan, maxChars: number): TextSpan[] => {
+  const pieces: TextSpan[] = [];
+  let pieceStart = span.start;
+  let lastBreak = -1;
+
+  for (let i = span.start; i < span.end; i++) {
+    if (/\s/.test(text[i])) lastBreak = i;
+    if (i - pieceStart >= maxChars) {
+      const cut = lastBreak > pieceStart ? lastBreak : i;
+      pushSpan(pieces, text, pieceStart, cut);
+      pieceStart = cut;
+      lastBreak = -1;
+    }
+  }
+  pushSpan(pieces, text, pieceStart, span.end);
+  return pieces;
+};
+
+// FNV-1a over the sentence text alone, so whether a sentence is an anchor
+// does not depend on anything around it.
+const isAnchor = (sentence: string): boolean => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < sentence.length; i++) {
+    hash = Math.imul(hash ^ sentence.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0) % ANCHOR_INTERVAL === 0;
+};
+
+// Greedily packs whole sentences into segments of at most `maxChars`
+// characters, measured over the original text including separators. Anchor
+// sentences always end a segment, which keeps boundaries stable under edits:
+// changing one sentence only reshapes segments up to the next anchor, so the
+// rest still hit the synthesis cache. Text that fits one segment is never split.
+export const segmentText = (text: string, maxChars = SEGMENT_MAX_CHARS): TextSegment[] => {
+  const pieces = splitSentences(text).flatMap(span =>
+    span.text.length > maxChars ? splitOversized(text, span, maxChars) : [span]
+  );
+
+  const segments: TextSegment[] = [];
+  const useAnchors = text.trim().length > maxChars;
+  let current: TextSpan | null = null;
+
+  const flush = () => {
+    if (current) {
+      segments.push({ ...current, index: segments.length });
+    }
+  };
+
+  for (const piece of pieces) {
+    if (current && piece.end - current.start <= maxChars) {
+      current = { text: text.slice(current.start, piece.end), start: current.start, end: piece.end };
+    } else {
+      flush();
+      current = piece;
+    }
+    if (useAnchors && isAnchor(piece.text)) {
+      flush();
+      current = null;
+    }
+  }
+  flush();
+  return segments;
+};
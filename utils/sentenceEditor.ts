@@ -0,0 +1,102 @@
+import type { WordTiming } from '../types';
+
+// One sentence of the generated audio, as the waveform editor shows it.
+// Sentences never cross script lines, so a region can be revoiced with the
+// line's speaker.
+export interface SentenceRegion {
+  line: number;
+  // Index into the flattened word list.
+  firstWord: number;
+  wordCount: number;
+  // Cut points in seconds, halfway into the gaps around the sentence.
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SpliceResult {
+  samples: Float32Array;
+  // Where the replacement begins in `samples`.
+  replacementStart: number;
+}
+
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+const SPLICE_CROSSFADE_SECONDS = 0.01;
+
+export function buildSentenceRegions(lineWords: string[][], timings: WordTiming[], duration: number): SentenceRegion[] {
+  const regions: SentenceRegion[] = [];
+  let wordIndex = 0;
+  lineWords.forEach((words, line) => {
+    let first = 0;
+    words.forEach((word, i) => {
+      if (i < words.length - 1 && !SENTENCE_END.test(word)) return;
+      const firstWord = wordIndex + first;
+      const lastWord = wordIndex + i;
+      const previous = timings[firstWord - 1];
+      const next = timings[lastWord + 1];
+      regions.push({
+        line,
+        firstWord,
+        wordCount: i - first + 1,
+        start: previous ? (previous.end + timings[firstWord].start) / 2 : 0,
+        end: next ? (timings[lastWord].end + next.start) / 2 : duration,
+        text: words.slice(first, i + 1).join(' '),
+      });
+      first = i + 1;
+    });
+    wordIndex += words.length;
+  });
+  return regions;
+}
+
+// Replaces samples [start, end) with `replacement`, overlapping each seam by a
+// short linear crossfade so the cut does not click.
+export function spliceSamples(samples: Float32Array, start: number, end: number, replacement: Float32Array, sampleRate: number): SpliceResult {
+  const fade = Math.min(Math.round(SPLICE_CROSSFADE_SECONDS * sampleRate), Math.floor(replacement.length / 2));
+  const fadeIn = Math.min(fade, start);
+  const fadeOut = Math.min(fade, samples.length - end);
+  const replacementStart = start - fadeIn;
+  const output = new Float32Array(samples.length - (end - start) + replacement.length - fadeIn - fadeOut);
+
+  output.set(samples.subarray(0, start));
+  for (let i = 0; i < replacement.length; i++) {
+    let value = replacement[i];
+    if (i < fadeIn) {
+      const t = (i + 0.5) / fadeIn;
+      value = value * t + output[replacementStart + i] * (1 - t);
+    }
+    output[replacementStart + i] = value;
+  }
+  const afterStart = replacementStart + replacement.length - fadeOut;
+  for (let i = 0; i < samples.length - end; i++) {
+    const value = samples[end + i];
+    if (i < fadeOut) {
+      const t = (i + 0.5) / fadeOut;
+      output[afterStart + i] = output[afterStart + i] * (1 - t) + value * t;
+    } else {
+      output[afterStart + i] = value;
+    }
+  }
+  return { samples: output, replacementStart };
+}
+
+// Timings after a splice: words before the region stay, the region's words are
+// replaced by `replacement` (relative to `offset`), and later words move by
+// `shift` seconds.
+export function spliceWordTimings(timings: WordTiming[], region: SentenceRegion, replacement: WordTiming[], offset: number, shift: number): WordTiming[] {
+  const afterIndex = region.firstWord + region.wordCount;
+  return [
+    ...timings.slice(0, region.firstWord),
+    ...replacement.map(timing => ({ ...timing, start: timing.start + offset, end: timing.end + offset })),
+    ...timings.slice(afterIndex).map(timing => ({ ...timing, start: timing.start + shift, end: timing.end + shift })),
+  ];
+}
+
+export function spliceLineWords(lineWords: string[][], region: SentenceRegion, words: string[]): string[][] {
+  const lineStart = lineWords.slice(0, region.line).reduce((sum, line) => sum + line.length, 0);
+  return lineWords.map((line, index) => {
+    if (index !== region.line) return line;
+    const first = region.firstWord - lineStart;
+    return [...line.slice(0, first), ...words, ...line.slice(first + region.wordCount)];
+  });
+}
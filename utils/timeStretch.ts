@@ -0,0 +1,136 @@
+export interface TimeStretchSettings {
+  // Playback rate; 2 halves the duration. Pitch is preserved.
+  speed: number;
+  // Pitch shift in semitones, independent of speed.
+  semitones: number;
+}
+
+export const NEUTRAL_TIME_STRETCH: TimeStretchSettings = { speed: 1, semitones: 0 };
+
+export const isNeutralTimeStretch = ({ speed, semitones }: TimeStretchSettings): boolean =>
+  speed === 1 && semitones === 0;
+
+export const formatTimeStretch = ({ speed, semitones }: TimeStretchSettings): string =>
+  `${speed}x, ${semitones > 0 ? '+' : ''}${semitones} st`;
+
+const FRAME_SECONDS = 0.03;
+const TOLERANCE_SECONDS = 0.008;
+// The similarity search first scans every COARSE_STEP-th lag, then refines
+// around the best one; correlations use every CORRELATION_STEP-th sample.
+const COARSE_STEP = 4;
+const CORRELATION_STEP = 4;
+
+const correlate = (samples: Float32Array, a: number, b: number, length: number): number => {
+  let sum = 0;
+  for (let i = 0; i < length; i += CORRELATION_STEP) {
+    sum += samples[a + i] * samples[b + i];
+  }
+  return sum;
+};
+
+// WSOLA: Hann-windowed frames are overlap-added at a fixed output hop while the
+// input hop is scaled by `rate`. Each frame is taken from within a small
+// tolerance of its nominal position, at the offset whose start best matches
+// the natural continuation of the previous frame, so periodic speech stays in
+// phase and pitch is unchanged. Output length is input length / rate.
+export function wsola(samples: Float32Array, sampleRate: number, rate: number): Float32Array {
+  if (rate === 1 || samples.length === 0) return samples.slice();
+
+  const frameSize = Math.max(4, Math.round(FRAME_SECONDS * sampleRate) & ~1);
+  const synthesisHop = frameSize / 2;
+  const analysisHop = synthesisHop * rate;
+  const tolerance = Math.round(TOLERANCE_SECONDS * sampleRate);
+  const outputLength = Math.round(samples.length / rate);
+
+  const window = new Float32Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize);
+  }
+
+  // Padding on both sides lets frames and the search run past the edges.
+  const padding = frameSize + tolerance;
+  const input = new Float32Array(samples.length + 2 * padding);
+  input.set(samples, padding);
+  const maxStart = input.length - frameSize;
+
+  const output = new Float32Array(outputLength + frameSize);
+  const weights = new Float32Array(outputLength + frameSize);
+  let previous = padding - synthesisHop;
+
+  for (let k = 0; k * synthesisHop < outputLength + synthesisHop; k++) {
+    const outputStart = k * synthesisHop;
+    let start = padding - synthesisHop + Math.round(k * analysisHop);
+
+    if (k > 0) {
+      const target = previous + synthesisHop;
+      const low = Math.max(0, start - tolerance);
+      const high = Math.min(maxStart, start + tolerance);
+      let best = Math.min(Math.max(start, low), high);
+      let bestScore = -Infinity;
+      for (let candidate = low; candidate <= high; candidate += COARSE_STEP) {
+        const score = correlate(input, target, candidate, synthesisHop);
+        if (score > bestScore) {
+          bestScore = score;
+          best = candidate;
+        }
+      }
+      const coarseBest = best;
+      for (let candidate = Math.max(low, coarseBest - COARSE_STEP + 1); candidate <= Math.min(high, coarseBest + COARSE_STEP - 1); candidate++) {
+        const score = correlate(input, target, candidate, synthesisHop);
+        if (score > bestScore) {
+          bestScore = score;
+          best = candidate;
+        }
+      }
+      start = best;
+    }
+    start = Math.min(start, maxStart);
+
+    for (let i = 0; i < frameSize; i++) {
+      output[outputStart + i] += input[start + i] * window[i];
+      weights[outputStart + i] += window[i];
+    }
+    previous = start;
+  }
+
+  // Frames start half a frame early so the window's rising edge falls before
+  // the first real sample; that lead-in is skipped when reading back.
+  const result = new Float32Array(outputLength);
+  const lead = synthesisHop;
+  for (let i = 0; i < outputLength; i++) {
+    const weight = weights[i + lead];
+    result[i] = weight > 1e-3 ? output[i + lead] / weight : 0;
+  }
+  return result;
+}
+
+// Cubic (Catmull-Rom) resampling that reads the input `step` samples per
+// output sample, so the result is input length / step long.
+export function resampleByStep(samples: Float32Array, step: number): Float32Array {
+  if (step === 1) return samples.slice();
+  const length = Math.floor(samples.length / step);
+  const output = new Float32Array(length);
+  const last = samples.length - 1;
+  const at = (index: number) => samples[Math.max(0, Math.min(last, index))];
+  for (let i = 0; i < length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const t = position - index;
+    const p0 = at(index - 1);
+    const p1 = at(index);
+    const p2 = at(index + 1);
+    const p3 = at(index + 2);
+    output[i] = p1 + 0.5 * t * (p2 - p0 + t * (2 * p0 - 5 * p1 + 4 * p2 - p3 + t * (3 * (p1 - p2) + p3 - p0)));
+  }
+  return output;
+}
+
+// Speed and pitch in a single WSOLA pass: the audio is stretched by
+// ratio / speed and then resampled by the pitch ratio, which restores the
+// target duration while moving every frequency by `semitones`.
+export function applyTimeStretch(samples: Float32Array, sampleRate: number, { speed, semitones }: TimeStretchSettings): Float32Array {
+  if (isNeutralTimeStretch({ speed, semitones })) return samples;
+  const pitchRatio = 2 ** (semitones / 12);
+  const stretched = wsola(samples, sampleRate, speed / pitchRatio);
+  return resampleByStep(stretched, pitchRatio);
+}
@@ -0,0 +1,137 @@
+import { AUDIO_TOKENS_PER_SECOND, CHARS_PER_TOKEN, USAGE_PRICING } from '../constants';
+import type { SpeechErrorKind } from '../services/speechErrors';
+import { formatCsv } from './csv';
+
+export type UsageOutcome = 'success' | 'failure' | 'cancelled';
+
+// One provider request: a segment synthesized from scratch, retries included.
+// Cache hits and pauses never reach the provider and are not recorded.
+export interface UsageRecord {
+  // Milliseconds since the epoch, when the request started.
+  time: number;
+  provider: string;
+  model: string;
+  // The voice, or each speaker's voice joined with "+" for dialogue.
+  voice: string;
+  inputChars: number;
+  // Estimated from the characters; providers do not report counts.
+  inputTokens: number;
+  audioSeconds: number;
+  // Until the first audio arrived, and until the stream ended or failed.
+  latencyMs: number | null;
+  durationMs: number;
+  attempts: number;
+  outcome: UsageOutcome;
+  error?: SpeechErrorKind;
+}
+
+export interface UsageTotals {
+  requests: number;
+  failures: number;
+  inputChars: number;
+  inputTokens: number;
+  audioSeconds: number;
+  cost: number;
+}
+
+export type UsageMetric = 'cost' | 'characters' | 'audioSeconds' | 'requests';
+
+// Limits on one metric for the current session; null means no limit. Past
+// the soft limit generation carries on with a warning, past the hard limit
+// the service refuses new requests.
+export interface UsageBudget {
+  metric: UsageMetric;
+  soft: number | null;
+  hard: number | null;
+}
+
+export type BudgetLevel = 'ok' | 'soft' | 'hard';
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { metric: 'cost', soft: null, hard: null };
+
+export function estimateTokens(chars: number): number {
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+export function estimateCost({ provider, inputTokens, audioSeconds }: UsageRecord): number {
+  const pricing = USAGE_PRICING[provider];
+  if (!pricing) return 0;
+  const outputTokens = audioSeconds * AUDIO_TOKENS_PER_SECOND;
+  return (inputTokens * pricing.inputPerMillionTokens + outputTokens * pricing.outputPerMillionTokens) / 1_000_000;
+}
+
+export function summarizeUsage(records: UsageRecord[]): UsageTotals {
+  const totals: UsageTotals = { requests: 0, failures: 0, inputChars: 0, inputTokens: 0, audioSeconds: 0, cost: 0 };
+  for (const record of records) {
+    totals.requests++;
+    if (record.outcome === 'failure') totals.failures++;
+    totals.inputChars += record.inputChars;
+    totals.inputTokens += record.inputTokens;
+    totals.audioSeconds += record.audioSeconds;
+    totals.cost += estimateCost(record);
+  }
+  return totals;
+}
+
+// Local calendar day, e.g. "2025-03-14".
+export function usageDay(time: number): string {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// Totals per local day, most recent first.
+export function dailyUsage(records: UsageRecord[]): { day: string; totals: UsageTotals }[] {
+  const byDay = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const day = usageDay(record.time);
+    byDay.set(day, [...(byDay.get(day) ?? []), record]);
+  }
+  return Array.from(byDay, ([day, dayRecords]) => ({ day, totals: summarizeUsage(dayRecords) }))
+    .sort((a, b) => b.day.localeCompare(a.day));
+}
+
+export function usageMetricValue(totals: UsageTotals, metric: UsageMetric): number {
+  switch (metric) {
+    case 'cost': return totals.cost;
+    case 'characters': return totals.inputChars;
+    case 'audioSeconds': return totals.audioSeconds;
+    case 'requests': return totals.requests;
+  }
+}
+
+export function budgetLevel(totals: UsageTotals, budget: UsageBudget): BudgetLevel {
+  const used = usageMetricValue(totals, budget.metric);
+  if (budget.hard !== null && used >= budget.hard) return 'hard';
+  if (budget.soft !== null && used >= budget.soft) return 'soft';
+  return 'ok';
+}
+
+export function formatUsageMetric(value: number, metric: UsageMetric): string {
+  switch (metric) {
+    case 'cost': return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+    case 'characters': return `${value.toLocaleString('en-US')} chars`;
+    case 'audioSeconds': return `${(value / 60).toFixed(1)} min`;
+    case 'requests': return `${value} requests`;
+  }
+}
+
+export function formatUsageCsv(records: UsageRecord[]): string {
+  return formatCsv([
+    ['time', 'provider', 'model', 'voice', 'input_chars', 'input_tokens_estimated', 'audio_seconds', 'latency_ms', 'duration_ms', 'attempts', 'outcome', 'error', 'estimated_cost_usd'],
+    ...records.map(record => [
+      new Date(record.time).toISOString(),
+      record.provider,
+      record.model,
+      record.voice,
+      String(record.inputChars),
+      String(record.inputTokens),
+      record.audioSeconds.toFixed(3),
+      record.latencyMs !== null ? String(record.latencyMs) : '',
+      String(record.durationMs),
+      String(record.attempts),
+      record.outcome,
+      record.error ?? '',
+      estimateCost(record).toFixed(6),
+    ]),
+  ]);
+}
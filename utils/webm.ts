@@ -0,0 +1,248 @@
+// WebM (Matroska) muxing for encoded video and Opus audio. Encoding uses the
+// browser's WebCodecs encoders; this module only writes the container.
+
+export interface WebmVideoTrack {
+  codecId: 'V_VP8' | 'V_VP9';
+  width: number;
+  height: number;
+}
+
+export interface WebmAudioTrack {
+  // Opus in WebM is always declared at 48 kHz, whatever the input rate.
+  codecPrivate: Uint8Array;
+  preSkip: number;
+  channels: number;
+}
+
+export interface WebmBlock {
+  track: 'video' | 'audio';
+  // Microseconds from the start.
+  timestamp: number;
+  data: Uint8Array;
+  keyframe: boolean;
+}
+
+export interface WebmOptions {
+  video: WebmVideoTrack;
+  audio: WebmAudioTrack;
+  blocks: WebmBlock[];
+  durationSeconds: number;
+  title?: string;
+}
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+// Timestamps are counted in milliseconds.
+const TIMESTAMP_SCALE = 1_000_000;
+// Block timestamps are 16-bit offsets from their cluster's.
+const MAX_CLUSTER_MS = 30_000;
+const OPUS_SEEK_PRE_ROLL_NS = 80_000_000;
+const MUXING_APP = 'text-to-audio-converter';
+
+const ID = {
+  EBML: 0x1A45DFA3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42F7,
+  EBMLMaxIDLength: 0x42F2,
+  EBMLMaxSizeLength: 0x42F3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  SeekHead: 0x114D9B74,
+  Seek: 0x4DBB,
+  SeekID: 0x53AB,
+  SeekPosition: 0x53AC,
+  Info: 0x1549A966,
+  TimestampScale: 0x2AD7B1,
+  Duration: 0x4489,
+  Title: 0x7BA9,
+  MuxingApp: 0x4D80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654AE6B,
+  TrackEntry: 0xAE,
+  TrackNumber: 0xD7,
+  TrackUID: 0x73C5,
+  TrackType: 0x83,
+  FlagLacing: 0x9C,
+  CodecID: 0x86,
+  CodecPrivate: 0x63A2,
+  CodecDelay: 0x56AA,
+  SeekPreRoll: 0x56BB,
+  Video: 0xE0,
+  PixelWidth: 0xB0,
+  PixelHeight: 0xBA,
+  Audio: 0xE1,
+  SamplingFrequency: 0xB5,
+  Channels: 0x9F,
+  Cluster: 0x1F43B675,
+  Timestamp: 0xE7,
+  SimpleBlock: 0xA3,
+  Cues: 0x1C53BB6B,
+  CuePoint: 0xBB,
+  CueTime: 0xB3,
+  CueTrackPositions: 0xB7,
+  CueTrack: 0xF7,
+  CueClusterPosition: 0xF1,
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const idBytes = (id: number): Uint8Array => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xFF);
+  return new Uint8Array(bytes);
+};
+
+// Big-endian unsigned integer in exactly `length` bytes.
+const uintBytes = (value: number, length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return bytes;
+};
+
+const minimalLength = (value: number): number => {
+  let length = 1;
+  while (value >= 2 ** (8 * length)) length++;
+  return length;
+};
+
+// EBML variable-length size: a marker bit, then the value. All ones is
+// reserved for "unknown", hence the - 1.
+const sizeBytes = (size: number): Uint8Array => {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes = uintBytes(size, length);
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+};
+
+const element = (id: number, children: Uint8Array | Uint8Array[]): Uint8Array => {
+  const body = children instanceof Uint8Array ? children : concat(children);
+  return concat([idBytes(id), sizeBytes(body.length), body]);
+};
+
+const uint = (id: number, value: number, length = minimalLength(value)): Uint8Array => element(id, uintBytes(value, length));
+
+const float = (id: number, value: number): Uint8Array => {
+  const body = new Uint8Array(8);
+  new DataView(body.buffer).setFloat64(0, value);
+  return element(id, body);
+};
+
+const string = (id: number, value: string): Uint8Array => element(id, new TextEncoder().encode(value));
+
+const randomUid = (): number => Math.floor(Math.random() * 2 ** 32) + 1;
+
+const simpleBlock = (track: number, relativeMs: number, keyframe: boolean, data: Uint8Array): Uint8Array => {
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | track;
+  new DataView(header.buffer).setInt16(1, relativeMs);
+  header[3] = keyframe ? 0x80 : 0x00;
+  return element(ID.SimpleBlock, [header, data]);
+};
+
+// Clusters start at every video keyframe, so each is a seek point, and are
+// split earlier if their block offsets would overflow. Blocks are written
+// in timestamp order, video first on a tie.
+export function muxWebm({ video, audio, blocks, durationSeconds, title }: WebmOptions): Uint8Array {
+  const header = element(ID.EBML, [
+    uint(ID.EBMLVersion, 1),
+    uint(ID.EBMLReadVersion, 1),
+    uint(ID.EBMLMaxIDLength, 4),
+    uint(ID.EBMLMaxSizeLength, 8),
+    string(ID.DocType, 'webm'),
+    uint(ID.DocTypeVersion, 4),
+    uint(ID.DocTypeReadVersion, 2),
+  ]);
+
+  const info = element(ID.Info, [
+    uint(ID.TimestampScale, TIMESTAMP_SCALE),
+    float(ID.Duration, durationSeconds * 1000),
+    ...(title ? [string(ID.Title, title)] : []),
+    string(ID.MuxingApp, MUXING_APP),
+    string(ID.WritingApp, MUXING_APP),
+  ]);
+
+  const tracks = element(ID.Tracks, [
+    element(ID.TrackEntry, [
+      uint(ID.TrackNumber, VIDEO_TRACK),
+      uint(ID.TrackUID, randomUid()),
+      uint(ID.TrackType, 1),
+      uint(ID.FlagLacing, 0),
+      string(ID.CodecID, video.codecId),
+      element(ID.Video, [uint(ID.PixelWidth, video.width), uint(ID.PixelHeight, video.height)]),
+    ]),
+    element(ID.TrackEntry, [
+      uint(ID.TrackNumber, AUDIO_TRACK),
+      uint(ID.TrackUID, randomUid()),
+      uint(ID.TrackType, 2),
+      uint(ID.FlagLacing, 0),
+      string(ID.CodecID, 'A_OPUS'),
+      element(ID.CodecPrivate, audio.codecPrivate),
+      uint(ID.CodecDelay, Math.round((audio.preSkip * 1e9) / 48000)),
+      uint(ID.SeekPreRoll, OPUS_SEEK_PRE_ROLL_NS),
+      element(ID.Audio, [float(ID.SamplingFrequency, 48000), uint(ID.Channels, audio.channels)]),
+    ]),
+  ]);
+
+  const sorted = blocks
+    .map(block => ({ ...block, ms: Math.round(block.timestamp / 1000) }))
+    .sort((a, b) => a.ms - b.ms || (a.track === 'video' ? -1 : 1) - (b.track === 'video' ? -1 : 1));
+
+  const clusters: { ms: number; keyframe: boolean; bytes: Uint8Array }[] = [];
+  let clusterMs = 0;
+  let clusterKeyframe = false;
+  let pending: Uint8Array[] | null = null;
+  const flush = () => {
+    if (pending) clusters.push({ ms: clusterMs, keyframe: clusterKeyframe, bytes: element(ID.Cluster, [uint(ID.Timestamp, clusterMs), ...pending]) });
+    pending = null;
+  };
+  for (const block of sorted) {
+    const startsCluster = (block.track === 'video' && block.keyframe) || block.ms - clusterMs > MAX_CLUSTER_MS;
+    if (!pending || startsCluster) {
+      flush();
+      clusterMs = block.ms;
+      clusterKeyframe = block.track === 'video' && block.keyframe;
+      pending = [];
+    }
+    pending.push(simpleBlock(block.track === 'video' ? VIDEO_TRACK : AUDIO_TRACK, block.ms - clusterMs, block.keyframe, block.data));
+  }
+  flush();
+
+  // Positions are relative to the start of the segment's data. SeekHead
+  // positions use a fixed width, so its size does not depend on them.
+  const seekEntry = (id: number, position: number) =>
+    element(ID.Seek, [element(ID.SeekID, idBytes(id)), uint(ID.SeekPosition, position, 8)]);
+  const seekHeadSize = element(ID.SeekHead, [seekEntry(ID.Info, 0), seekEntry(ID.Tracks, 0), seekEntry(ID.Cues, 0)]).length;
+  const infoPosition = seekHeadSize;
+  const tracksPosition = infoPosition + info.length;
+  let position = tracksPosition + tracks.length;
+  const cuePoints: Uint8Array[] = [];
+  for (const cluster of clusters) {
+    if (cluster.keyframe) cuePoints.push(element(ID.CuePoint, [
+      uint(ID.CueTime, cluster.ms),
+      element(ID.CueTrackPositions, [uint(ID.CueTrack, VIDEO_TRACK), uint(ID.CueClusterPosition, position, 8)]),
+    ]));
+    position += cluster.bytes.length;
+  }
+  const cues = element(ID.Cues, cuePoints);
+  const seekHead = element(ID.SeekHead, [
+    seekEntry(ID.Info, infoPosition),
+    seekEntry(ID.Tracks, tracksPosition),
+    seekEntry(ID.Cues, position),
+  ]);
+
+  return concat([header, element(ID.Segment, [seekHead, info, tracks, ...clusters.map(cluster => cluster.bytes), cues])]);
+}
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createWorkerRunner } from './workerRunner';
+
+interface Job {
+  id: number;
+  value: number;
+}
+
+interface Result {
+  id: number;
+  doubled?: number;
+  error?: string;
+}
+
+// Stands in for a module worker; the test decides when it answers or fails.
+class FakeWorker {
+  onmessage: ((event: MessageEvent<Result>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  posted: Job[] = [];
+  terminated = false;
+  postMessage(job: Job) { this.posted.push(job); }
+  terminate() { this.terminated = true; }
+  answer(result: Result) { this.onmessage?.({ data: result } as MessageEvent<Result>); }
+  fail(message: string) { this.onerror?.({ message } as ErrorEvent); }
+}
+
+const setup = () => {
+  const workers: FakeWorker[] = [];
+  const runOnMainThread = vi.fn(({ value }: Job) => value * 2);
+  const run = createWorkerRunner<Job, Result, number>({
+    name: 'Test',
+    activity: 'testing',
+    createWorker: () => {
+      const worker = new FakeWorker();
+      workers.push(worker);
+      return worker as unknown as Worker;
+    },
+    runOnMainThread,
+    readResult: result => result.doubled,
+  });
+  return { workers, run, runOnMainThread };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('createWorkerRunner', () => {
+  it('runs on the main thread where workers are missing', async () => {
+    vi.stubGlobal('Worker', undefined);
+    const { run, workers } = setup();
+    await expect(run({ value: 2 })).resolves.toBe(4);
+    expect(workers).toHaveLength(0);
+  });
+
+  it('matches answers to jobs by id and reports failed jobs', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const { run, workers, runOnMainThread } = setup();
+    const first = run({ value: 1 });
+    const second = run({ value: 2 });
+    const [worker] = workers;
+    worker.answer({ id: worker.posted[1].id, doubled: 4 });
+    worker.answer({ id: worker.posted[0].id, error: 'bad input' });
+    await expect(second).resolves.toBe(4);
+    await expect(first).rejects.toThrow('bad input');
+    expect(workers).toHaveLength(1);
+    expect(runOnMainThread).not.toHaveBeenCalled();
+  });
+
+  it('moves to the main thread for good when the worker fails before answering', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { run, workers } = setup();
+    const pending = run({ value: 3 });
+    workers[0].fail('blocked');
+    await expect(pending).resolves.toBe(6);
+    expect(workers[0].terminated).toBe(true);
+    await expect(run({ value: 4 })).resolves.toBe(8);
+    expect(workers).toHaveLength(1);
+  });
+
+  it('rejects pending jobs when a working worker crashes, then starts a new one', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const { run, workers, runOnMainThread } = setup();
+    const first = run({ value: 1 });
+    workers[0].answer({ id: workers[0].posted[0].id, doubled: 2 });
+    await first;
+    const second = run({ value: 2 });
+    workers[0].fail('out of memory');
+    await expect(second).rejects.toThrow('out of memory');
+    expect(runOnMainThread).not.toHaveBeenCalled();
+    run({ value: 3 });
+    expect(workers).toHaveLength(2);
+  });
+});
@@ -0,0 +1,87 @@
+export interface WorkerJob {
+  id: number;
+}
+
+export interface WorkerJobResult {
+  id: number;
+  error?: string;
+}
+
+export interface WorkerRunnerOptions<Job extends WorkerJob, Result extends WorkerJobResult, Output> {
+  // Names the work in log and error messages, e.g. "Export" and "encoding".
+  name: string;
+  activity: string;
+  // Must call `new Worker(new URL(..., import.meta.url))` itself so the
+  // bundler can find the worker entry.
+  createWorker: () => Worker;
+  runOnMainThread: (job: Job) => Output | Promise<Output>;
+  // The output a result carries, or undefined when the job failed.
+  readResult: (result: Result) => Output | undefined;
+}
+
+// Runs jobs on a lazily started module worker, falling back to the main thread
+// where workers are missing. A worker that errors before it ever answers
+// (blocked by CSP, a broken bundle) will not work next time either, so jobs
+// stay on the main thread from then on.
+export function createWorkerRunner<Job extends WorkerJob, Result extends WorkerJobResult, Output>({
+  name, activity, createWorker, runOnMainThread, readResult,
+}: WorkerRunnerOptions<Job, Result, Output>): (job: Omit<Job, 'id'>) => Promise<Output> {
+  let worker: Worker | null = null;
+  let workerUnavailable = false;
+  let workerAnswered = false;
+  let nextJobId = 0;
+  const pendingJobs = new Map<number, { job: Job; resolve: (output: Output) => void; reject: (error: unknown) => void }>();
+
+  const getWorker = (): Worker | null => {
+    if (worker) return worker;
+    if (workerUnavailable || typeof Worker === 'undefined') return null;
+    try {
+      worker = createWorker();
+    } catch (error) {
+      console.warn(`${name} worker unavailable, ${activity} on the main thread:`, error);
+      workerUnavailable = true;
+      return null;
+    }
+    workerAnswered = false;
+    worker.onmessage = (event: MessageEvent<Result>) => {
+      workerAnswered = true;
+      const result = event.data;
+      const pending = pendingJobs.get(result.id);
+      if (!pending) return;
+      pendingJobs.delete(result.id);
+      const output = readResult(result);
+      if (output !== undefined) {
+        pending.resolve(output);
+      } else {
+        pending.reject(new Error(result.error ?? `${name} failed`));
+      }
+    };
+    worker.onerror = (event) => {
+      const jobs = [...pendingJobs.values()];
+      pendingJobs.clear();
+      worker?.terminate();
+      worker = null;
+      if (!workerAnswered) {
+        console.warn(`${name} worker failed to start, ${activity} on the main thread:`, event.message);
+        workerUnavailable = true;
+        jobs.forEach(({ job, resolve, reject }) => {
+          Promise.resolve().then(() => runOnMainThread(job)).then(resolve, reject);
+        });
+        return;
+      }
+      const error = new Error(event.message || `${name} worker failed`);
+      jobs.forEach(({ reject }) => reject(error));
+    };
+    return worker;
+  };
+
+  return async (input) => {
+    const job = { ...input, id: nextJobId++ } as Job;
+    const jobWorker = getWorker();
+    if (!jobWorker) return runOnMainThread(job);
+    return new Promise<Output>((resolve, reject) => {
+      pendingJobs.set(job.id, { job, resolve, reject });
+      jobWorker.postMessage(job);
+    });
+  };
+}
@@ -2,9 +2,12 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
     const basePath = env.VITE_BASE_PATH?.trim() ? env.VITE_BASE_PATH : '/';
+    // The key is only ever handed to the local dev server. Builds are meant to
+    // be deployed, so they leave it out and reach Gemini through the proxy.
+    const apiKey = command === 'serve' && !env.TTS_PROXY_URL ? env.GEMINI_API_KEY : undefined;
     return {
         base: basePath,
       server: {
@@ -13,8 +16,9 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.TTS_PROXY_URL': JSON.stringify(env.TTS_PROXY_URL ?? '')
       },
       resolve: {
         alias: {